@@ -1,141 +1,735 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { LoadingStage, PodcastEpisode } from './types';
-import { generateScript, generateCoverArt, generateAudio } from './services/geminiService';
+import {
+  AudioPlayer,
+  CastMember,
+  CoverDesign,
+  EpisodeFormat,
+  EpisodeRecap,
+  GenerationSettings,
+  LibraryEntry,
+  LoadingStage,
+  MixAssets,
+  MixSettings,
+  PodcastEpisode,
+  PodcastScript,
+  RecordedTake,
+  Show,
+  ShowContext,
+  SourceDocument,
+  StitchOptions,
+  SynthesisMode
+} from './types';
+import { generateLineAudio, requiresSegmentedSynthesis } from './services/podcastService';
+import { EpisodeAssets, answerCallIn, checkScript, createCover, createEpisodeAssets, writeScript } from './services/pipeline';
+import { classifyError, throwIfAborted } from './services/errors';
+import { lineIndexAt, stitchSegments } from './services/audioSegments';
+import { resolveLineTimings } from './services/transcriptExport';
+import { createAudioPlayer } from './services/audioPlayer';
+import { mixEpisode } from './services/audioMixer';
+import { renderCoverDataUrl } from './services/coverCompositor';
+import { deleteShow, listEpisodes, listShows, loadEpisode, saveEpisode, saveShow } from './services/episodeLibrary';
+import { buildShowContext } from './services/series';
+import { withUsage } from './services/usageTracker';
+import { BatchJobRunner, createBatchQueue } from './services/batchQueue';
 import { AudioVisualizer } from './components/AudioVisualizer';
 import { Button } from './components/Button';
+import { CastEditor } from './components/CastEditor';
+import { SynthesisSettings } from './components/SynthesisSettings';
+import { ExportMenu } from './components/ExportMenu';
+import { SharePanel } from './components/SharePanel';
+import { RecordingBooth } from './components/RecordingBooth';
+import { humanLineIndices } from './services/recordedLines';
+import { LibrarySidebar } from './components/LibrarySidebar';
+import { ScriptEditor } from './components/ScriptEditor';
+import { SourceMaterialInput } from './components/SourceMaterialInput';
+import { FormatSettings } from './components/FormatSettings';
+import { Player } from './components/Player';
+import { Transcript } from './components/Transcript';
+import { MixPanel } from './components/MixPanel';
+import { ShowPanel } from './components/ShowPanel';
+import { ShowNotesCard } from './components/ShowNotesCard';
+import { CoverStudio } from './components/CoverStudio';
+import { PronunciationDialog } from './components/PronunciationDialog';
+import { PublishDialog } from './components/PublishDialog';
+import { SettingsDialog } from './components/SettingsDialog';
+import { UsageDialog } from './components/UsageDialog';
+import { UsageCard } from './components/UsageCard';
+import { CallInPanel } from './components/CallInPanel';
+import { BatchPanel } from './components/BatchPanel';
+import {
+  DEFAULT_CAST,
+  DEFAULT_EPISODE_FORMAT,
+  DEFAULT_STITCH_OPTIONS,
+  EPISODE_LANGUAGES
+} from './constants';
+
+// Where a new episode goes: a show and its continuity context, or nowhere for one-offs
+interface SeriesTarget {
+  show: Show;
+  context: ShowContext;
+}
+
+// Everything produceEpisode needs besides the script itself
+interface EpisodeJob {
+  id: string; // Assigned up front so the script's usage is attributed to the episode too
+  cast: CastMember[];
+  settings: GenerationSettings;
+  series: SeriesTarget | null;
+  sourceUrls: string[];
+}
+
+const buildEpisode = (
+  script: PodcastScript,
+  { id, cast, settings, series }: EpisodeJob,
+  assets: EpisodeAssets,
+  stitchOptions: StitchOptions
+): PodcastEpisode => ({
+  id,
+  createdAt: Date.now(),
+  settings,
+  script,
+  cast,
+  coverImageBase64: assets.coverImageBase64,
+  audioBuffer: assets.audioBuffer,
+  segments: assets.segments,
+  lineTimings: assets.lineTimings,
+  stitchOptions,
+  dryAudioBuffer: null,
+  mix: null,
+  showId: series?.show.id ?? null,
+  episodeNumber: series?.context.episodeNumber ?? null,
+  showNotes: assets.showNotes,
+  cover: null,
+  callIns: []
+});
+
+/**
+ * Batch mode: each job writes its script (unless a paused run already did), then produces
+ * the episode straight into the library.
+ */
+const createBatchRunner = (
+  getAudioContext: () => AudioContext | null,
+  onSaved: (evicted: LibraryEntry[]) => void
+): BatchJobRunner => (job, update, signal) => withUsage(job.id, async tagged => {
+  const audioContext = getAudioContext();
+  if (!audioContext) throw new Error("Audio Context not initialized");
+  const { id, settings, cast, stitchOptions } = job;
+
+  let script = job.script;
+  if (!script) {
+    update({ stage: LoadingStage.WRITING_SCRIPT });
+    script = await writeScript({ topic: settings.topic, cast, format: settings.format }, [], tagged);
+    if (settings.factCheck) {
+      update({ stage: LoadingStage.CHECKING_SCRIPT });
+      script = await checkScript(script, tagged);
+    }
+    update({ script, title: script.title });
+  }
+
+  update({ stage: LoadingStage.SYNTHESIZING_AUDIO });
+  const assets = await createEpisodeAssets(script, cast, audioContext, {
+    segmented: settings.synthesisMode === 'segmented' || requiresSegmentedSynthesis(cast),
+    stitchOptions,
+    onSegmentProgress: (done, total) => update({ progress: { done, total } }),
+    sourceUrls: []
+  }, tagged);
+  throwIfAborted(signal);
+  onSaved(await saveEpisode(buildEpisode(script, { id, cast, settings, series: null, sourceUrls: [] }, assets, stitchOptions)));
+}, signal);
+
+// URL sources double as show-note links
+const sourceUrlsOf = (sources: SourceDocument[]) =>
+  sources.filter(source => source.kind === 'url').map(source => source.name);
 
 const App: React.FC = () => {
   const [topic, setTopic] = useState('');
+  const [cast, setCast] = useState<CastMember[]>(DEFAULT_CAST);
+  const [sources, setSources] = useState<SourceDocument[]>([]);
+  const [format, setFormat] = useState<EpisodeFormat>(DEFAULT_EPISODE_FORMAT);
+  const [synthesisMode, setSynthesisMode] = useState<SynthesisMode>('combined');
+  const [stitchOptions, setStitchOptions] = useState<StitchOptions>(DEFAULT_STITCH_OPTIONS);
+  const [segmentProgress, setSegmentProgress] = useState<{ done: number; total: number } | null>(null);
+  const [rerecordingLine, setRerecordingLine] = useState<number | null>(null);
+  const [isRetryingCover, setIsRetryingCover] = useState(false);
+  const [isApplyingCover, setIsApplyingCover] = useState(false);
+  const [isAnsweringCallIn, setIsAnsweringCallIn] = useState(false);
+  // Music for the mixing stage, reused across episodes in this session
+  const [mixAssets, setMixAssets] = useState<MixAssets>({ intro: null, outro: null, bed: null });
+  const [isMixing, setIsMixing] = useState(false);
+  const [reviewBeforeRecording, setReviewBeforeRecording] = useState(false);
+  const [factCheck, setFactCheck] = useState(false);
+  // Script awaiting approval in REVIEWING_SCRIPT, or its human lines in RECORDING_LINES, with the job it was written for
+  const [draft, setDraft] = useState<{ script: PodcastScript; job: EpisodeJob } | null>(null);
+  const [shows, setShows] = useState<Show[]>([]);
+  const [activeShowId, setActiveShowId] = useState<string | null>(null);
+  const [seasonProgress, setSeasonProgress] = useState<{ current: number; total: number } | null>(null);
   const [loadingStage, setLoadingStage] = useState<LoadingStage>(LoadingStage.IDLE);
   const [episode, setEpisode] = useState<PodcastEpisode | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isPronunciationOpen, setIsPronunciationOpen] = useState(false);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+
+  const isBusy = loadingStage !== LoadingStage.IDLE && loadingStage !== LoadingStage.COMPLETE && loadingStage !== LoadingStage.ERROR;
+  const isReviewing = loadingStage === LoadingStage.REVIEWING_SCRIPT;
+  const isRecordingLines = loadingStage === LoadingStage.RECORDING_LINES;
+  // Paused on the user, so the run's progress isn't shown
+  const isAwaitingUser = isReviewing || isRecordingLines;
 
-  // Audio Refs
+  // Audio: one context and one player for the app's lifetime
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const startTimeRef = useRef<number>(0);
-  const pausedTimeRef = useRef<number>(0);
+  const [player, setPlayer] = useState<AudioPlayer | null>(null);
+  // Aborts the generation in flight when the user cancels
+  const abortRef = useRef<AbortController | null>(null);
+  // Where to start playing once the next audio buffer is loaded, e.g. a call-in answer
+  const pendingSeekRef = useRef<number | null>(null);
+  // Batch jobs run alongside the main form, each with its own stage
+  const [batchQueue] = useState(() => createBatchQueue(createBatchRunner(
+    () => audioContextRef.current,
+    evicted => {
+      if (evicted.length > 0) {
+        setNotice(`Storage was full, so ${evicted.length} older episode${evicted.length === 1 ? ' was' : 's were'} removed from the library.`);
+      }
+      setLibraryVersion(v => v + 1);
+    }
+  )));
 
   // Initialize Audio Context on user interaction (browser policy)
   const initAudio = () => {
     if (!audioContextRef.current) {
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
       audioContextRef.current = new AudioContextClass();
+      setPlayer(createAudioPlayer(audioContextRef.current));
     }
     if (audioContextRef.current.state === 'suspended') {
       audioContextRef.current.resume();
     }
   };
 
-  const handleGenerate = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!topic.trim()) return;
+  useEffect(() => {
+    player?.load(episode?.audioBuffer ?? null);
+    if (player && pendingSeekRef.current !== null) {
+      player.seek(pendingSeekRef.current);
+      player.play();
+      pendingSeekRef.current = null;
+    }
+  }, [player, episode?.audioBuffer]);
+
+  useEffect(() => {
+    listShows().then(setShows).catch(err => console.error(err));
+  }, []);
+
+  const activeShow = shows.find(show => show.id === activeShowId) ?? null;
+  const episodeShow = episode?.showId ? shows.find(show => show.id === episode.showId) ?? null : null;
+
+  // Save to the local library; failures here never cost the user the episode itself
+  const persistEpisode = async (toSave: PodcastEpisode) => {
+    try {
+      const evicted = await saveEpisode(toSave);
+      if (evicted.length > 0) {
+        setNotice(`Storage was full, so ${evicted.length} older episode${evicted.length === 1 ? ' was' : 's were'} removed from the library.`);
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError(`Your episode is ready but could not be saved to the library: ${err.message || err}`);
+    } finally {
+      setLibraryVersion(v => v + 1);
+    }
+  };
+
+  const startRun = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Cancellation returns to idle quietly; anything else is shown with its actionable message
+  const handleGenerationError = (err: unknown) => {
+    const failure = classifyError(err);
+    setSegmentProgress(null);
+    if (failure.category === 'cancelled') {
+      setNotice(failure.message);
+      setLoadingStage(LoadingStage.IDLE);
+      return;
+    }
+    console.error(err);
+    setError(failure.message);
+    setLoadingStage(LoadingStage.ERROR);
+  };
 
+  const handleOpenEpisode = async (id: string) => {
+    initAudio();
+    stopPlayback();
     setError(null);
-    setEpisode(null);
-    setIsPlaying(false);
-    
-    // Stop any playing audio
-    if (sourceNodeRef.current) {
-        try { sourceNodeRef.current.stop(); } catch(e) {}
+    setNotice(null);
+    try {
+      if (!audioContextRef.current) throw new Error("Audio Context not initialized");
+      const stored = await loadEpisode(id, audioContextRef.current);
+      setEpisode(stored);
+      setLoadingStage(LoadingStage.COMPLETE);
+      setIsLibraryOpen(false);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not open that episode.");
     }
+  };
+
+  // Checks shared by single episodes and seasons; returns the frozen job inputs or null after reporting
+  const prepareJob = (): { episodeCast: CastMember[]; readySources: SourceDocument[] } | null => {
+    if (sources.some(source => source.status === 'loading')) {
+      setError("Please wait until all source material has been read.");
+      return null;
+    }
+    const names = cast.map(member => member.name.trim());
+    if (names.some(name => !name) || new Set(names).size !== names.length) {
+      setError("Every speaker needs a unique, non-empty name.");
+      return null;
+    }
+    // Freeze the cast for this episode so later edits don't affect it
+    const episodeCast = cast.map(member => ({ ...member, name: member.name.trim() }));
+    return { episodeCast, readySources: sources.filter(source => source.status === 'ready') };
+  };
+
+  const resetForRun = () => {
+    setError(null);
+    setNotice(null);
+    setEpisode(null);
+    setDraft(null);
+    setSegmentProgress(null);
+    stopPlayback();
+  };
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const readyCount = sources.filter(source => source.status === 'ready').length;
+    if (!topic.trim() && readyCount === 0) return;
+    const prepared = prepareJob();
+    if (!prepared) return;
+    const { episodeCast, readySources } = prepared;
+    const settings: GenerationSettings = {
+      topic: topic.trim() || "the attached source material",
+      synthesisMode,
+      format,
+      factCheck
+    };
 
+    resetForRun();
+    const signal = startRun();
     try {
       initAudio();
       
       // 1. Script
       setLoadingStage(LoadingStage.WRITING_SCRIPT);
-      const script = await generateScript(topic);
-      
-      // 2. Parallel: Art & Audio
-      setLoadingStage(LoadingStage.GENERATING_ART); // UI update
-      // We start both but update UI to show we are busy
-      
-      const artPromise = generateCoverArt(script.title, script.topic);
-      
-      setLoadingStage(LoadingStage.SYNTHESIZING_AUDIO);
-      if (!audioContextRef.current) throw new Error("Audio Context not initialized");
-      const audioPromise = generateAudio(script, audioContextRef.current);
+      const series = activeShow ? { show: activeShow, context: buildShowContext(activeShow, await listEpisodes()) } : null;
+      const job: EpisodeJob = { id: Date.now().toString(), cast: episodeCast, settings, series, sourceUrls: sourceUrlsOf(readySources) };
+      let script = await withUsage(job.id, tagged => writeScript(
+        { topic: settings.topic, cast: episodeCast, format: settings.format, show: series?.context },
+        readySources,
+        tagged
+      ), signal);
+      if (factCheck) {
+        setLoadingStage(LoadingStage.CHECKING_SCRIPT);
+        script = await withUsage(job.id, tagged => checkScript(script, tagged), signal);
+      }
+
+      if (reviewBeforeRecording) {
+        // Pause here; produceEpisode runs once the user approves the edited script
+        setDraft({ script, job });
+        setLoadingStage(LoadingStage.REVIEWING_SCRIPT);
+        return;
+      }
+      if (awaitRecordings(script, job)) return;
 
-      const [coverImageBase64, audioBuffer] = await Promise.all([artPromise, audioPromise]);
+      await produceEpisode(script, job, signal);
+    } catch (err) {
+      handleGenerationError(err);
+    }
+  };
 
-      setEpisode({
-        id: Date.now().toString(),
-        script,
-        coverImageBase64,
-        audioBuffer
-      });
+  // Series mode: write and produce each topic in order, feeding every finished episode into the next one's context
+  const handleGenerateSeason = async (topics: string[]) => {
+    if (!activeShow || topics.length === 0) return;
+    const prepared = prepareJob();
+    if (!prepared) return;
+    const { episodeCast, readySources } = prepared;
+    const show = activeShow;
+    if (episodeCast.some(member => member.human)) {
+      setError("Seasons are produced without stopping, so every speaker needs an AI voice. Switch human speakers back to AI first.");
+      return;
+    }
 
-      setLoadingStage(LoadingStage.COMPLETE);
+    resetForRun();
+    const signal = startRun();
+    try {
+      initAudio();
+      const entries = await listEpisodes();
+      const recaps: EpisodeRecap[] = [];
+      for (const [i, seasonTopic] of topics.entries()) {
+        setSeasonProgress({ current: i + 1, total: topics.length });
+        setSegmentProgress(null);
+        setLoadingStage(LoadingStage.WRITING_SCRIPT);
+        const context = buildShowContext(show, entries, recaps);
+        const settings: GenerationSettings = { topic: seasonTopic, synthesisMode, format, factCheck };
+        const id = Date.now().toString();
+        let script = await withUsage(id, tagged => writeScript(
+          { topic: seasonTopic, cast: episodeCast, format, show: context },
+          readySources,
+          tagged
+        ), signal);
+        if (factCheck) {
+          setLoadingStage(LoadingStage.CHECKING_SCRIPT);
+          script = await withUsage(id, tagged => checkScript(script, tagged), signal);
+        }
+        const produced = await produceEpisode(script, {
+          id,
+          cast: episodeCast,
+          settings,
+          series: { show, context },
+          sourceUrls: sourceUrlsOf(readySources)
+        }, signal);
+        recaps.push({
+          episodeNumber: context.episodeNumber,
+          title: produced.script.title,
+          summary: produced.showNotes?.description ?? seasonTopic
+        });
+      }
+      setNotice(`Season complete: ${topics.length} episode${topics.length === 1 ? '' : 's'} of "${show.name}" saved to the library.`);
+    } catch (err) {
+      handleGenerationError(err);
+    } finally {
+      setSeasonProgress(null);
+    }
+  };
+
+  // Human speakers record their lines before anything is synthesized; true when paused for that
+  const awaitRecordings = (script: PodcastScript, job: EpisodeJob): boolean => {
+    if (humanLineIndices(script.dialogue, job.cast).length === 0) return false;
+    setDraft({ script, job });
+    setLoadingStage(LoadingStage.RECORDING_LINES);
+    return true;
+  };
 
+  const handleApproveDraft = async () => {
+    if (!draft) return;
+    const { script, job } = draft;
+    if (awaitRecordings(script, job)) return;
+    setDraft(null);
+    try {
+      await produceEpisode(script, job, startRun());
+    } catch (err) {
+      handleGenerationError(err);
+    }
+  };
+
+  const handleFinishRecording = async (recordedTakes: (RecordedTake | null)[]) => {
+    if (!draft) return;
+    const { script, job } = draft;
+    setDraft(null);
+    try {
+      await produceEpisode(script, job, startRun(), recordedTakes);
+    } catch (err) {
+      handleGenerationError(err);
+    }
+  };
+
+  const handleSelectShow = (id: string | null) => {
+    setActiveShowId(id);
+    const show = shows.find(s => s.id === id);
+    if (show) {
+      setCast(show.cast);
+      setFormat(show.format);
+    }
+  };
+
+  const storeShow = async (show: Show) => {
+    await saveShow(show);
+    setShows(prev => prev.some(s => s.id === show.id) ? prev.map(s => s.id === show.id ? show : s) : [...prev, show]);
+  };
+
+  const handleSaveShow = async (show: Show) => {
+    try {
+      await storeShow(show);
+      setActiveShowId(show.id);
     } catch (err: any) {
       console.error(err);
-      setError(err.message || "Something went wrong creating your podcast.");
-      setLoadingStage(LoadingStage.ERROR);
+      setError(`Could not save the show: ${err.message || err}`);
     }
   };
 
-  const togglePlayback = () => {
-    if (!episode || !episode.audioBuffer || !audioContextRef.current) return;
+  const handleDeleteShow = async (id: string) => {
+    try {
+      await deleteShow(id);
+      setShows(prev => prev.filter(show => show.id !== id));
+      if (activeShowId === id) setActiveShowId(null);
+      setLibraryVersion(v => v + 1);
+    } catch (err: any) {
+      console.error(err);
+      setError(`Could not delete the show: ${err.message || err}`);
+    }
+  };
 
-    if (isPlaying) {
-      // Pause
-      if (sourceNodeRef.current) {
-        try { sourceNodeRef.current.stop(); } catch (e) {}
-        pausedTimeRef.current += audioContextRef.current.currentTime - startTimeRef.current;
-        setIsPlaying(false);
-      }
-    } else {
-      // Play
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = episode.audioBuffer;
-      source.connect(audioContextRef.current.destination);
-      
-      // Start from where we left off
-      source.start(0, pausedTimeRef.current);
-      
-      startTimeRef.current = audioContextRef.current.currentTime;
-      sourceNodeRef.current = source;
-      setIsPlaying(true);
-
-      source.onended = () => {
-          // Only reset if we reached the end naturally, not if we stopped it manually
-          // Simple check: compare times or just let UI handle it. 
-          // For simplicity in this demo, we won't perfectly track "end" vs "pause" in onended
-          // But we can reset if pausedTime + duration is reached.
-          setIsPlaying(false);
-          pausedTimeRef.current = 0;
-      };
-    }
-  };
-
-  // Helper to render script lines
-  const renderScript = () => {
-    if (!episode) return null;
-    return (
-      <div className="space-y-4 max-h-96 overflow-y-auto pr-2 custom-scrollbar">
-        {episode.script.dialogue.map((line, idx) => (
-          <div key={idx} className={`flex flex-col ${line.speaker === 'Host' ? 'items-start' : 'items-end'}`}>
-             <div className={`max-w-[85%] p-3 rounded-2xl text-sm leading-relaxed ${
-               line.speaker === 'Host' 
-               ? 'bg-indigo-500/20 rounded-tl-none border border-indigo-500/30 text-indigo-100' 
-               : 'bg-purple-500/20 rounded-tr-none border border-purple-500/30 text-purple-100'
-             }`}>
-                <span className="text-xs font-bold uppercase opacity-50 mb-1 block">{line.speaker}</span>
-                {line.text}
-             </div>
-          </div>
-        ))}
-      </div>
-    );
+  const handleDiscardDraft = () => {
+    setDraft(null);
+    setLoadingStage(LoadingStage.IDLE);
+  };
+
+  // Steps 2 & 3: cover art and audio (plus show notes) for a finished script
+  const produceEpisode = async (
+    script: PodcastScript,
+    { id, cast: episodeCast, settings, series, sourceUrls }: EpisodeJob,
+    signal: AbortSignal,
+    recordedTakes?: (RecordedTake | null)[]
+  ): Promise<PodcastEpisode> => {
+    // 2. Parallel: Art & Audio
+    setLoadingStage(LoadingStage.GENERATING_ART); // UI update
+    // We start both but update UI to show we are busy
+    setLoadingStage(LoadingStage.SYNTHESIZING_AUDIO);
+    const audioContext = audioContextRef.current;
+    if (!audioContext) throw new Error("Audio Context not initialized");
+
+    // Casts too large for one TTS request are always synthesized line by line
+    const segmented = settings.synthesisMode === 'segmented' || requiresSegmentedSynthesis(episodeCast);
+    const episodeStitchOptions = { ...stitchOptions };
+    const assets = await withUsage(id, tagged => createEpisodeAssets(script, episodeCast, audioContext, {
+      segmented,
+      stitchOptions: episodeStitchOptions,
+      onSegmentProgress: (done, total) => setSegmentProgress({ done, total }),
+      recordedTakes,
+      coverStyle: series?.show.coverStyle,
+      sourceUrls
+    }, tagged), signal);
+
+    const newEpisode = buildEpisode(script, { id, cast: episodeCast, settings, series, sourceUrls }, assets, episodeStitchOptions);
+    setEpisode(newEpisode);
+    if (assets.coverError) {
+      setNotice(`Your episode is ready, but the cover art failed: ${assets.coverError.message}`);
+    }
+
+    setLoadingStage(LoadingStage.COMPLETE);
+    persistEpisode(newEpisode);
+    return newEpisode;
+  };
+
+  const handleRetryCover = async () => {
+    if (!episode) return;
+    setError(null);
+    setNotice(null);
+    setIsRetryingCover(true);
+    try {
+      const coverImageBase64 = await withUsage(episode.id, signal => createCover(episode.script, episodeShow?.coverStyle, signal));
+      const updated = { ...episode, coverImageBase64, cover: null };
+      setEpisode(prev => prev && prev.id === episode.id ? updated : prev);
+      persistEpisode(updated);
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err).message);
+    } finally {
+      setIsRetryingCover(false);
+    }
+  };
+
+  const coverTextFor = (target: PodcastEpisode) => ({
+    title: target.script.title,
+    showName: shows.find(show => show.id === target.showId)?.name ?? null
+  });
+
+  // The studio's design is rendered once here; the result is what the app, library and exports show
+  const handleApplyCover = async (design: CoverDesign) => {
+    if (!episode) return;
+    setError(null);
+    setIsApplyingCover(true);
+    try {
+      const coverImageBase64 = await renderCoverDataUrl(design, coverTextFor(episode));
+      const updated = { ...episode, cover: design, coverImageBase64 };
+      setEpisode(prev => prev && prev.id === episode.id ? updated : prev);
+      persistEpisode(updated);
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err).message);
+    } finally {
+      setIsApplyingCover(false);
+    }
+  };
+
+  // A title drawn onto the cover has to follow a rename
+  const handleRenamed = async (id: string, title: string) => {
+    if (episode?.id !== id) return;
+    const renamed = { ...episode, script: { ...episode.script, title } };
+    setEpisode(renamed);
+    if (!renamed.cover?.overlay) return;
+    try {
+      const coverImageBase64 = await renderCoverDataUrl(renamed.cover, coverTextFor(renamed));
+      const updated = { ...renamed, coverImageBase64 };
+      setEpisode(prev => prev && prev.id === id ? updated : prev);
+      persistEpisode(updated);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Mixing always starts from the dry speech, so settings can be changed without new TTS calls
+  const handleApplyMix = async (settings: MixSettings) => {
+    const dry = episode?.dryAudioBuffer ?? episode?.audioBuffer;
+    if (!episode || !dry) return;
+    stopPlayback();
+    setError(null);
+    setIsMixing(true);
+    try {
+      const { audioBuffer, mix } = await mixEpisode(dry, settings, mixAssets);
+      const updated = { ...episode, audioBuffer, dryAudioBuffer: dry, mix };
+      setEpisode(prev => prev && prev.id === episode.id ? updated : prev);
+      persistEpisode(updated);
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err).message);
+    } finally {
+      setIsMixing(false);
+    }
+  };
+
+  const handleRemoveMix = () => {
+    if (!episode?.dryAudioBuffer) return;
+    stopPlayback();
+    const updated = { ...episode, audioBuffer: episode.dryAudioBuffer, dryAudioBuffer: null, mix: null };
+    setEpisode(updated);
+    persistEpisode(updated);
+  };
+
+  const handleLanguageChange = (language: string) => {
+    setFormat(prev => ({ ...prev, language }));
+    const voices = EPISODE_LANGUAGES.find(l => l.code === language)?.voices;
+    if (voices) {
+      setCast(prev => prev.map((member, i) => ({ ...member, voiceName: voices[i % voices.length] })));
+    }
+  };
+
+  const stopPlayback = () => {
+    player?.pause();
+  };
+
+  // The answer is appended to the episode and played straight away
+  const handleCallIn = async (question: string) => {
+    const audioContext = audioContextRef.current;
+    if (!episode || !audioContext || !player) return;
+
+    const { position, duration } = player.getState();
+    const line = position > 0 && position < duration ? lineIndexAt(resolveLineTimings(episode), position) : -1;
+    stopPlayback();
+    setError(null);
+    setIsAnsweringCallIn(true);
+    try {
+      const updated = await withUsage(episode.id, signal => answerCallIn(episode, question, line >= 0 ? line : null, audioContext, signal));
+      if (episode.mix) setNotice('The answer was added and the mix removed. Apply it again under Post-production.');
+      pendingSeekRef.current = updated.callIns[updated.callIns.length - 1].startTime;
+      setEpisode(prev => prev && prev.id === episode.id ? updated : prev);
+      persistEpisode(updated);
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err).message);
+    } finally {
+      setIsAnsweringCallIn(false);
+    }
+  };
+
+  // Replace one line's segment and re-stitch the episode around it
+  const handleRerecordLine = async (index: number) => {
+    const audioContext = audioContextRef.current;
+    if (!episode || !episode.segments || !audioContext) return;
+
+    stopPlayback();
+    setError(null);
+    setRerecordingLine(index);
+    try {
+      const segment = await withUsage(episode.id, signal => generateLineAudio(episode.script.dialogue[index], episode.cast, audioContext, signal));
+      const segments = episode.segments.map((existing, i) => i === index ? segment : existing);
+      const speakers = episode.script.dialogue.map(line => line.speaker);
+      const { audioBuffer, lineTimings } = stitchSegments(segments, speakers, episode.stitchOptions, audioContext);
+      // The old mix no longer matches the speech, so fall back to the new dry track
+      const updated = { ...episode, segments, audioBuffer, lineTimings, dryAudioBuffer: null, mix: null };
+      if (episode.mix) setNotice('The line was re-recorded and the mix removed. Apply it again under Post-production.');
+      setEpisode(prev => prev && prev.id === episode.id ? updated : prev);
+      persistEpisode(updated);
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err).message);
+    } finally {
+      setRerecordingLine(null);
+    }
   };
 
   return (
     <div className="min-h-screen bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-indigo-900 via-[#0f172a] to-black text-white p-4 md:p-8">
       <div className="max-w-4xl mx-auto">
+        <LibrarySidebar
+          isOpen={isLibraryOpen}
+          onClose={() => setIsLibraryOpen(false)}
+          onOpenEpisode={handleOpenEpisode}
+          onRenamed={handleRenamed}
+          activeEpisodeId={episode?.id ?? null}
+          refreshKey={libraryVersion}
+        />
+
+        <PublishDialog
+          isOpen={isPublishOpen}
+          onClose={() => setIsPublishOpen(false)}
+          shows={shows}
+          onSaveShow={(show) => storeShow(show).catch(err => console.error(err))}
+          getAudioContext={() => {
+            initAudio();
+            return audioContextRef.current;
+          }}
+          refreshKey={libraryVersion}
+        />
+
+        <SettingsDialog isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+
+        <UsageDialog isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)} />
+
+        <PronunciationDialog isOpen={isPronunciationOpen} onClose={() => setIsPronunciationOpen(false)} />
+
         {/* Header */}
-        <header className="mb-12 text-center space-y-4">
+        <header className="relative mb-12 text-center space-y-4">
+            <div className="absolute right-0 top-0 flex gap-2">
+              <button
+                onClick={() => setIsUsageOpen(true)}
+                className="px-4 py-2 rounded-full bg-white/5 ring-1 ring-white/10 text-sm text-gray-300 hover:bg-white/10"
+              >
+                Usage
+              </button>
+              <button
+                onClick={() => setIsPronunciationOpen(true)}
+                className="px-4 py-2 rounded-full bg-white/5 ring-1 ring-white/10 text-sm text-gray-300 hover:bg-white/10"
+              >
+                Pronunciation
+              </button>
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="px-4 py-2 rounded-full bg-white/5 ring-1 ring-white/10 text-sm text-gray-300 hover:bg-white/10"
+              >
+                Settings
+              </button>
+              <button
+                onClick={() => setIsPublishOpen(true)}
+                className="px-4 py-2 rounded-full bg-white/5 ring-1 ring-white/10 text-sm text-gray-300 hover:bg-white/10"
+              >
+                Publish
+              </button>
+              <button
+                onClick={() => setIsLibraryOpen(true)}
+                className="px-4 py-2 rounded-full bg-white/5 ring-1 ring-white/10 text-sm text-gray-300 hover:bg-white/10"
+              >
+                Library
+              </button>
+            </div>
             <div className="inline-flex items-center justify-center p-3 bg-white/5 rounded-full ring-1 ring-white/10 mb-4 animate-glow">
                 <svg className="w-6 h-6 text-indigo-400 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"></path></svg>
                 <span className="font-bold tracking-wider text-sm">GEMINI CAST</span>
@@ -157,24 +751,101 @@ const App: React.FC = () => {
               onChange={(e) => setTopic(e.target.value)}
               placeholder="Enter a topic (e.g., 'The history of Sushi' or 'Quantum Computing for kids')"
               className="flex-1 bg-black/40 border border-white/10 rounded-xl px-6 py-4 text-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all placeholder-gray-500"
-              disabled={loadingStage !== LoadingStage.IDLE && loadingStage !== LoadingStage.COMPLETE && loadingStage !== LoadingStage.ERROR}
+              disabled={isBusy}
             />
             <Button 
                 type="submit" 
-                isLoading={loadingStage !== LoadingStage.IDLE && loadingStage !== LoadingStage.COMPLETE && loadingStage !== LoadingStage.ERROR}
+                isLoading={isBusy && !isAwaitingUser}
+                disabled={isAwaitingUser}
                 className="md:w-48 shrink-0"
             >
                 Generate Episode
             </Button>
           </form>
 
+          <div className="mt-6">
+            <SourceMaterialInput sources={sources} onChange={setSources} disabled={isBusy} />
+          </div>
+
+          <div className="mt-6">
+            <FormatSettings
+              format={format}
+              onChange={setFormat}
+              onLanguageChange={handleLanguageChange}
+              disabled={isBusy}
+            />
+          </div>
+
+          <div className="mt-6">
+            <ShowPanel
+              shows={shows}
+              activeShowId={activeShowId}
+              onSelect={handleSelectShow}
+              onSave={handleSaveShow}
+              onDelete={handleDeleteShow}
+              onGenerateSeason={handleGenerateSeason}
+              cast={cast}
+              format={format}
+              disabled={isBusy}
+            />
+          </div>
+
+          <div className="mt-6">
+            <CastEditor
+              cast={cast}
+              onChange={setCast}
+              disabled={isBusy}
+            />
+          </div>
+
+          <div className="mt-6">
+            <SynthesisSettings
+              mode={synthesisMode}
+              onModeChange={setSynthesisMode}
+              stitchOptions={stitchOptions}
+              onStitchOptionsChange={setStitchOptions}
+              disabled={isBusy}
+            />
+          </div>
+
+          <label className="mt-4 flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={reviewBeforeRecording}
+              onChange={(e) => setReviewBeforeRecording(e.target.checked)}
+              disabled={isBusy}
+            />
+            Review and edit the script before recording
+          </label>
+
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={factCheck}
+              onChange={(e) => setFactCheck(e.target.checked)}
+              disabled={isBusy}
+            />
+            Fact-check the script and flag content-policy issues
+          </label>
+
           {/* Loading States */}
-          {loadingStage !== LoadingStage.IDLE && loadingStage !== LoadingStage.COMPLETE && loadingStage !== LoadingStage.ERROR && (
+          {isBusy && !isAwaitingUser && (
              <div className="mt-8 space-y-3">
+                {seasonProgress && (
+                  <div className="text-xs font-bold uppercase tracking-wider text-indigo-300">
+                    Season — episode {seasonProgress.current}/{seasonProgress.total}
+                  </div>
+                )}
                 <div className="flex items-center gap-3 text-sm text-gray-400">
                     <div className={`w-2 h-2 rounded-full ${loadingStage === LoadingStage.WRITING_SCRIPT ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`}></div>
                     Writing Script (Gemini 3 Pro)
                 </div>
+                {factCheck && (
+                  <div className="flex items-center gap-3 text-sm text-gray-400">
+                      <div className={`w-2 h-2 rounded-full ${loadingStage === LoadingStage.CHECKING_SCRIPT ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`}></div>
+                      Checking Facts and Content
+                  </div>
+                )}
                 <div className="flex items-center gap-3 text-sm text-gray-400">
                     <div className={`w-2 h-2 rounded-full ${loadingStage === LoadingStage.GENERATING_ART ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`}></div>
                     Designing Cover Art (Imagen / Gemini 3)
@@ -182,7 +853,15 @@ const App: React.FC = () => {
                 <div className="flex items-center gap-3 text-sm text-gray-400">
                     <div className={`w-2 h-2 rounded-full ${loadingStage === LoadingStage.SYNTHESIZING_AUDIO ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`}></div>
                     Synthesizing Multi-Speaker Audio (Gemini 2.5 Flash TTS)
+                    {segmentProgress && ` — ${segmentProgress.done}/${segmentProgress.total} lines`}
                 </div>
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="mt-2 px-4 py-2 rounded-full bg-white/5 ring-1 ring-white/10 text-sm text-gray-300 hover:bg-white/10"
+                >
+                  Cancel
+                </button>
              </div>
           )}
 
@@ -191,8 +870,53 @@ const App: React.FC = () => {
                   {error}
               </div>
           )}
+
+          {notice && (
+              <div className="mt-4 p-4 bg-indigo-500/10 border border-indigo-500/20 rounded-xl text-indigo-200 text-sm">
+                  {notice}
+              </div>
+          )}
+        </div>
+
+        <div className="glass p-8 rounded-3xl shadow-2xl mb-8">
+          <BatchPanel
+            queue={batchQueue}
+            cast={cast}
+            format={format}
+            synthesisMode={synthesisMode}
+            factCheck={factCheck}
+            stitchOptions={stitchOptions}
+            getAudioContext={() => {
+              initAudio();
+              return audioContextRef.current;
+            }}
+            onOpenEpisode={handleOpenEpisode}
+          />
         </div>
 
+        {/* Script Review */}
+        {isReviewing && draft && (
+          <ScriptEditor
+            script={draft.script}
+            cast={draft.job.cast}
+            onChange={(script) => setDraft({ ...draft, script })}
+            onApprove={handleApproveDraft}
+            onDiscard={handleDiscardDraft}
+          />
+        )}
+
+        {/* Recording booth for human speakers */}
+        {isRecordingLines && draft && (
+          <RecordingBooth
+            key={draft.job.id}
+            script={draft.script}
+            cast={draft.job.cast}
+            audioContext={audioContextRef.current}
+            onFinish={handleFinishRecording}
+            onDiscard={handleDiscardDraft}
+          />
+        )}
+
         {/* Results Section */}
         {episode && loadingStage === LoadingStage.COMPLETE && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8 animate-[fadeIn_0.5s_ease-out]">
@@ -202,33 +926,71 @@ const App: React.FC = () => {
                     {episode.coverImageBase64 ? (
                         <img src={episode.coverImageBase64} alt="Cover" className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110" />
                     ) : (
-                        <div className="w-full h-full bg-gray-800 flex items-center justify-center">No Cover</div>
+                        <div className="w-full h-full bg-gray-800 flex flex-col items-center justify-center gap-4">
+                            No Cover
+                            <button
+                              type="button"
+                              onClick={handleRetryCover}
+                              disabled={isRetryingCover}
+                              className="relative z-10 px-4 py-2 rounded-full bg-white/10 ring-1 ring-white/10 text-sm text-gray-200 hover:bg-white/20 disabled:opacity-50"
+                            >
+                              {isRetryingCover ? 'Designing cover…' : 'Retry cover'}
+                            </button>
+                        </div>
+                    )}
+                    {/* Skipped when the cover studio already drew the title onto the art */}
+                    {!episode.cover?.overlay && (
+                      <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent flex flex-col justify-end items-start p-6">
+                          {episodeShow && (
+                            <span className="text-xs font-bold uppercase tracking-wider text-indigo-200 mb-1">
+                              {episodeShow.name}{episode.episodeNumber ? ` · Episode ${episode.episodeNumber}` : ''}
+                            </span>
+                          )}
+                          <h2 className="text-2xl font-bold text-white text-left leading-tight">{episode.script.title}</h2>
+                      </div>
                     )}
-                    <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent flex items-end p-6">
-                        <h2 className="text-2xl font-bold text-white text-left leading-tight">{episode.script.title}</h2>
-                    </div>
                 </div>
 
                 {/* Audio Controls */}
                 <div className="w-full space-y-6">
-                    <AudioVisualizer 
-                        audioContext={audioContextRef.current} 
-                        sourceNode={sourceNodeRef.current} 
-                        isPlaying={isPlaying} 
-                    />
+                    <AudioVisualizer player={player} episode={episode} />
                     
-                    <div className="flex items-center justify-center gap-6">
-                         <button 
-                            onClick={togglePlayback}
-                            className="w-16 h-16 rounded-full bg-white text-black flex items-center justify-center hover:scale-105 transition-transform shadow-lg shadow-white/20"
-                         >
-                             {isPlaying ? (
-                                 <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
-                             ) : (
-                                 <svg className="w-8 h-8 ml-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
-                             )}
-                         </button>
-                    </div>
+                    {player && <Player player={player} />}
+
+                    {player && (
+                      <CallInPanel
+                        key={episode.id}
+                        episode={episode}
+                        player={player}
+                        audioContext={audioContextRef.current}
+                        onAsk={handleCallIn}
+                        isAnswering={isAnsweringCallIn}
+                      />
+                    )}
+
+                    <ExportMenu episode={episode} onError={setError} />
+
+                    <SharePanel episode={episode} onError={setError} />
+
+                    <CoverStudio
+                      key={episode.id}
+                      episode={episode}
+                      text={coverTextFor(episode)}
+                      visualStyle={episodeShow?.coverStyle}
+                      onApply={handleApplyCover}
+                      isApplying={isApplyingCover}
+                    />
+
+                    <MixPanel
+                      key={episode.id}
+                      episode={episode}
+                      audioContext={audioContextRef.current}
+                      assets={mixAssets}
+                      onAssetsChange={setMixAssets}
+                      onApply={handleApplyMix}
+                      onRemove={handleRemoveMix}
+                      isMixing={isMixing}
+                    />
                 </div>
             </div>
 
@@ -239,10 +1001,18 @@ const App: React.FC = () => {
                     Transcript
                 </h3>
                 <div className="flex-1 overflow-hidden relative">
-                    {renderScript()}
+                    <Transcript
+                      episode={episode}
+                      player={player}
+                      rerecordingLine={rerecordingLine}
+                      onRerecordLine={handleRerecordLine}
+                    />
                     <div className="absolute bottom-0 left-0 right-0 h-20 bg-gradient-to-t from-[#161b2e] to-transparent pointer-events-none"></div>
                 </div>
             </div>
+
+            {episode.showNotes && <ShowNotesCard notes={episode.showNotes} />}
+            <UsageCard episodeId={episode.id} />
           </div>
         )}
       </div>
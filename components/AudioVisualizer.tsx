@@ -1,85 +1,193 @@
-import React, { useEffect, useRef } from 'react';
-import { AudioVisualizerProps } from '../types';
-
-export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ audioContext, sourceNode, isPlaying }) => {
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AudioVisualizerProps, LineTiming, VisualizerMode } from '../types';
+import { usePlaybackState } from '../hooks/usePlaybackState';
+import { resolveLineTimings } from '../services/transcriptExport';
+import { lineIndexAt } from '../services/audioSegments';
+import { computePeaks } from '../services/waveform';
+import { SPEAKER_COLORS } from '../constants';
+
+const MODES: { mode: VisualizerMode; label: string }[] = [
+  { mode: 'bars', label: 'Bars' },
+  { mode: 'oscilloscope', label: 'Scope' },
+  { mode: 'speakers', label: 'Speakers' },
+  { mode: 'overview', label: 'Overview' }
+];
+
+const BAR_COUNT = 64;
+const BAR_GAP = 1;
+// Speech energy sits in the lower part of the spectrum; the top bins stay mostly empty
+const FREQUENCY_RANGE = 0.5;
+
+const drawBars = (ctx: CanvasRenderingContext2D, width: number, height: number, data: Uint8Array, fill: string | CanvasGradient) => {
+  const binsPerBar = Math.max(1, Math.floor((data.length * FREQUENCY_RANGE) / BAR_COUNT));
+  const barWidth = width / BAR_COUNT - BAR_GAP;
+  ctx.fillStyle = fill;
+  for (let bar = 0; bar < BAR_COUNT; bar++) {
+    let sum = 0;
+    for (let i = 0; i < binsPerBar; i++) sum += data[bar * binsPerBar + i];
+    const barHeight = (sum / binsPerBar / 255) * height;
+    ctx.fillRect(bar * (barWidth + BAR_GAP), height - barHeight, barWidth, barHeight);
+  }
+};
+
+const drawOscilloscope = (ctx: CanvasRenderingContext2D, width: number, height: number, data: Uint8Array) => {
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = '#a5b4fc';
+  ctx.beginPath();
+  for (let i = 0; i < data.length; i++) {
+    const x = (i / (data.length - 1)) * width;
+    const y = (data[i] / 255) * height;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+};
+
+// Whole-episode waveform, one column per CSS pixel, coloured by speaker and dimmed ahead of the playhead
+const drawOverview = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  peaks: Float32Array,
+  duration: number,
+  position: number,
+  timings: LineTiming[],
+  colorForLine: (index: number) => string
+) => {
+  const columns = peaks.length / 2;
+  const mid = height / 2;
+  const playedColumns = duration > 0 ? (position / duration) * columns : 0;
+  for (let col = 0; col < columns; col++) {
+    const time = (col / columns) * duration;
+    ctx.fillStyle = colorForLine(lineIndexAt(timings, time));
+    ctx.globalAlpha = col <= playedColumns ? 1 : 0.35;
+    const top = mid - peaks[col * 2 + 1] * mid;
+    const bottom = mid - peaks[col * 2] * mid;
+    ctx.fillRect((col / columns) * width, top, Math.max(1, width / columns), Math.max(1, bottom - top));
+  }
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect((playedColumns / columns) * width, 0, 1, height);
+};
+
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ player, episode }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationRef = useRef<number>(0);
+  const [mode, setMode] = useState<VisualizerMode>('bars');
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const playback = usePlaybackState(player, false);
+
+  const timings = useMemo(() => episode ? resolveLineTimings(episode) : [], [episode]);
+  const audioBuffer = episode?.audioBuffer ?? null;
+  const peaks = useMemo(
+    () => audioBuffer && size.width > 0 ? computePeaks(audioBuffer, Math.floor(size.width)) : null,
+    [audioBuffer, size.width]
+  );
 
+  // Keep the backing store at device resolution; drawing happens in CSS pixels
   useEffect(() => {
-    if (!audioContext || !sourceNode || !isPlaying) {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-      return;
-    }
-
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const observer = new ResizeObserver(() => {
+      const rect = canvas.getBoundingClientRect();
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(rect.width * dpr);
+      canvas.height = Math.round(rect.height * dpr);
+      setSize({ width: rect.width, height: rect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Create analyser if not exists or reconnect
-    if (!analyserRef.current) {
-        analyserRef.current = audioContext.createAnalyser();
-        analyserRef.current.fftSize = 256;
-    }
-    
-    // Connect source -> analyser -> destination (already connected in parent, but we need to tap in)
-    // IMPORTANT: The parent connects source -> destination. 
-    // We need to connect source -> analyser as a side branch.
-    // However, source nodes can only connect outwards. 
-    // Best practice: The parent should probably handle the node graph, 
-    // but for simplicity here we assume the sourceNode is accessible.
-    // NOTE: A source node can connect to multiple outputs.
-    try {
-        sourceNode.connect(analyserRef.current);
-    } catch(e) {
-        // Already connected or finished
-    }
-
-    const bufferLength = analyserRef.current.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-
-    const draw = () => {
-      animationRef.current = requestAnimationFrame(draw);
-      if(!analyserRef.current) return;
-
-      analyserRef.current.getByteFrequencyData(dataArray);
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      const barWidth = (canvas.width / bufferLength) * 2.5;
-      let barHeight;
-      let x = 0;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const dpr = canvas.width / size.width;
+    const { width, height } = size;
+    const analyser = player?.analyser ?? null;
+    const frequencyData = new Uint8Array(analyser?.frequencyBinCount ?? 0);
+    const timeData = new Uint8Array(analyser?.fftSize ?? 0);
+
+    const colorForLine = (index: number) => {
+      const speaker = index >= 0 ? episode?.script.dialogue[index]?.speaker : undefined;
+      const castIndex = Math.max(0, episode?.cast.findIndex(member => member.name === speaker) ?? 0);
+      return SPEAKER_COLORS[castIndex % SPEAKER_COLORS.length];
+    };
 
-      for (let i = 0; i < bufferLength; i++) {
-        barHeight = dataArray[i] / 2; // Scale down
+    const gradient = ctx.createLinearGradient(0, height, 0, 0);
+    gradient.addColorStop(0, '#818cf8'); // Indigo 400
+    gradient.addColorStop(1, '#c084fc'); // Purple 400
 
-        const gradient = ctx.createLinearGradient(0, canvas.height, 0, 0);
-        gradient.addColorStop(0, '#818cf8'); // Indigo 400
-        gradient.addColorStop(1, '#c084fc'); // Purple 400
+    const draw = () => {
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      const position = player?.getPosition() ?? 0;
+
+      if (mode === 'overview') {
+        if (peaks && audioBuffer) {
+          drawOverview(ctx, width, height, peaks, audioBuffer.duration, position, timings, colorForLine);
+        }
+        return;
+      }
+      if (!analyser) return;
 
-        ctx.fillStyle = gradient;
-        ctx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
+      if (mode === 'oscilloscope') {
+        analyser.getByteTimeDomainData(timeData);
+        drawOscilloscope(ctx, width, height, timeData);
+        return;
+      }
 
-        x += barWidth + 1;
+      analyser.getByteFrequencyData(frequencyData);
+      if (mode === 'speakers') {
+        const line = lineIndexAt(timings, position);
+        drawBars(ctx, width, height, frequencyData, colorForLine(line));
+        const speaker = episode?.script.dialogue[line]?.speaker;
+        if (speaker) {
+          ctx.fillStyle = '#ffffff';
+          ctx.font = '600 11px sans-serif';
+          ctx.fillText(speaker.toUpperCase(), 8, 16);
+        }
+      } else {
+        drawBars(ctx, width, height, frequencyData, gradient);
       }
     };
 
-    draw();
-
-    return () => {
-      cancelAnimationFrame(animationRef.current);
-      // We don't disconnect the sourceNode here to avoid audio glitches in parent
+    let frame = 0;
+    const loop = () => {
+      draw();
+      frame = requestAnimationFrame(loop);
     };
-  }, [audioContext, sourceNode, isPlaying]);
+    // Paused: one frame is enough, redrawn whenever the transport changes
+    if (playback.isPlaying) loop();
+    else draw();
+    return () => cancelAnimationFrame(frame);
+  }, [mode, size, player, playback, peaks, audioBuffer, timings, episode]);
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (mode !== 'overview' || !player || !audioBuffer) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    player.seek(((e.clientX - rect.left) / rect.width) * audioBuffer.duration);
+  };
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={600} 
-      height={100} 
-      className="w-full h-24 rounded-lg glass"
-    />
+    <div className="w-full space-y-2">
+      <canvas
+        ref={canvasRef}
+        onClick={handleCanvasClick}
+        className={`w-full h-24 rounded-lg glass ${mode === 'overview' ? 'cursor-pointer' : ''}`}
+      />
+      <div className="flex justify-center gap-1 text-xs">
+        {MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => setMode(option.mode)}
+            className={`px-2 py-1 rounded-md ${mode === option.mode ? 'bg-white/15 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
   );
 };
\ No newline at end of file
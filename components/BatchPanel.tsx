@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { BatchJob, BatchQueue, BatchQueueState, CastMember, EpisodeFormat, LoadingStage, StitchOptions, SynthesisMode } from '../types';
+import { MAX_BATCH_CONCURRENCY } from '../constants';
+import { BatchInput, parseBatchCsv, parseBatchList } from '../services/batchInput';
+import { exportEpisodeArchive } from '../services/batchExport';
+import { classifyError } from '../services/errors';
+import { Button } from './Button';
+
+interface BatchPanelProps {
+  queue: BatchQueue;
+  cast: CastMember[]; // Snapshotted into each job when it's queued
+  format: EpisodeFormat; // Default for rows that don't override it
+  synthesisMode: SynthesisMode;
+  factCheck: boolean;
+  stitchOptions: StitchOptions;
+  getAudioContext: () => AudioContext | null; // Creating it needs the click that queues the batch
+  onOpenEpisode: (id: string) => void;
+}
+
+const STAGE_LABELS: Partial<Record<LoadingStage, string>> = {
+  [LoadingStage.WRITING_SCRIPT]: 'Writing script',
+  [LoadingStage.CHECKING_SCRIPT]: 'Checking script',
+  [LoadingStage.SYNTHESIZING_AUDIO]: 'Cover, audio and notes'
+};
+
+const statusLabel = (job: BatchJob): string => {
+  switch (job.status) {
+    case 'running': {
+      const stage = STAGE_LABELS[job.stage] ?? 'Starting';
+      return job.progress ? `${stage} — ${job.progress.done}/${job.progress.total} lines` : stage;
+    }
+    case 'queued': return 'Queued';
+    case 'paused': return 'Paused';
+    case 'done': return 'Done';
+    case 'failed': return 'Failed';
+  }
+};
+
+const STATUS_COLORS: Record<BatchJob['status'], string> = {
+  queued: 'bg-gray-600',
+  running: 'bg-green-400 animate-pulse',
+  paused: 'bg-amber-400',
+  done: 'bg-indigo-400',
+  failed: 'bg-red-400'
+};
+
+const newJobId = (i: number) => `${Date.now()}-${i}`;
+
+const linkClass = 'text-xs text-gray-400 hover:text-white';
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  queue,
+  cast,
+  format,
+  synthesisMode,
+  factCheck,
+  stitchOptions,
+  getAudioContext,
+  onOpenEpisode
+}) => {
+  const [state, setState] = useState<BatchQueueState>(queue.getState());
+  const [listText, setListText] = useState('');
+  const [csv, setCsv] = useState<{ name: string; text: string } | null>(null);
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => queue.subscribe(setState), [queue]);
+
+  // Tick while cooling down so the countdown stays current
+  useEffect(() => {
+    if (state.cooldownUntil === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state.cooldownUntil]);
+
+  const input: BatchInput = csv ? parseBatchCsv(csv.text, format) : parseBatchList(listText, format);
+  const finished = state.jobs.filter(job => job.status === 'done');
+  const counts = state.jobs.reduce((acc, job) => ({ ...acc, [job.status]: (acc[job.status] ?? 0) + 1 }), {} as Partial<Record<BatchJob['status'], number>>);
+
+  const handleCsv = async (file: File | undefined) => {
+    if (!file) return;
+    setCsv({ name: file.name, text: await file.text() });
+  };
+
+  const handleQueue = () => {
+    const names = cast.map(member => member.name.trim());
+    if (names.some(name => !name) || new Set(names).size !== names.length) {
+      setError('Every speaker needs a unique, non-empty name.');
+      return;
+    }
+    if (cast.some(member => member.human)) {
+      setError('Batch episodes are produced unattended, so every speaker needs an AI voice. Switch human speakers back to AI first.');
+      return;
+    }
+    if (!getAudioContext()) return;
+    setError(null);
+    queue.add(input.topics.map(({ topic, format: rowFormat }, i) => ({
+      id: newJobId(i),
+      settings: { topic, synthesisMode, format: rowFormat, factCheck },
+      cast: cast.map(member => ({ ...member, name: member.name.trim() })),
+      stitchOptions: { ...stitchOptions }
+    })));
+    setListText('');
+    setCsv(null);
+  };
+
+  const handleExport = async () => {
+    const audioContext = getAudioContext();
+    if (!audioContext) return;
+    setError(null);
+    setExportProgress({ done: 0, total: finished.length });
+    try {
+      await exportEpisodeArchive(finished.map(job => job.id), audioContext, (done, total) => setExportProgress({ done, total }));
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err).message);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-bold uppercase tracking-wider text-gray-400 mr-2">Batch</span>
+        <label className="text-xs px-3 py-1 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 cursor-pointer">
+          Upload CSV
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => { handleCsv(e.target.files?.[0]); e.target.value = ''; }} />
+        </label>
+        {csv && (
+          <span className="text-xs text-gray-400">
+            {csv.name} <button type="button" onClick={() => setCsv(null)} className="ml-1 hover:text-white" aria-label="Remove CSV">&times;</button>
+          </span>
+        )}
+        <label className="ml-auto flex items-center gap-2 text-xs">
+          At once
+          <select
+            value={state.concurrency}
+            onChange={(e) => queue.setConcurrency(Number(e.target.value))}
+            className="bg-black/40 border border-white/10 rounded px-2 py-1"
+          >
+            {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {!csv && (
+        <textarea
+          value={listText}
+          onChange={(e) => setListText(e.target.value)}
+          placeholder="One topic per line, e.g. a daily briefing per team"
+          rows={4}
+          className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      )}
+      {csv && (
+        <p className="text-xs text-gray-500">
+          Columns: <code>topic</code>, plus optional <code>minutes</code>, <code>tone</code>, <code>audience</code> and <code>language</code> overriding the format above.
+        </p>
+      )}
+      {input.problems.length > 0 && (
+        <ul className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl text-amber-200 text-xs list-disc list-inside">
+          {input.problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+      <div className="flex items-center gap-3">
+        <span className="text-xs text-gray-500">Uses the cast and synthesis settings above. Episodes go straight to the library.</span>
+        <button
+          type="button"
+          onClick={handleQueue}
+          disabled={input.topics.length === 0}
+          className="ml-auto px-3 py-1 rounded-full bg-indigo-500/30 border border-indigo-400/50 text-white hover:bg-indigo-500/40 disabled:opacity-50"
+        >
+          Queue {input.topics.length} episode{input.topics.length === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      {state.jobs.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+            <span>
+              {counts.done ?? 0}/{state.jobs.length} done
+              {counts.failed ? ` · ${counts.failed} failed` : ''}
+            </span>
+            {state.cooldownUntil !== null && (
+              <span className="text-amber-300">Rate limited — resuming in {Math.max(0, Math.ceil((state.cooldownUntil - now) / 1000))} s</span>
+            )}
+            <button type="button" onClick={() => state.paused ? queue.resume() : queue.pause()} className={`ml-auto ${linkClass}`}>
+              {state.paused ? 'Resume queue' : 'Pause queue'}
+            </button>
+            <button type="button" onClick={() => queue.clearFinished()} disabled={finished.length === 0} className={`${linkClass} disabled:opacity-50`}>
+              Clear finished
+            </button>
+          </div>
+
+          <ul className="max-h-72 overflow-y-auto space-y-1">
+            {state.jobs.map(job => (
+              <li key={job.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/5">
+                <span className={`w-2 h-2 rounded-full shrink-0 ${STATUS_COLORS[job.status]}`}></span>
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate">{job.title ?? job.settings.topic}</span>
+                  <span className={`block text-xs truncate ${job.status === 'failed' ? 'text-red-300' : 'text-gray-500'}`}>
+                    {job.status === 'failed' && job.error ? job.error : statusLabel(job)}
+                  </span>
+                </span>
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <button type="button" onClick={() => queue.pause(job.id)} className={linkClass}>Pause</button>
+                )}
+                {job.status === 'paused' && (
+                  <button type="button" onClick={() => queue.resume(job.id)} className={linkClass}>Resume</button>
+                )}
+                {job.status === 'failed' && (
+                  <button type="button" onClick={() => queue.retry(job.id)} className={linkClass}>Retry</button>
+                )}
+                {job.status === 'done' && (
+                  <button type="button" onClick={() => onOpenEpisode(job.id)} className="text-xs text-indigo-300 hover:text-indigo-200">Open</button>
+                )}
+                {job.status !== 'done' && (
+                  <button type="button" onClick={() => queue.remove(job.id)} className="text-gray-500 hover:text-red-300" aria-label="Remove">&times;</button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {finished.length > 0 && (
+            <div className="flex justify-end items-center gap-3">
+              {exportProgress && <span className="text-xs text-gray-400">Encoding episode {Math.min(exportProgress.done + 1, exportProgress.total)}/{exportProgress.total}…</span>}
+              <Button variant="secondary" isLoading={exportProgress !== null} onClick={handleExport}>
+                Export {finished.length} finished as zip
+              </Button>
+            </div>
+          )}
+          {error && <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-200">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
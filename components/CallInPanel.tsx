@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioPlayer, PodcastEpisode } from '../types';
+import { MAX_CALL_IN_QUESTION_CHARS } from '../constants';
+import { usePlaybackState } from '../hooks/usePlaybackState';
+import { transcribeAudio } from '../services/podcastService';
+import { encodeWav } from '../services/wavEncoder';
+import { classifyError } from '../services/errors';
+import { Button } from './Button';
+
+interface CallInPanelProps {
+  episode: PodcastEpisode;
+  player: AudioPlayer;
+  audioContext: BaseAudioContext | null; // Decodes recordings before transcription
+  onAsk: (question: string) => void;
+  isAnswering: boolean;
+}
+
+const readAsBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const CallInPanel: React.FC<CallInPanelProps> = ({ episode, player, audioContext, onAsk, isAnswering }) => {
+  const { isPlaying } = usePlaybackState(player, false);
+  const [question, setQuestion] = useState('');
+  const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  // Release the microphone if the panel goes away mid-recording
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  // MediaRecorder output (usually WebM) is re-encoded as WAV, which every model accepts
+  const transcribe = async (recording: Blob) => {
+    if (!audioContext) return;
+    setIsTranscribing(true);
+    try {
+      const buffer = await audioContext.decodeAudioData(await recording.arrayBuffer());
+      const wav = encodeWav(buffer, { title: '', topic: '', coverImageBase64: null, chapters: [] });
+      const text = await transcribeAudio(await readAsBase64(new Blob([wav], { type: 'audio/wav' })), 'audio/wav');
+      setQuestion(text.slice(0, MAX_CALL_IN_QUESTION_CHARS));
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err).message);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        transcribe(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorder.start();
+      recorderRef.current = recorder;
+      setIsRecording(true);
+    } catch (err) {
+      console.error(err);
+      setError('Microphone access was denied. You can still type your question.');
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setIsRecording(false);
+  };
+
+  const handleAsk = () => {
+    const text = question.trim();
+    if (!text) return;
+    onAsk(text);
+    setQuestion('');
+  };
+
+  const busy = isAnswering || isTranscribing;
+
+  return (
+    <details className="w-full text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-xs font-bold uppercase tracking-wider text-gray-400">
+        Call in {episode.callIns.length > 0 && <span className="normal-case font-normal text-indigo-300">· {episode.callIns.length} answered</span>}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <p className="text-xs text-gray-400">
+          Pause (or reach the end) and ask the hosts a follow-up. Their answer is added to the end of the episode.
+        </p>
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          maxLength={MAX_CALL_IN_QUESTION_CHARS}
+          placeholder={isTranscribing ? 'Transcribing…' : 'Your question for the hosts'}
+          rows={2}
+          disabled={busy || isRecording}
+          className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        {error && <p className="text-xs text-red-300">{error}</p>}
+        <div className="flex gap-3">
+          <Button
+            variant="ghost"
+            className="!px-3 !py-2 text-sm"
+            disabled={busy || !audioContext}
+            onClick={isRecording ? stopRecording : startRecording}
+          >
+            {isRecording ? 'Stop recording' : 'Record'}
+          </Button>
+          <Button
+            variant="secondary"
+            className="flex-1 !px-3 !py-2 text-sm"
+            isLoading={isAnswering}
+            disabled={busy || isRecording || isPlaying || !question.trim()}
+            onClick={handleAsk}
+          >
+            {isPlaying ? 'Pause to call in' : 'Ask the hosts'}
+          </Button>
+        </div>
+      </div>
+    </details>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,107 @@
+import React from 'react';
+import { CastMember } from '../types';
+import { CAST_PRESETS, MAX_CAST_SIZE, PREBUILT_VOICES, createCastMember } from '../constants';
+
+interface CastEditorProps {
+  cast: CastMember[];
+  onChange: (cast: CastMember[]) => void;
+  disabled?: boolean;
+}
+
+export const CastEditor: React.FC<CastEditorProps> = ({ cast, onChange, disabled }) => {
+  const updateMember = (id: string, patch: Partial<CastMember>) => {
+    onChange(cast.map(member => member.id === id ? { ...member, ...patch } : member));
+  };
+
+  const addMember = () => {
+    const usedVoices = new Set(cast.map(m => m.voiceName));
+    const voice = PREBUILT_VOICES.find(v => !usedVoices.has(v.name)) ?? PREBUILT_VOICES[0];
+    onChange([...cast, createCastMember(`Guest ${cast.length}`, '', voice.name)]);
+  };
+
+  const removeMember = (id: string) => {
+    onChange(cast.filter(member => member.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold uppercase tracking-wider text-gray-400 mr-2">Cast</span>
+        {CAST_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange(preset.build())}
+            className="text-xs px-3 py-1 rounded-full bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-50"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {cast.map(member => (
+        <div key={member.id} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_10rem_auto_auto] gap-2 items-start">
+          <input
+            type="text"
+            value={member.name}
+            onChange={(e) => updateMember(member.id, { name: e.target.value })}
+            placeholder="Speaker name"
+            disabled={disabled}
+            className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <input
+            type="text"
+            value={member.persona}
+            onChange={(e) => updateMember(member.id, { persona: e.target.value })}
+            placeholder="Persona (e.g. 'skeptical economist, dry humour')"
+            disabled={disabled}
+            className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <select
+            value={member.voiceName}
+            onChange={(e) => updateMember(member.id, { voiceName: e.target.value })}
+            disabled={disabled}
+            className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {PREBUILT_VOICES.map(voice => (
+              <option key={voice.name} value={voice.name}>{voice.name} ({voice.style})</option>
+            ))}
+          </select>
+          <label
+            className="flex items-center gap-2 px-1 py-2 text-xs text-gray-400"
+            title="Record this speaker's lines yourself; the voice above only stands in for call-in answers"
+          >
+            <input
+              type="checkbox"
+              checked={member.human ?? false}
+              onChange={(e) => updateMember(member.id, { human: e.target.checked || undefined })}
+              disabled={disabled}
+            />
+            Human
+          </label>
+          <button
+            type="button"
+            onClick={() => removeMember(member.id)}
+            disabled={disabled || cast.length <= 1}
+            className="px-3 py-2 text-gray-400 hover:text-red-300 disabled:opacity-30"
+            aria-label={`Remove ${member.name}`}
+          >
+            &times;
+          </button>
+        </div>
+      ))}
+
+      {cast.length < MAX_CAST_SIZE && (
+        <button
+          type="button"
+          onClick={addMember}
+          disabled={disabled}
+          className="text-sm text-indigo-300 hover:text-indigo-200 disabled:opacity-50"
+        >
+          + Add speaker
+        </button>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
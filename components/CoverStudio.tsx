@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { CoverDesign, CoverFont, CoverLayout, CoverOverlay, CoverStylePreset, CoverText, PodcastEpisode } from '../types';
+import {
+  COVER_EXPORT_SIZES,
+  COVER_FONTS,
+  COVER_LAYOUTS,
+  COVER_STYLE_PRESETS,
+  DEFAULT_COVER_OVERLAY,
+  DEFAULT_COVER_PRESET,
+  MAX_COVER_VARIANTS,
+  MIN_COVER_VARIANTS
+} from '../constants';
+import { createCoverVariants } from '../services/pipeline';
+import { renderCoverDataUrl } from '../services/coverCompositor';
+import { exportCoverArt } from '../services/episodeExport';
+import { classifyError } from '../services/errors';
+import { withUsage } from '../services/usageTracker';
+import { Button } from './Button';
+
+interface CoverStudioProps {
+  episode: PodcastEpisode;
+  text: CoverText;
+  visualStyle?: string; // The show's cover style, when the episode belongs to one
+  onApply: (design: CoverDesign) => void;
+  isApplying: boolean;
+}
+
+const PREVIEW_SIZE = 480;
+
+const selectClass = 'bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-gray-200';
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const CoverStudio: React.FC<CoverStudioProps> = ({ episode, text, visualStyle, onApply, isApplying }) => {
+  const [preset, setPreset] = useState<CoverStylePreset>(DEFAULT_COVER_PRESET);
+  const [customPrompt, setCustomPrompt] = useState('');
+  const [variantCount, setVariantCount] = useState(MIN_COVER_VARIANTS);
+  const [variants, setVariants] = useState<string[]>([]);
+  // Until the user picks something, the studio starts from the episode's current art
+  const [pickedImage, setPickedImage] = useState<string | null>(null);
+  const [overlay, setOverlay] = useState<CoverOverlay | null>(episode.cover ? episode.cover.overlay : DEFAULT_COVER_OVERLAY);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [exportingSize, setExportingSize] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sourceImage = pickedImage ?? episode.cover?.sourceImage ?? episode.coverImageBase64;
+
+  // Live preview of the unapplied design
+  useEffect(() => {
+    if (!sourceImage) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    renderCoverDataUrl({ sourceImage, overlay }, text, PREVIEW_SIZE)
+      .then(url => { if (!cancelled) setPreview(url); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [sourceImage, overlay, text.title, text.showName]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const images = await withUsage(episode.id, signal => createCoverVariants(
+        { title: episode.script.title, topic: episode.script.topic, visualStyle, preset, customPrompt },
+        variantCount,
+        signal
+      ));
+      setVariants(images);
+      setPickedImage(images[0]);
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err).message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const url = await readAsDataUrl(file);
+      setVariants(prev => [url, ...prev]);
+      setPickedImage(url);
+    } catch (err) {
+      console.error(err);
+      setError(`Could not read "${file.name}" as an image.`);
+    }
+  };
+
+  const handleExport = async (size: number) => {
+    setExportingSize(size);
+    setError(null);
+    try {
+      await exportCoverArt(episode, text, size);
+    } catch (err) {
+      console.error(err);
+      setError(classifyError(err).message);
+    } finally {
+      setExportingSize(null);
+    }
+  };
+
+  const updateOverlay = (patch: Partial<CoverOverlay>) => setOverlay(prev => prev && { ...prev, ...patch });
+
+  return (
+    <details className="w-full text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-xs font-bold uppercase tracking-wider text-gray-400">
+        Cover studio
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span>Style</span>
+          <select value={preset} onChange={(e) => setPreset(e.target.value as CoverStylePreset)} className={selectClass}>
+            {Object.entries(COVER_STYLE_PRESETS).map(([key, { label }]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          value={customPrompt}
+          onChange={(e) => setCustomPrompt(e.target.value)}
+          placeholder="Custom art direction (optional), e.g. 'a lighthouse at dusk, teal and orange'"
+          rows={2}
+          className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2">
+            Variants
+            <select value={variantCount} onChange={(e) => setVariantCount(Number(e.target.value))} className={selectClass}>
+              {Array.from({ length: MAX_COVER_VARIANTS - MIN_COVER_VARIANTS + 1 }, (_, i) => MIN_COVER_VARIANTS + i).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+          <Button variant="secondary" className="flex-1 !px-3 !py-2 text-sm" isLoading={isGenerating} onClick={handleGenerate}>
+            Generate art
+          </Button>
+          <label className="text-xs text-indigo-300 hover:text-indigo-200 cursor-pointer">
+            Upload…
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              className="hidden"
+              onChange={(e) => {
+                handleUpload(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+
+        {variants.length > 0 && (
+          <div className="grid grid-cols-4 gap-2">
+            {variants.map((url, i) => (
+              <button
+                key={i}
+                type="button"
+                onClick={() => setPickedImage(url)}
+                className={`aspect-square rounded-lg overflow-hidden ring-2 ${url === sourceImage ? 'ring-indigo-400' : 'ring-transparent hover:ring-white/30'}`}
+                aria-label={`Use variant ${i + 1}`}
+              >
+                <img src={url} alt="" className="w-full h-full object-cover" />
+              </button>
+            ))}
+          </div>
+        )}
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={overlay !== null}
+            onChange={(e) => setOverlay(e.target.checked ? DEFAULT_COVER_OVERLAY : null)}
+          />
+          Draw the title on the art
+        </label>
+        {overlay && (
+          <div className="grid grid-cols-2 gap-2">
+            <select value={overlay.font} onChange={(e) => updateOverlay({ font: e.target.value as CoverFont })} className={selectClass}>
+              {Object.entries(COVER_FONTS).map(([key, { label }]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+            <select value={overlay.layout} onChange={(e) => updateOverlay({ layout: e.target.value as CoverLayout })} className={selectClass}>
+              {Object.entries(COVER_LAYOUTS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+            {text.showName && (
+              <label className="col-span-2 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={overlay.includeShowName}
+                  onChange={(e) => updateOverlay({ includeShowName: e.target.checked })}
+                />
+                Include the show name
+              </label>
+            )}
+          </div>
+        )}
+
+        {preview && <img src={preview} alt="Cover preview" className="w-full rounded-xl" />}
+        {error && <p className="text-xs text-red-300">{error}</p>}
+
+        <Button
+          variant="secondary"
+          className="w-full !px-3 !py-2 text-sm"
+          isLoading={isApplying}
+          disabled={!sourceImage}
+          onClick={() => sourceImage && onApply({ sourceImage, overlay })}
+        >
+          Use this cover
+        </Button>
+        <div className="flex gap-3">
+          {COVER_EXPORT_SIZES.map(size => (
+            <Button
+              key={size}
+              variant="ghost"
+              className="flex-1 !px-3 !py-2 text-sm"
+              isLoading={exportingSize === size}
+              disabled={exportingSize !== null || !episode.coverImageBase64}
+              onClick={() => handleExport(size)}
+            >
+              Download {size}px
+            </Button>
+          ))}
+        </div>
+      </div>
+    </details>
+  );
+};
\ No newline at end of file
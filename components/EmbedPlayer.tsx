@@ -0,0 +1,52 @@
+import React from 'react';
+import { useBundledEpisode } from '../hooks/useBundledEpisode';
+import { Player } from './Player';
+import { Transcript } from './Transcript';
+
+interface EmbedPlayerProps {
+  src: string | null;
+}
+
+const noop = () => {};
+
+// Compact player for an <iframe>: cover, transport and synced transcript from a bundle URL
+export const EmbedPlayer: React.FC<EmbedPlayerProps> = ({ src }) => {
+  const { episode, player, error, isLoading } = useBundledEpisode(src);
+
+  if (!src || error) {
+    return (
+      <div className="h-screen flex items-center justify-center p-4 bg-[#0f172a] text-sm text-red-200">
+        {error ?? 'No episode to play: the embed link needs a ?src= bundle URL.'}
+      </div>
+    );
+  }
+
+  if (isLoading || !episode) {
+    return <div className="h-screen flex items-center justify-center bg-[#0f172a] text-sm text-gray-400 animate-pulse">Loading episode…</div>;
+  }
+
+  return (
+    <div className="h-screen flex flex-col gap-3 p-4 bg-[#0f172a] text-white overflow-hidden">
+      <div className="flex items-center gap-4">
+        {episode.coverImageBase64 && (
+          <img src={episode.coverImageBase64} alt="Cover" className="w-20 h-20 rounded-xl object-cover shadow-lg" />
+        )}
+        <div className="min-w-0">
+          <h1 className="text-lg font-bold leading-tight line-clamp-2">{episode.script.title}</h1>
+          <a
+            href={`${window.location.pathname}#/listen?src=${encodeURIComponent(src)}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-indigo-300 hover:text-indigo-200"
+          >
+            Open full player
+          </a>
+        </div>
+      </div>
+      {player && <Player player={player} />}
+      <div className="flex-1 min-h-0">
+        <Transcript episode={episode} player={player} rerecordingLine={null} onRerecordLine={noop} />
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
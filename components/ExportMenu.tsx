@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { AudioExportFormat, PodcastEpisode, TranscriptExportFormat } from '../types';
+import { exportEpisodeAudio, exportTranscript } from '../services/episodeExport';
+import { Button } from './Button';
+
+interface ExportMenuProps {
+  episode: PodcastEpisode;
+  onError: (message: string) => void;
+}
+
+const TRANSCRIPT_OPTIONS: { format: TranscriptExportFormat; label: string }[] = [
+  { format: 'txt', label: 'Text' },
+  { format: 'json', label: 'JSON' },
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'WebVTT' }
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ episode, onError }) => {
+  const [exporting, setExporting] = useState<AudioExportFormat | null>(null);
+  const [transcriptFormat, setTranscriptFormat] = useState<TranscriptExportFormat>('txt');
+
+  const handleAudioExport = async (format: AudioExportFormat) => {
+    setExporting(format);
+    try {
+      await exportEpisodeAudio(episode, format);
+    } catch (err: any) {
+      console.error(err);
+      onError(err.message || `Could not export ${format.toUpperCase()}.`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="w-full space-y-3 text-sm">
+      <div className="flex gap-3">
+        <Button
+          variant="secondary"
+          className="flex-1 !px-3 !py-2 text-sm"
+          isLoading={exporting === 'wav'}
+          disabled={exporting !== null || !episode.audioBuffer}
+          onClick={() => handleAudioExport('wav')}
+        >
+          Download WAV
+        </Button>
+        <Button
+          variant="secondary"
+          className="flex-1 !px-3 !py-2 text-sm"
+          isLoading={exporting === 'mp3'}
+          disabled={exporting !== null || !episode.audioBuffer}
+          onClick={() => handleAudioExport('mp3')}
+        >
+          Download MP3
+        </Button>
+      </div>
+      <div className="flex gap-3">
+        <select
+          value={transcriptFormat}
+          onChange={(e) => setTranscriptFormat(e.target.value as TranscriptExportFormat)}
+          className="flex-1 bg-black/40 border border-white/10 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {TRANSCRIPT_OPTIONS.map(option => (
+            <option key={option.format} value={option.format}>{option.label}</option>
+          ))}
+        </select>
+        <Button
+          variant="ghost"
+          className="flex-1 !px-3 !py-2 text-sm"
+          onClick={() => exportTranscript(episode, transcriptFormat)}
+        >
+          Download transcript
+        </Button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,136 @@
+import React from 'react';
+import { AudienceLevel, EpisodeFormat, TonePreset } from '../types';
+import {
+  AUDIENCE_LEVELS,
+  DURATION_PRESETS,
+  EPISODE_LANGUAGES,
+  MAX_EPISODE_MINUTES,
+  MIN_EPISODE_MINUTES,
+  SINGLE_PASS_MAX_MINUTES,
+  TONE_PRESETS
+} from '../constants';
+import { targetLineCount } from '../services/scriptPrompts';
+
+interface FormatSettingsProps {
+  format: EpisodeFormat;
+  onChange: (format: EpisodeFormat) => void;
+  onLanguageChange: (language: string) => void; // Also resets cast voices to the language defaults
+  disabled?: boolean;
+}
+
+const selectClass = "bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const FormatSettings: React.FC<FormatSettingsProps> = ({ format, onChange, onLanguageChange, disabled }) => {
+  const setStructure = (patch: Partial<EpisodeFormat['structure']>) =>
+    onChange({ ...format, structure: { ...format.structure, ...patch } });
+
+  return (
+    <div className="space-y-4 text-sm text-gray-300">
+      <span className="text-xs font-bold uppercase tracking-wider text-gray-400">Format</span>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {DURATION_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ ...format, targetMinutes: preset.minutes })}
+            className={`text-xs px-3 py-1 rounded-full border disabled:opacity-50 ${
+              format.targetMinutes === preset.minutes ? 'bg-indigo-500/30 border-indigo-400/50 text-white' : 'bg-white/5 border-white/10 hover:bg-white/10'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <input
+          type="range"
+          min={MIN_EPISODE_MINUTES}
+          max={MAX_EPISODE_MINUTES}
+          value={format.targetMinutes}
+          onChange={(e) => onChange({ ...format, targetMinutes: Number(e.target.value) })}
+          disabled={disabled}
+          className="flex-1 min-w-[8rem]"
+        />
+        <span className="tabular-nums text-gray-400">
+          ~{format.targetMinutes} min · ~{targetLineCount(format.targetMinutes)} lines
+          {format.targetMinutes > SINGLE_PASS_MAX_MINUTES && ' · written in sections'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1">
+          Tone
+          <select
+            value={format.tone}
+            onChange={(e) => onChange({ ...format, tone: e.target.value as TonePreset })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {(Object.keys(TONE_PRESETS) as TonePreset[]).map(tone => (
+              <option key={tone} value={tone}>{TONE_PRESETS[tone].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Audience
+          <select
+            value={format.audience}
+            onChange={(e) => onChange({ ...format, audience: e.target.value as AudienceLevel })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {(Object.keys(AUDIENCE_LEVELS) as AudienceLevel[]).map(level => (
+              <option key={level} value={level}>{AUDIENCE_LEVELS[level].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Language
+          <select
+            value={format.language}
+            onChange={(e) => onLanguageChange(e.target.value)}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {EPISODE_LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={format.structure.intro} onChange={(e) => setStructure({ intro: e.target.checked })} disabled={disabled} />
+          Intro
+        </label>
+        <label className="flex items-center gap-2">
+          Sections
+          <select
+            value={format.structure.sectionCount}
+            onChange={(e) => setStructure({ sectionCount: Number(e.target.value) })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            <option value={0}>Auto</option>
+            {[1, 2, 3, 4, 5, 6, 8].map(count => <option key={count} value={count}>{count}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={format.structure.outro} onChange={(e) => setStructure({ outro: e.target.checked })} disabled={disabled} />
+          Outro
+        </label>
+        {format.structure.outro && (
+          <input
+            type="text"
+            value={format.structure.callToAction}
+            onChange={(e) => setStructure({ callToAction: e.target.value })}
+            placeholder="Call to action (e.g. 'Subscribe for next week's episode')"
+            disabled={disabled}
+            className={`flex-1 min-w-[14rem] ${selectClass}`}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
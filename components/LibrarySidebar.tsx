@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { LibraryEntry, Show, StorageUsage } from '../types';
+import { deleteEpisode, getStorageUsage, listEpisodes, listShows, renameEpisode } from '../services/episodeLibrary';
+import { showEpisodes } from '../services/series';
+
+interface LibrarySidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenEpisode: (id: string) => void;
+  onRenamed: (id: string, title: string) => void;
+  activeEpisodeId: string | null;
+  refreshKey: number; // Bump to reload after the library changed elsewhere
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
+  isOpen,
+  onClose,
+  onOpenEpisode,
+  onRenamed,
+  activeEpisodeId,
+  refreshKey
+}) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [shows, setShows] = useState<Show[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = async () => {
+    try {
+      const [list, showList, storage] = await Promise.all([listEpisodes(), listShows(), getStorageUsage()]);
+      setEntries(list);
+      setShows(showList);
+      setUsage(storage);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not read the episode library.');
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) reload();
+  }, [isOpen, refreshKey]);
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.title}" from the library?`)) return;
+    await deleteEpisode(entry.id);
+    reload();
+  };
+
+  const commitRename = async (id: string) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+    await renameEpisode(id, title);
+    onRenamed(id, title);
+    reload();
+  };
+
+  const needle = query.trim().toLowerCase();
+  const visible = needle
+    ? entries.filter(entry => entry.title.toLowerCase().includes(needle) || entry.topic.toLowerCase().includes(needle))
+    : entries;
+
+  // Episodes of each show in running order, then everything that belongs to no (remaining) show
+  const groups = shows
+    .map(show => ({ show, episodes: showEpisodes(show.id, visible) }))
+    .filter(group => group.episodes.length > 0);
+  const grouped = new Set(groups.flatMap(group => group.episodes.map(entry => entry.id)));
+  const standalone = visible.filter(entry => !grouped.has(entry.id));
+
+  if (!isOpen) return null;
+
+  const renderEntry = (entry: LibraryEntry) => (
+    <li
+      key={entry.id}
+      className={`flex gap-3 items-center p-2 rounded-xl border ${entry.id === activeEpisodeId ? 'border-indigo-500/50 bg-indigo-500/10' : 'border-white/5 bg-white/5'}`}
+    >
+      {entry.coverImageBase64 ? (
+        <img src={entry.coverImageBase64} alt="" className="w-12 h-12 rounded-lg object-cover shrink-0" />
+      ) : (
+        <div className="w-12 h-12 rounded-lg bg-gray-800 shrink-0"></div>
+      )}
+      <div className="flex-1 min-w-0">
+        {editingId === entry.id ? (
+          <input
+            autoFocus
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onBlur={() => commitRename(entry.id)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename(entry.id);
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-sm"
+          />
+        ) : (
+          <button onClick={() => onOpenEpisode(entry.id)} className="block w-full text-left text-sm font-semibold text-gray-100 truncate hover:text-indigo-300">
+            {entry.episodeNumber ? `Ep ${entry.episodeNumber} · ` : ''}{entry.title}
+          </button>
+        )}
+        <div className="text-xs text-gray-500 truncate">
+          {new Date(entry.createdAt).toLocaleDateString()} · {formatBytes(entry.audioBytes)}
+        </div>
+      </div>
+      <div className="flex flex-col text-xs text-gray-400">
+        <button onClick={() => { setEditingId(entry.id); setDraftTitle(entry.title); }} className="hover:text-white">Rename</button>
+        <button onClick={() => handleDelete(entry)} className="hover:text-red-300">Delete</button>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose}></div>
+      <aside className="relative w-full max-w-sm h-full bg-[#0f172a] border-l border-white/10 p-6 flex flex-col gap-4 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-200">Library</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close library">&times;</button>
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search episodes"
+          className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+
+        {usage && (
+          <div className="text-xs text-gray-400 space-y-1">
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+              <div className="h-full bg-indigo-500" style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }}></div>
+            </div>
+            <span>{formatBytes(usage.usage)} of {formatBytes(usage.quota)} used</span>
+          </div>
+        )}
+
+        {error && <div className="text-xs text-red-300">{error}</div>}
+
+        <ul className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {visible.length === 0 && (
+            <li className="text-sm text-gray-500">{entries.length === 0 ? 'No saved episodes yet.' : 'No episodes match your search.'}</li>
+          )}
+          {groups.map(({ show, episodes }) => (
+            <li key={show.id} className="space-y-2">
+              <div className="text-xs font-bold uppercase tracking-wider text-indigo-300 pt-2">{show.name}</div>
+              <ul className="space-y-2">{episodes.map(renderEntry)}</ul>
+            </li>
+          ))}
+          {groups.length > 0 && standalone.length > 0 && (
+            <li className="text-xs font-bold uppercase tracking-wider text-gray-400 pt-2">One-off episodes</li>
+          )}
+          {standalone.map(renderEntry)}
+        </ul>
+      </aside>
+    </div>
+  );
+};
\ No newline at end of file
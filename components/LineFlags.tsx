@@ -0,0 +1,25 @@
+import React from 'react';
+import { ScriptFlag } from '../types';
+
+const FLAG_LABELS: Record<ScriptFlag['kind'], string> = {
+  fact: 'Check fact',
+  policy: 'Content policy'
+};
+
+// Review notes on a dialogue line, shown in the script editor and the transcript
+export const LineFlags: React.FC<{ flags?: ScriptFlag[] }> = ({ flags }) => {
+  if (!flags || flags.length === 0) return null;
+  return (
+    <span className="mt-2 flex flex-col gap-1">
+      {flags.map((flag, i) => (
+        <span
+          key={i}
+          className={`block text-xs px-2 py-1 rounded ring-1 ${flag.kind === 'policy' ? 'bg-red-500/10 ring-red-400/30 text-red-200' : 'bg-amber-500/10 ring-amber-400/30 text-amber-200'}`}
+        >
+          <span className="font-bold uppercase tracking-wider text-[10px] mr-2">{FLAG_LABELS[flag.kind]}</span>
+          {flag.note}
+        </span>
+      ))}
+    </span>
+  );
+};
\ No newline at end of file
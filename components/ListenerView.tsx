@@ -0,0 +1,79 @@
+import React from 'react';
+import { useBundledEpisode } from '../hooks/useBundledEpisode';
+import { AudioVisualizer } from './AudioVisualizer';
+import { Player } from './Player';
+import { Transcript } from './Transcript';
+import { ShowNotesCard } from './ShowNotesCard';
+
+interface ListenerViewProps {
+  src: string | null; // Bundle URL; without one the listener opens a file instead
+}
+
+const noop = () => {};
+
+// Read-only playback of an episode bundle: no generation, no editing, no API key
+export const ListenerView: React.FC<ListenerViewProps> = ({ src }) => {
+  const { episode, player, error, isLoading, openFile } = useBundledEpisode(src);
+
+  return (
+    <div className="min-h-screen bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-indigo-900 via-[#0f172a] to-black text-white p-4 md:p-8">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <header className="flex items-center justify-between gap-4">
+          <span className="font-bold tracking-wider text-sm text-indigo-300">GEMINI CAST</span>
+          <label className="px-4 py-2 rounded-full bg-white/5 ring-1 ring-white/10 text-sm text-gray-300 hover:bg-white/10 cursor-pointer">
+            Open episode file
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) openFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </header>
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-200 text-sm">{error}</div>
+        )}
+
+        {isLoading && <div className="text-center text-sm text-gray-400 animate-pulse">Loading episode…</div>}
+
+        {!episode && !isLoading && !error && (
+          <div className="glass rounded-3xl p-10 text-center text-gray-400 text-sm">
+            Open an episode file (<code>.geminicast.json</code>) to listen to it here.
+          </div>
+        )}
+
+        {episode && (
+          <div className="grid md:grid-cols-2 gap-8">
+            <div className="glass rounded-3xl p-6 flex flex-col items-center">
+              <div className="w-full aspect-square rounded-2xl overflow-hidden mb-4 shadow-2xl bg-gray-800">
+                {episode.coverImageBase64 && (
+                  <img src={episode.coverImageBase64} alt="Cover" className="w-full h-full object-cover" />
+                )}
+              </div>
+              <h1 className="w-full text-2xl font-bold text-white leading-tight mb-6">{episode.script.title}</h1>
+              <div className="w-full space-y-6">
+                <AudioVisualizer player={player} episode={episode} />
+                {player && <Player player={player} />}
+              </div>
+            </div>
+
+            <div className="glass rounded-3xl p-6 flex flex-col h-[600px]">
+              <h3 className="text-xl font-bold mb-4 text-gray-200">Transcript</h3>
+              <div className="flex-1 overflow-hidden relative">
+                <Transcript episode={episode} player={player} rerecordingLine={null} onRerecordLine={noop} />
+                <div className="absolute bottom-0 left-0 right-0 h-20 bg-gradient-to-t from-[#161b2e] to-transparent pointer-events-none"></div>
+              </div>
+            </div>
+
+            {episode.showNotes && <ShowNotesCard notes={episode.showNotes} />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
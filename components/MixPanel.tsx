@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { MixAssets, MixSettings, PodcastEpisode } from '../types';
+import { DEFAULT_MIX_SETTINGS } from '../constants';
+import { Button } from './Button';
+
+interface MixPanelProps {
+  episode: PodcastEpisode;
+  audioContext: BaseAudioContext | null;
+  assets: MixAssets;
+  onAssetsChange: (assets: MixAssets) => void;
+  onApply: (settings: MixSettings) => void;
+  onRemove: () => void;
+  isMixing: boolean;
+}
+
+const ASSET_SLOTS: { key: keyof MixAssets; label: string }[] = [
+  { key: 'intro', label: 'Intro stinger' },
+  { key: 'bed', label: 'Music bed (loops)' },
+  { key: 'outro', label: 'Outro stinger' }
+];
+
+const SLIDERS: { key: keyof MixSettings; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'fadeInSeconds', label: 'Fade in', min: 0, max: 10, step: 0.5, unit: 's' },
+  { key: 'fadeOutSeconds', label: 'Fade out', min: 0, max: 10, step: 0.5, unit: 's' },
+  { key: 'bedVolumeDb', label: 'Bed level', min: -40, max: 0, step: 1, unit: 'dB' },
+  { key: 'duckingDb', label: 'Ducking', min: -30, max: 0, step: 1, unit: 'dB' },
+  { key: 'targetLufs', label: 'Loudness', min: -24, max: -12, step: 1, unit: 'LUFS' }
+];
+
+export const MixPanel: React.FC<MixPanelProps> = ({
+  episode,
+  audioContext,
+  assets,
+  onAssetsChange,
+  onApply,
+  onRemove,
+  isMixing
+}) => {
+  const [settings, setSettings] = useState<MixSettings>(episode.mix?.settings ?? DEFAULT_MIX_SETTINGS);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (key: keyof MixAssets, file: File | undefined) => {
+    if (!file || !audioContext) return;
+    setFileError(null);
+    try {
+      const buffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+      onAssetsChange({ ...assets, [key]: { name: file.name, buffer } });
+    } catch (err) {
+      console.error(err);
+      setFileError(`Could not read "${file.name}" as audio.`);
+    }
+  };
+
+  // Stored episodes remember which files were used, but not the audio itself
+  const missingAssets = episode.mix
+    ? ASSET_SLOTS.filter(slot => episode.mix!.assetNames[slot.key] && !assets[slot.key])
+    : [];
+
+  return (
+    <details className="w-full text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-xs font-bold uppercase tracking-wider text-gray-400">
+        Post-production {episode.mix && <span className="normal-case font-normal text-indigo-300">· mixed</span>}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        {ASSET_SLOTS.map(slot => (
+          <div key={slot.key} className="flex items-center justify-between gap-2">
+            <span>{slot.label}</span>
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="truncate text-xs text-gray-400">{assets[slot.key]?.name ?? 'None'}</span>
+              {assets[slot.key] ? (
+                <button
+                  onClick={() => onAssetsChange({ ...assets, [slot.key]: null })}
+                  className="text-xs text-gray-400 hover:text-white"
+                >
+                  Remove
+                </button>
+              ) : (
+                <label className="text-xs text-indigo-300 hover:text-indigo-200 cursor-pointer">
+                  Choose…
+                  <input
+                    type="file"
+                    accept="audio/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleFile(slot.key, e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {SLIDERS.map(slider => (
+          <label key={slider.key} className="flex items-center justify-between gap-2">
+            {slider.label}
+            <span className="flex items-center gap-2">
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={settings[slider.key]}
+                onChange={(e) => setSettings({ ...settings, [slider.key]: Number(e.target.value) })}
+                className="w-28"
+              />
+              <span className="w-16 text-right tabular-nums text-gray-400">{settings[slider.key]} {slider.unit}</span>
+            </span>
+          </label>
+        ))}
+
+        {missingAssets.length > 0 && (
+          <p className="text-xs text-amber-200/80">
+            Re-add {missingAssets.map(slot => `"${episode.mix!.assetNames[slot.key]}"`).join(', ')} to keep them in a new mix.
+          </p>
+        )}
+        {fileError && <p className="text-xs text-red-300">{fileError}</p>}
+
+        <div className="flex gap-3">
+          <Button
+            variant="secondary"
+            className="flex-1 !px-3 !py-2 text-sm"
+            isLoading={isMixing}
+            disabled={!episode.audioBuffer}
+            onClick={() => onApply(settings)}
+          >
+            {episode.mix ? 'Remix' : 'Apply mix'}
+          </Button>
+          {episode.mix && (
+            <Button variant="ghost" className="!px-3 !py-2 text-sm" disabled={isMixing} onClick={onRemove}>
+              Use dry track
+            </Button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+};
\ No newline at end of file
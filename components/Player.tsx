@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { AudioPlayer } from '../types';
+import { usePlaybackState } from '../hooks/usePlaybackState';
+import { PLAYBACK_RATES, SKIP_SECONDS, VOLUME_STEP } from '../constants';
+
+interface PlayerProps {
+  player: AudioPlayer;
+}
+
+const formatClock = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Shortcuts stay out of the way while the user is typing or using a form control
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const Player: React.FC<PlayerProps> = ({ player }) => {
+  const { isPlaying, position, duration, rate, volume } = usePlaybackState(player);
+  // Position under the thumb while scrubbing; the seek happens on release
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isEditableTarget(e.target)) return;
+      const { volume: currentVolume } = player.getState();
+      switch (e.key) {
+        case ' ':
+          // A focused button already handles space itself
+          if (e.target instanceof HTMLButtonElement) return;
+          player.toggle();
+          break;
+        case 'ArrowLeft':
+          player.skip(-SKIP_SECONDS);
+          break;
+        case 'ArrowRight':
+          player.skip(SKIP_SECONDS);
+          break;
+        case 'ArrowUp':
+          player.setVolume(currentVolume + VOLUME_STEP);
+          break;
+        case 'ArrowDown':
+          player.setVolume(currentVolume - VOLUME_STEP);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [player]);
+
+  const commitScrub = () => {
+    if (scrubPosition === null) return;
+    player.seek(scrubPosition);
+    setScrubPosition(null);
+  };
+
+  const shownPosition = scrubPosition ?? position;
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="space-y-1">
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.1}
+          value={shownPosition}
+          onChange={(e) => setScrubPosition(Number(e.target.value))}
+          onPointerUp={commitScrub}
+          onKeyUp={commitScrub}
+          onBlur={commitScrub}
+          disabled={!duration}
+          aria-label="Seek"
+          className="w-full accent-indigo-400"
+        />
+        <div className="flex justify-between text-xs text-gray-400 tabular-nums">
+          <span>{formatClock(shownPosition)}</span>
+          <span>-{formatClock(Math.max(0, duration - shownPosition))} / {formatClock(duration)}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-6">
+        <button
+          onClick={() => player.skip(-SKIP_SECONDS)}
+          className="text-sm text-gray-300 hover:text-white"
+          aria-label={`Back ${SKIP_SECONDS} seconds`}
+          title={`Back ${SKIP_SECONDS}s (←)`}
+        >
+          −{SKIP_SECONDS}s
+        </button>
+        <button
+          onClick={() => player.toggle()}
+          className="w-16 h-16 rounded-full bg-white text-black flex items-center justify-center hover:scale-105 transition-transform shadow-lg shadow-white/20"
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+          title="Play / pause (space)"
+        >
+          {isPlaying ? (
+            <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
+          ) : (
+            <svg className="w-8 h-8 ml-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+          )}
+        </button>
+        <button
+          onClick={() => player.skip(SKIP_SECONDS)}
+          className="text-sm text-gray-300 hover:text-white"
+          aria-label={`Forward ${SKIP_SECONDS} seconds`}
+          title={`Forward ${SKIP_SECONDS}s (→)`}
+        >
+          +{SKIP_SECONDS}s
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 text-xs text-gray-400">
+        <label className="flex items-center gap-2">
+          Speed
+          <select
+            value={rate}
+            onChange={(e) => player.setRate(Number(e.target.value))}
+            className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-gray-200"
+          >
+            {PLAYBACK_RATES.map(option => (
+              <option key={option} value={option}>{option}×</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2" title="Volume (↑/↓)">
+          Volume
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={volume}
+            onChange={(e) => player.setVolume(Number(e.target.value))}
+            className="w-24 accent-indigo-400"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { PronunciationEntry } from '../types';
+import { getLexicon, setLexicon } from '../services/pronunciationLexicon';
+import { Button } from './Button';
+
+interface PronunciationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const emptyEntry = (): PronunciationEntry => ({ term: '', spoken: '' });
+
+export const PronunciationDialog: React.FC<PronunciationDialogProps> = ({ isOpen, onClose }) => {
+  const [entries, setEntries] = useState<PronunciationEntry[]>([]);
+
+  // Start from the saved lexicon each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const saved = getLexicon();
+    setEntries(saved.length > 0 ? saved : [emptyEntry()]);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateEntry = (index: number, patch: Partial<PronunciationEntry>) =>
+    setEntries(entries.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+
+  const handleSave = () => {
+    setLexicon(entries);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose}></div>
+      <div className="relative w-full max-w-lg max-h-full overflow-y-auto bg-[#0f172a] border border-white/10 rounded-3xl p-6 space-y-4 shadow-2xl text-sm text-gray-300">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-200">Pronunciation</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close">&times;</button>
+        </div>
+
+        <p className="text-xs text-gray-400">
+          Tell the voices how to say product names, acronyms and foreign terms. Terms match whole words and are case-sensitive; the spoken form is only used for audio, never in the transcript.
+        </p>
+
+        <div className="space-y-2">
+          {entries.map((entry, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                value={entry.term}
+                onChange={(e) => updateEntry(i, { term: e.target.value })}
+                placeholder="Term, e.g. GIF"
+                className={inputClass}
+              />
+              <span className="text-gray-500">&rarr;</span>
+              <input
+                value={entry.spoken}
+                onChange={(e) => updateEntry(i, { spoken: e.target.value })}
+                placeholder="Say it as, e.g. jif"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => setEntries(entries.filter((_, j) => j !== i))}
+                className="text-gray-400 hover:text-red-300 text-lg leading-none"
+                aria-label="Remove"
+              >
+                &times;
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => setEntries([...entries, emptyEntry()])} className="text-xs text-indigo-300 hover:text-indigo-200">
+            + Add a term
+          </button>
+          <Button className="ml-auto" onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
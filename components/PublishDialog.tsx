@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { FeedSettings, LibraryEntry, Show } from '../types';
+import { PODCAST_CATEGORIES } from '../constants';
+import { listEpisodes } from '../services/episodeLibrary';
+import { showEpisodes } from '../services/series';
+import { validateFeedSettings } from '../services/rssFeed';
+import { exportFeedBundle } from '../services/feedExport';
+import { Button } from './Button';
+
+interface PublishDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shows: Show[];
+  onSaveShow: (show: Show) => void; // Feed settings are remembered on the show
+  getAudioContext: () => BaseAudioContext | null;
+  refreshKey: number;
+}
+
+// Select value for a feed of every episode in the library
+const ALL_EPISODES = '';
+
+const inputClass = 'w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const defaultSettings = (show: Show | undefined): FeedSettings => show?.feed ?? {
+  title: show?.name ?? '',
+  description: show?.styleGuide ?? '',
+  baseUrl: '',
+  author: '',
+  ownerEmail: '',
+  category: 'Technology',
+  explicit: false,
+  language: show?.format.language ?? 'en'
+};
+
+export const PublishDialog: React.FC<PublishDialogProps> = ({ isOpen, onClose, shows, onSaveShow, getAudioContext, refreshKey }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [sourceId, setSourceId] = useState(ALL_EPISODES);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [settings, setSettings] = useState<FeedSettings>(defaultSettings(undefined));
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const show = shows.find(s => s.id === sourceId);
+  const candidates = show ? showEpisodes(show.id, entries) : entries;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listEpisodes()
+      .then(setEntries)
+      .catch(err => {
+        console.error(err);
+        setError(err.message || 'Could not read the episode library.');
+      });
+  }, [isOpen, refreshKey]);
+
+  // Switching the feed's source loads that show's settings and selects all of its episodes
+  useEffect(() => {
+    setSettings(defaultSettings(show));
+  }, [sourceId]);
+
+  useEffect(() => {
+    setSelected(new Set(candidates.map(entry => entry.id)));
+  }, [sourceId, entries]);
+
+  const problems = validateFeedSettings(settings);
+  const chosen = candidates.filter(entry => selected.has(entry.id));
+
+  const update = (patch: Partial<FeedSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const handleExport = async () => {
+    const audioContext = getAudioContext();
+    if (!audioContext) return;
+    setError(null);
+    setProgress({ done: 0, total: chosen.length });
+    try {
+      await exportFeedBundle(
+        settings,
+        chosen.map(entry => entry.id),
+        show?.name ?? null,
+        audioContext,
+        (done, total) => setProgress({ done, total })
+      );
+      if (show) onSaveShow({ ...show, feed: settings });
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not build the feed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60" onClick={progress ? undefined : onClose}></div>
+      <div className="relative w-full max-w-2xl max-h-full overflow-y-auto bg-[#0f172a] border border-white/10 rounded-3xl p-6 space-y-4 shadow-2xl text-sm text-gray-300">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-200">Publish feed</h3>
+          <button onClick={onClose} disabled={progress !== null} className="text-gray-400 hover:text-white text-2xl leading-none disabled:opacity-30" aria-label="Close">&times;</button>
+        </div>
+        <p className="text-xs text-gray-400">
+          Builds a podcast RSS feed with the audio, transcripts and artwork as a zip. Upload its contents to the base URL and submit the feed URL to podcast apps.
+        </p>
+
+        <label className="block space-y-1">
+          <span className="text-xs font-bold uppercase tracking-wider text-gray-400">Episodes from</span>
+          <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} className={inputClass}>
+            <option value={ALL_EPISODES}>The whole library</option>
+            {shows.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </label>
+
+        <ul className="max-h-40 overflow-y-auto space-y-1">
+          {candidates.length === 0 && <li className="text-gray-500">No episodes to publish yet.</li>}
+          {candidates.map(entry => (
+            <li key={entry.id}>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={selected.has(entry.id)} onChange={() => toggle(entry.id)} />
+                <span className="truncate">{entry.episodeNumber ? `Ep ${entry.episodeNumber} · ` : ''}{entry.title}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input value={settings.title} onChange={(e) => update({ title: e.target.value })} placeholder="Podcast title" className={inputClass} />
+          <input value={settings.author} onChange={(e) => update({ author: e.target.value })} placeholder="Author" className={inputClass} />
+          <input
+            type="url"
+            value={settings.baseUrl}
+            onChange={(e) => update({ baseUrl: e.target.value })}
+            placeholder="Base URL, e.g. https://example.com/podcast/"
+            className={`${inputClass} md:col-span-2`}
+          />
+          <textarea
+            value={settings.description}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="Podcast description"
+            rows={2}
+            className={`${inputClass} md:col-span-2`}
+          />
+          <input
+            type="email"
+            value={settings.ownerEmail}
+            onChange={(e) => update({ ownerEmail: e.target.value })}
+            placeholder="Owner email (optional)"
+            className={inputClass}
+          />
+          <select value={settings.category} onChange={(e) => update({ category: e.target.value })} className={inputClass}>
+            {PODCAST_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+          <input value={settings.language} onChange={(e) => update({ language: e.target.value })} placeholder="Language code, e.g. en" className={inputClass} />
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.explicit} onChange={(e) => update({ explicit: e.target.checked })} />
+            Explicit content
+          </label>
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl text-amber-200 list-disc list-inside">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
+        {error && <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-200">{error}</div>}
+
+        <div className="flex justify-end items-center gap-3">
+          {progress && <span className="text-xs text-gray-400">Encoding episode {Math.min(progress.done + 1, progress.total)}/{progress.total}…</span>}
+          <Button
+            isLoading={progress !== null}
+            disabled={problems.length > 0 || chosen.length === 0}
+            onClick={handleExport}
+          >
+            Download feed bundle
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
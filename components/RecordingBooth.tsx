@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CastMember, PodcastScript, RecordedTake } from '../types';
+import { createTake, humanLineIndices } from '../services/recordedLines';
+import { stripMarkup } from '../services/speechMarkup';
+import { Button } from './Button';
+
+interface RecordingBoothProps {
+  script: PodcastScript;
+  cast: CastMember[];
+  audioContext: AudioContext | null; // Decodes and previews takes
+  onFinish: (takes: (RecordedTake | null)[]) => void; // Parallel to the dialogue
+  onDiscard: () => void;
+}
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+/**
+ * Teleprompter for human speakers: steps through their lines, recording one take per line.
+ * Takes can be retaken, trimmed and previewed before the episode is produced.
+ */
+export const RecordingBooth: React.FC<RecordingBoothProps> = ({ script, cast, audioContext, onFinish, onDiscard }) => {
+  const lines = humanLineIndices(script.dialogue, cast);
+  const [takes, setTakes] = useState<(RecordedTake | null)[]>(() => script.dialogue.map(() => null));
+  const [position, setPosition] = useState(0);
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const previewRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const stopPreview = () => {
+    try { previewRef.current?.stop(); } catch (e) {}
+    previewRef.current = null;
+  };
+
+  // Release the microphone and any preview if the booth goes away mid-take
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+    stopPreview();
+  }, []);
+
+  const lineIndex = lines[position];
+  const line = script.dialogue[lineIndex];
+  const take = takes[lineIndex];
+  const recordedCount = lines.filter(i => takes[i]).length;
+
+  const setTake = (index: number, next: RecordedTake | null) =>
+    setTakes(prev => prev.map((t, i) => i === index ? next : t));
+
+  const startRecording = async () => {
+    if (!audioContext) return;
+    setError(null);
+    stopPreview();
+    const target = lineIndex;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        try {
+          const blob = new Blob(chunks, { type: recorder.mimeType });
+          setTake(target, createTake(await audioContext.decodeAudioData(await blob.arrayBuffer())));
+        } catch (err) {
+          console.error(err);
+          setError('That take could not be read. Try recording it again.');
+        }
+      };
+      recorder.start();
+      recorderRef.current = recorder;
+      setIsRecording(true);
+    } catch (err) {
+      console.error(err);
+      setError('Microphone access was denied. Allow it in the browser to record your lines.');
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setIsRecording(false);
+  };
+
+  const playTake = () => {
+    if (!audioContext || !take) return;
+    stopPreview();
+    if (audioContext.state === 'suspended') audioContext.resume();
+    const source = audioContext.createBufferSource();
+    source.buffer = take.audio;
+    source.connect(audioContext.destination);
+    source.start(0, take.trimStart, Math.max(0, take.trimEnd - take.trimStart));
+    previewRef.current = source;
+  };
+
+  const move = (delta: number) => {
+    stopPreview();
+    setPosition(p => Math.min(lines.length - 1, Math.max(0, p + delta)));
+  };
+
+  const previous = lineIndex > 0 ? script.dialogue[lineIndex - 1] : null;
+  const next = lineIndex < script.dialogue.length - 1 ? script.dialogue[lineIndex + 1] : null;
+
+  return (
+    <div className="glass rounded-3xl p-6 shadow-2xl mb-8 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-xl font-bold text-gray-200">Record your lines</h3>
+        <span className="text-xs text-gray-400">{recordedCount}/{lines.length} recorded</span>
+      </div>
+
+      {line && (
+        <>
+          <div className="space-y-3">
+            {previous && (
+              <p className="text-sm text-gray-500">
+                <span className="font-bold uppercase text-xs mr-2">{previous.speaker}</span>{stripMarkup(previous.text)}
+              </p>
+            )}
+            <div className="p-5 rounded-2xl bg-indigo-500/10 border border-indigo-500/30">
+              <span className="block text-xs font-bold uppercase tracking-wider text-indigo-300 mb-2">
+                {line.speaker} · line {lineIndex + 1}{line.style ? ` · ${line.style}` : ''}
+              </span>
+              <p className="text-2xl leading-relaxed text-white">{stripMarkup(line.text)}</p>
+            </div>
+            {next && (
+              <p className="text-sm text-gray-500">
+                <span className="font-bold uppercase text-xs mr-2">{next.speaker}</span>{stripMarkup(next.text)}
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Button
+              variant={isRecording ? 'primary' : 'secondary'}
+              className="!px-4 !py-2 text-sm"
+              disabled={!audioContext}
+              onClick={isRecording ? stopRecording : startRecording}
+            >
+              {isRecording ? 'Stop' : take ? 'Retake' : 'Record'}
+            </Button>
+            <Button variant="ghost" className="!px-4 !py-2 text-sm" disabled={!take || isRecording} onClick={playTake}>
+              Play take
+            </Button>
+            <div className="ml-auto flex gap-3 text-sm text-gray-400">
+              <button type="button" onClick={() => move(-1)} disabled={position === 0 || isRecording} className="hover:text-white disabled:opacity-30">&larr; Previous</button>
+              <button type="button" onClick={() => move(1)} disabled={position === lines.length - 1 || isRecording} className="hover:text-white disabled:opacity-30">Next &rarr;</button>
+            </div>
+          </div>
+
+          {take && !isRecording && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs text-gray-400">
+              <label className="space-y-1">
+                <span className="block">Trim start · {formatSeconds(take.trimStart)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={take.audio.duration}
+                  step={0.01}
+                  value={take.trimStart}
+                  onChange={(e) => setTake(lineIndex, { ...take, trimStart: Math.min(Number(e.target.value), take.trimEnd - 0.1) })}
+                  className="w-full"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="block">Trim end · {formatSeconds(take.trimEnd)} of {formatSeconds(take.audio.duration)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={take.audio.duration}
+                  step={0.01}
+                  value={take.trimEnd}
+                  onChange={(e) => setTake(lineIndex, { ...take, trimEnd: Math.max(Number(e.target.value), take.trimStart + 0.1) })}
+                  className="w-full"
+                />
+              </label>
+            </div>
+          )}
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      <div className="flex items-center gap-3 pt-2">
+        <span className="text-xs text-gray-400">The other speakers are synthesized once every line is recorded; your takes are matched to their level.</span>
+        <Button variant="ghost" className="ml-auto !px-4 !py-2 text-sm" onClick={onDiscard}>
+          Discard
+        </Button>
+        <Button className="!px-4 !py-2 text-sm" disabled={isRecording || recordedCount < lines.length} onClick={() => onFinish(takes)}>
+          Produce episode
+        </Button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { CastMember, DialogueLine, PodcastScript } from '../types';
+import { rewriteLine } from '../services/podcastService';
+import { validateScript } from '../services/scriptValidation';
+import { classifyError } from '../services/errors';
+import { Button } from './Button';
+import { LineFlags } from './LineFlags';
+
+interface ScriptEditorProps {
+  script: PodcastScript;
+  cast: CastMember[];
+  onChange: (script: PodcastScript) => void;
+  onApprove: () => void;
+  onDiscard: () => void;
+}
+
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ script, cast, onChange, onApprove, onDiscard }) => {
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [rewriteError, setRewriteError] = useState<string | null>(null);
+
+  const problems = validateScript(script, cast);
+
+  const setDialogue = (dialogue: DialogueLine[]) => onChange({ ...script, dialogue });
+
+  // Review flags describe the old wording, so editing the text clears them
+  const updateLine = (index: number, patch: Partial<DialogueLine>) => {
+    const cleared = patch.text !== undefined ? { flags: undefined } : {};
+    setDialogue(script.dialogue.map((line, i) => i === index ? { ...line, ...patch, ...cleared } : line));
+  };
+
+  const moveLine = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= script.dialogue.length) return;
+    const dialogue = [...script.dialogue];
+    [dialogue[index], dialogue[target]] = [dialogue[target], dialogue[index]];
+    setDialogue(dialogue);
+    if (selectedLine === index) setSelectedLine(target);
+  };
+
+  const insertLine = (index: number) => {
+    // Default to whoever didn't speak the line above, so turns keep alternating
+    const above = script.dialogue[index]?.speaker;
+    const speaker = cast.find(member => member.name !== above)?.name ?? cast[0].name;
+    const dialogue = [...script.dialogue];
+    dialogue.splice(index + 1, 0, { speaker, text: '' });
+    setDialogue(dialogue);
+    setSelectedLine(index + 1);
+  };
+
+  const deleteLine = (index: number) => {
+    setDialogue(script.dialogue.filter((_, i) => i !== index));
+    setSelectedLine(null);
+  };
+
+  // Editing is locked while a rewrite is pending, so the script it started from is still current
+  const handleRewrite = async () => {
+    if (selectedLine === null) return;
+    setIsRewriting(true);
+    setRewriteError(null);
+    try {
+      const text = await rewriteLine(script, selectedLine, instruction.trim(), cast);
+      updateLine(selectedLine, { text });
+      setInstruction('');
+    } catch (err) {
+      console.error(err);
+      setRewriteError(classifyError(err).message);
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  return (
+    <div className="glass rounded-3xl p-6 shadow-2xl mb-8 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-xl font-bold text-gray-200">Review Script</h3>
+        <span className="text-xs text-gray-400">Nothing is recorded until you approve.</span>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Direct the delivery inline: <code>[pause 1s]</code> inserts silence, cues like <code>[laughs]</code> or <code>[sighs]</code> are performed, and <code>*word*</code> is stressed. Listeners only see the words.
+      </p>
+
+      <fieldset disabled={isRewriting} className="space-y-4 min-w-0 disabled:opacity-60">
+        <input
+          type="text"
+          value={script.title}
+          onChange={(e) => onChange({ ...script, title: e.target.value })}
+          placeholder="Episode title"
+          className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-lg font-semibold focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto pr-2">
+          {script.dialogue.map((line, idx) => (
+            <div
+              key={idx}
+              onClick={() => !isRewriting && setSelectedLine(idx)}
+              className={`p-3 rounded-xl border space-y-2 ${selectedLine === idx ? 'border-indigo-500/60 bg-indigo-500/10' : 'border-white/10 bg-black/20'}`}
+            >
+              <div className="flex items-center gap-2 text-xs text-gray-400">
+                <span className="tabular-nums w-6">{idx + 1}</span>
+                <select
+                  value={line.speaker}
+                  onChange={(e) => updateLine(idx, { speaker: e.target.value })}
+                  className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200"
+                >
+                  {cast.map(member => (
+                    <option key={member.id} value={member.name}>{member.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={line.style ?? ''}
+                  onChange={(e) => updateLine(idx, { style: e.target.value || undefined })}
+                  placeholder="Delivery, e.g. excited"
+                  className="w-36 bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200"
+                />
+                <div className="ml-auto flex gap-3">
+                  <button type="button" onClick={() => moveLine(idx, -1)} disabled={idx === 0} className="hover:text-white disabled:opacity-30" aria-label="Move up">&uarr;</button>
+                  <button type="button" onClick={() => moveLine(idx, 1)} disabled={idx === script.dialogue.length - 1} className="hover:text-white disabled:opacity-30" aria-label="Move down">&darr;</button>
+                  <button type="button" onClick={() => insertLine(idx)} className="hover:text-white">+ Insert below</button>
+                  <button type="button" onClick={() => deleteLine(idx)} className="hover:text-red-300">Delete</button>
+                </div>
+              </div>
+              <textarea
+                value={line.text}
+                onChange={(e) => updateLine(idx, { text: e.target.value })}
+                rows={2}
+                className="w-full bg-transparent text-sm leading-relaxed text-gray-100 focus:outline-none resize-y"
+              />
+              <LineFlags flags={line.flags} />
+            </div>
+          ))}
+          {script.dialogue.length === 0 && (
+            <button type="button" onClick={() => insertLine(-1)} className="text-sm text-indigo-300 hover:text-indigo-200">+ Add a line</button>
+          )}
+        </div>
+      </fieldset>
+
+      {selectedLine !== null && script.dialogue[selectedLine] && (
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder={`Rewrite line ${selectedLine + 1}… (e.g. 'shorter and funnier')`}
+            className="flex-1 bg-black/40 border border-white/10 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <Button variant="secondary" className="!py-2 text-sm" isLoading={isRewriting} onClick={handleRewrite}>
+            Rewrite with AI
+          </Button>
+        </div>
+      )}
+      {rewriteError && <div className="text-sm text-red-300">{rewriteError}</div>}
+
+      {problems.length > 0 && (
+        <ul className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl text-amber-200 text-sm list-disc list-inside">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <Button variant="ghost" onClick={onDiscard} disabled={isRewriting}>Discard</Button>
+        <Button onClick={onApprove} disabled={problems.length > 0 || isRewriting}>
+          Approve &amp; Record
+        </Button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
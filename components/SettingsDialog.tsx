@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { GeminiConnection } from '../types';
+import { DEFAULT_API_BASE_URL } from '../constants';
+import { getProviderConfig, setGeminiConnection } from '../services/providers';
+import { Button } from './Button';
+
+interface SettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+export const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
+  const [mode, setMode] = useState<GeminiConnection['mode']>('proxy');
+  const [baseUrl, setBaseUrl] = useState(DEFAULT_API_BASE_URL);
+  const [apiKey, setApiKey] = useState('');
+
+  // Start from the active connection each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const { connection } = getProviderConfig().gemini;
+    setMode(connection.mode);
+    setBaseUrl(connection.mode === 'proxy' ? connection.baseUrl : DEFAULT_API_BASE_URL);
+    setApiKey(connection.mode === 'key' ? connection.apiKey : '');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const canSave = mode === 'proxy' ? baseUrl.trim() !== '' : apiKey.trim() !== '';
+
+  const handleSave = () => {
+    setGeminiConnection(mode === 'proxy'
+      ? { mode, baseUrl: baseUrl.trim() }
+      : { mode, apiKey: apiKey.trim() });
+    onClose();
+  };
+
+  const handleReset = () => {
+    setGeminiConnection(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose}></div>
+      <div className="relative w-full max-w-lg max-h-full overflow-y-auto bg-[#0f172a] border border-white/10 rounded-3xl p-6 space-y-4 shadow-2xl text-sm text-gray-300">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-200">Settings</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close">&times;</button>
+        </div>
+
+        <label className="flex items-start gap-3">
+          <input type="radio" name="connection" checked={mode === 'proxy'} onChange={() => setMode('proxy')} className="mt-1" />
+          <span className="space-y-2 flex-1">
+            <span className="block font-semibold text-gray-200">Use the app server</span>
+            <span className="block text-xs text-gray-400">Requests go through the podcast server, which holds the API key and applies usage limits.</span>
+            <input
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              disabled={mode !== 'proxy'}
+              placeholder="Server URL, e.g. /api or https://podcasts.example.com/api"
+              className={`${inputClass} disabled:opacity-50`}
+            />
+          </span>
+        </label>
+
+        <label className="flex items-start gap-3">
+          <input type="radio" name="connection" checked={mode === 'key'} onChange={() => setMode('key')} className="mt-1" />
+          <span className="space-y-2 flex-1">
+            <span className="block font-semibold text-gray-200">Bring your own key</span>
+            <span className="block text-xs text-gray-400">Calls Gemini directly from this browser with your key, without the server's limits.</span>
+            <input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              disabled={mode !== 'key'}
+              placeholder="Gemini API key"
+              autoComplete="off"
+              className={`${inputClass} disabled:opacity-50`}
+            />
+          </span>
+        </label>
+
+        {mode === 'key' && (
+          <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl text-amber-200 text-xs">
+            The key is saved in this browser's local storage. Anyone with access to this browser profile, or any script running on this page, can read it. Only use a key you can revoke.
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={handleReset} className="text-xs text-gray-400 hover:text-white">
+            Reset to default (forgets any saved key)
+          </button>
+          <Button className="ml-auto" disabled={!canSave} onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
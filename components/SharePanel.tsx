@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { PodcastEpisode } from '../types';
+import { BUNDLE_EXTENSION, embedCode, exportEpisodeBundle, routeUrl } from '../services/episodeBundle';
+import { Button } from './Button';
+
+interface SharePanelProps {
+  episode: PodcastEpisode;
+  onError: (message: string) => void;
+}
+
+const inputClass = 'w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// The listener and embed routes live on this same app, wherever it is deployed
+const appUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+/**
+ * Download the episode as one bundle file, then turn the URL it's hosted at into a
+ * listener link and an embed snippet.
+ */
+export const SharePanel: React.FC<SharePanelProps> = ({ episode, onError }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [bundleUrl, setBundleUrl] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportEpisodeBundle(episode);
+    } catch (err: any) {
+      console.error(err);
+      onError(err.message || 'Could not package the episode.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const copy = async (label: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(label);
+      setTimeout(() => setCopied(current => current === label ? null : current), 2000);
+    } catch {
+      onError('Could not copy to the clipboard. Select the text and copy it instead.');
+    }
+  };
+
+  const url = bundleUrl.trim();
+  const shares = url ? [
+    { label: 'Listener link', text: routeUrl(appUrl(), 'listen', url) },
+    { label: 'Embed code', text: embedCode(appUrl(), url, episode.script.title) }
+  ] : [];
+
+  return (
+    <div className="w-full space-y-3 text-sm">
+      <div className="flex gap-3 items-center">
+        <Button
+          variant="secondary"
+          className="flex-1 !px-3 !py-2 text-sm"
+          isLoading={isExporting}
+          disabled={isExporting || !episode.audioBuffer}
+          onClick={handleExport}
+        >
+          Download episode file
+        </Button>
+        <a href="#/listen" target="_blank" rel="noopener noreferrer" className="text-xs text-gray-400 hover:text-white">
+          Open listener
+        </a>
+      </div>
+      <p className="text-xs text-gray-400">
+        The <code>.{BUNDLE_EXTENSION}</code> file holds the audio, cover and transcript. Anyone can open it in the listener, no API key needed. Host it somewhere that allows cross-origin requests to share a link or embed a player.
+      </p>
+      <input
+        type="url"
+        value={bundleUrl}
+        onChange={(e) => setBundleUrl(e.target.value)}
+        placeholder="Hosted file URL, e.g. https://example.com/episode.geminicast.json"
+        className={inputClass}
+      />
+      {shares.map(share => (
+        <div key={share.label} className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>{share.label}</span>
+            <button type="button" onClick={() => copy(share.label, share.text)} className="hover:text-white">
+              {copied === share.label ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <textarea readOnly value={share.text} rows={share.label === 'Embed code' ? 3 : 1} className={`${inputClass} resize-none font-mono`} />
+        </div>
+      ))}
+    </div>
+  );
+};
\ No newline at end of file
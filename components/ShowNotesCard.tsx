@@ -0,0 +1,35 @@
+import React from 'react';
+import { ShowNotes } from '../types';
+
+interface ShowNotesCardProps {
+  notes: ShowNotes;
+}
+
+export const ShowNotesCard: React.FC<ShowNotesCardProps> = ({ notes }) => (
+  <div className="glass rounded-3xl p-6 md:col-span-2 space-y-4 text-sm text-gray-300">
+    <h3 className="text-xl font-bold text-gray-200">Show notes</h3>
+    <p className="leading-relaxed">{notes.description}</p>
+    {notes.takeaways.length > 0 && (
+      <div>
+        <span className="text-xs font-bold uppercase tracking-wider text-gray-400">Key takeaways</span>
+        <ul className="mt-2 list-disc list-inside space-y-1">
+          {notes.takeaways.map((takeaway, i) => <li key={i}>{takeaway}</li>)}
+        </ul>
+      </div>
+    )}
+    {notes.links.length > 0 && (
+      <div>
+        <span className="text-xs font-bold uppercase tracking-wider text-gray-400">Links</span>
+        <ul className="mt-2 space-y-1">
+          {notes.links.map(link => (
+            <li key={link.url}>
+              <a href={link.url} target="_blank" rel="noreferrer" className="text-indigo-300 hover:text-indigo-200 underline">
+                {link.title || link.url}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </div>
+);
\ No newline at end of file
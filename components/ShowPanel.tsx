@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { CastMember, EpisodeFormat, Show } from '../types';
+import { DEFAULT_SEASON_LENGTH, MAX_SEASON_LENGTH } from '../constants';
+import { planSeason } from '../services/pipeline';
+import { parseTopicList } from '../services/series';
+import { classifyError } from '../services/errors';
+
+interface ShowPanelProps {
+  shows: Show[];
+  activeShowId: string | null;
+  onSelect: (id: string | null) => void;
+  onSave: (show: Show) => void;
+  onDelete: (id: string) => void;
+  onGenerateSeason: (topics: string[]) => void;
+  cast: CastMember[]; // Snapshotted into the show on save
+  format: EpisodeFormat;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const newShowId = () => `show-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const ShowPanel: React.FC<ShowPanelProps> = ({
+  shows,
+  activeShowId,
+  onSelect,
+  onSave,
+  onDelete,
+  onGenerateSeason,
+  cast,
+  format,
+  disabled
+}) => {
+  const [editing, setEditing] = useState<Show | null>(null);
+  const [seasonText, setSeasonText] = useState('');
+  const [planLength, setPlanLength] = useState(DEFAULT_SEASON_LENGTH);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+
+  const activeShow = shows.find(show => show.id === activeShowId) ?? null;
+  const topics = parseTopicList(seasonText);
+
+  const startNewShow = () => setEditing({
+    id: newShowId(),
+    name: '',
+    cast,
+    format,
+    styleGuide: '',
+    coverStyle: '',
+    createdAt: Date.now()
+  });
+
+  const handleSave = () => {
+    if (!editing || !editing.name.trim()) return;
+    onSave({ ...editing, name: editing.name.trim(), cast, format });
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!editing || !window.confirm(`Delete the show "${editing.name}"? Its episodes stay in the library.`)) return;
+    onDelete(editing.id);
+    setEditing(null);
+  };
+
+  const handlePropose = async () => {
+    if (!activeShow) return;
+    setIsPlanning(true);
+    setPlanError(null);
+    try {
+      const plan = await planSeason(activeShow, planLength);
+      setSeasonText(plan.map(item => `${item.topic} — ${item.synopsis}`).join('\n'));
+    } catch (err) {
+      console.error(err);
+      setPlanError(classifyError(err).message);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold uppercase tracking-wider text-gray-400 mr-2">Series</span>
+        <select
+          value={activeShowId ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          disabled={disabled}
+          className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">One-off episode</option>
+          {shows.map(show => (
+            <option key={show.id} value={show.id}>{show.name}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={startNewShow}
+          disabled={disabled}
+          className="text-xs px-3 py-1 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 disabled:opacity-50"
+        >
+          New show
+        </button>
+        {activeShow && (
+          <button
+            type="button"
+            onClick={() => setEditing(activeShow)}
+            disabled={disabled}
+            className="text-xs px-3 py-1 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 disabled:opacity-50"
+          >
+            Edit show
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-3">
+          <input
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            placeholder="Show name"
+            className={inputClass}
+          />
+          <textarea
+            value={editing.styleGuide}
+            onChange={(e) => setEditing({ ...editing, styleGuide: e.target.value })}
+            placeholder="Style guide: recurring segments, catchphrases, what the show always or never does"
+            rows={3}
+            className={inputClass}
+          />
+          <input
+            value={editing.coverStyle}
+            onChange={(e) => setEditing({ ...editing, coverStyle: e.target.value })}
+            placeholder="Cover art style, e.g. 'risograph print, teal and orange, bold shapes'"
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-500">The show keeps the cast and format currently set above.</p>
+          <div className="flex gap-3 text-xs">
+            <button type="button" onClick={handleSave} disabled={!editing.name.trim()} className="text-indigo-300 hover:text-indigo-200 disabled:opacity-50">
+              Save show
+            </button>
+            <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-white">Cancel</button>
+            {shows.some(show => show.id === editing.id) && (
+              <button type="button" onClick={handleDelete} className="ml-auto text-gray-400 hover:text-red-300">Delete show</button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {activeShow && !editing && (
+        <div className="space-y-2">
+          <textarea
+            value={seasonText}
+            onChange={(e) => setSeasonText(e.target.value)}
+            placeholder="Season plan: one episode topic per line"
+            rows={4}
+            disabled={disabled}
+            className={inputClass}
+          />
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            <label className="flex items-center gap-2">
+              Propose
+              <input
+                type="number"
+                min={1}
+                max={MAX_SEASON_LENGTH}
+                value={planLength}
+                onChange={(e) => setPlanLength(Math.min(MAX_SEASON_LENGTH, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-14 bg-black/40 border border-white/10 rounded px-2 py-1"
+              />
+              episodes
+            </label>
+            <button
+              type="button"
+              onClick={handlePropose}
+              disabled={disabled || isPlanning}
+              className="text-indigo-300 hover:text-indigo-200 disabled:opacity-50"
+            >
+              {isPlanning ? 'Planning…' : 'Plan with AI'}
+            </button>
+            <button
+              type="button"
+              onClick={() => onGenerateSeason(topics)}
+              disabled={disabled || topics.length === 0}
+              className="ml-auto px-3 py-1 rounded-full bg-indigo-500/30 border border-indigo-400/50 text-white hover:bg-indigo-500/40 disabled:opacity-50"
+            >
+              Generate season ({topics.length})
+            </button>
+          </div>
+          {planError && <p className="text-xs text-red-300">{planError}</p>}
+          <p className="text-xs text-gray-500">
+            New episodes of "{activeShow.name}" are told what earlier episodes covered, so the hosts can refer back to them.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { SourceDocument } from '../types';
+import { extractDocumentText, fetchUrlText } from '../services/podcastService';
+import { classifyError } from '../services/errors';
+
+interface SourceMaterialInputProps {
+  sources: SourceDocument[];
+  onChange: (update: (sources: SourceDocument[]) => SourceDocument[]) => void;
+  disabled?: boolean;
+}
+
+const newSourceId = () => `src-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+export const SourceMaterialInput: React.FC<SourceMaterialInputProps> = ({ sources, onChange, disabled }) => {
+  const [pastedText, setPastedText] = useState('');
+  const [url, setUrl] = useState('');
+
+  // Adds a placeholder right away and fills in the text once extraction finishes
+  const addSource = (name: string, kind: SourceDocument['kind'], load: () => Promise<string>) => {
+    const id = newSourceId();
+    onChange(list => [...list, { id, name, kind, text: '', status: 'loading' }]);
+    load()
+      .then(text => onChange(list => list.map(s => s.id === id ? { ...s, text, status: 'ready' } : s)))
+      .catch(err => {
+        console.error(err);
+        onChange(list => list.map(s => s.id === id ? { ...s, status: 'error', error: classifyError(err).message } : s));
+      });
+  };
+
+  const handleAddText = () => {
+    const text = pastedText.trim();
+    if (!text) return;
+    const firstLine = text.split('\n')[0].slice(0, 40);
+    addSource(firstLine || 'Pasted text', 'text', async () => text);
+    setPastedText('');
+  };
+
+  const handleAddUrl = () => {
+    const target = url.trim();
+    if (!/^https?:\/\//i.test(target)) return;
+    addSource(target, 'url', () => fetchUrlText(target));
+    setUrl('');
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files) return;
+    for (const file of Array.from(files)) {
+      addSource(file.name, 'file', async () =>
+        isPdf(file) ? extractDocumentText(await readAsBase64(file), 'application/pdf') : file.text()
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <span className="text-xs font-bold uppercase tracking-wider text-gray-400">Source material (optional)</span>
+
+      <textarea
+        value={pastedText}
+        onChange={(e) => setPastedText(e.target.value)}
+        placeholder="Paste meeting notes, an article or any text the episode should be based on"
+        rows={3}
+        disabled={disabled}
+        className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <div className="flex flex-col md:flex-row gap-2">
+        <button
+          type="button"
+          onClick={handleAddText}
+          disabled={disabled || !pastedText.trim()}
+          className="text-sm px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-50"
+        >
+          Add pasted text
+        </button>
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddUrl(); } }}
+          placeholder="https://example.com/article"
+          disabled={disabled}
+          className="flex-1 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          type="button"
+          onClick={handleAddUrl}
+          disabled={disabled || !url.trim()}
+          className="text-sm px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 disabled:opacity-50"
+        >
+          Add URL
+        </button>
+        <label className={`text-sm px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-gray-300 text-center ${disabled ? 'opacity-50' : 'hover:bg-white/10 cursor-pointer'}`}>
+          Upload .txt / .md / .pdf
+          <input
+            type="file"
+            accept=".txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf"
+            multiple
+            disabled={disabled}
+            onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {sources.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {sources.map(source => (
+            <li key={source.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/5">
+              <span className="text-xs uppercase text-gray-500 w-10">{source.kind}</span>
+              <span className="flex-1 truncate text-gray-200">{source.name}</span>
+              <span className={`text-xs ${source.status === 'error' ? 'text-red-300' : 'text-gray-400'}`}>
+                {source.status === 'loading' && 'Reading…'}
+                {source.status === 'ready' && `${source.text.length.toLocaleString()} chars`}
+                {source.status === 'error' && source.error}
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(list => list.filter(s => s.id !== source.id))}
+                disabled={disabled}
+                className="text-gray-400 hover:text-red-300 disabled:opacity-30"
+                aria-label={`Remove ${source.name}`}
+              >
+                &times;
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,73 @@
+import React from 'react';
+import { StitchOptions, SynthesisMode } from '../types';
+
+interface SynthesisSettingsProps {
+  mode: SynthesisMode;
+  onModeChange: (mode: SynthesisMode) => void;
+  stitchOptions: StitchOptions;
+  onStitchOptionsChange: (options: StitchOptions) => void;
+  disabled?: boolean;
+}
+
+export const SynthesisSettings: React.FC<SynthesisSettingsProps> = ({
+  mode,
+  onModeChange,
+  stitchOptions,
+  onStitchOptionsChange,
+  disabled
+}) => {
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-3 text-sm text-gray-300">
+      <span className="text-xs font-bold uppercase tracking-wider text-gray-400">Audio</span>
+      <label className="flex items-center gap-2">
+        <input
+          type="radio"
+          checked={mode === 'combined'}
+          onChange={() => onModeChange('combined')}
+          disabled={disabled}
+        />
+        Single take
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="radio"
+          checked={mode === 'segmented'}
+          onChange={() => onModeChange('segmented')}
+          disabled={disabled}
+        />
+        Line by line
+      </label>
+
+      {mode === 'segmented' && (
+        <>
+          <label className="flex items-center gap-2">
+            Speaker change gap
+            <input
+              type="range"
+              min={0}
+              max={1500}
+              step={50}
+              value={stitchOptions.speakerChangeGapMs}
+              onChange={(e) => onStitchOptionsChange({ ...stitchOptions, speakerChangeGapMs: Number(e.target.value) })}
+              disabled={disabled}
+            />
+            <span className="w-14 tabular-nums text-gray-400">{stitchOptions.speakerChangeGapMs} ms</span>
+          </label>
+          <label className="flex items-center gap-2">
+            Same speaker gap
+            <input
+              type="range"
+              min={0}
+              max={1500}
+              step={50}
+              value={stitchOptions.sameSpeakerGapMs}
+              onChange={(e) => onStitchOptionsChange({ ...stitchOptions, sameSpeakerGapMs: Number(e.target.value) })}
+              disabled={disabled}
+            />
+            <span className="w-14 tabular-nums text-gray-400">{stitchOptions.sameSpeakerGapMs} ms</span>
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
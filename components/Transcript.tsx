@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AudioPlayer, PodcastEpisode } from '../types';
+import { resolveLineTimings } from '../services/transcriptExport';
+import { lineIndexAt } from '../services/audioSegments';
+import { stripMarkup } from '../services/speechMarkup';
+import { isHumanLine } from '../services/recordedLines';
+import { usePlaybackState } from '../hooks/usePlaybackState';
+import { SPEAKER_STYLES } from '../constants';
+import { LineFlags } from './LineFlags';
+
+interface TranscriptProps {
+  episode: PodcastEpisode;
+  player: AudioPlayer | null;
+  rerecordingLine: number | null;
+  onRerecordLine: (index: number) => void;
+}
+
+// After the user scrolls by hand, leave the view alone for a while
+const MANUAL_SCROLL_HOLD_MS = 4000;
+
+export const Transcript: React.FC<TranscriptProps> = ({ episode, player, rerecordingLine, onRerecordLine }) => {
+  const timings = useMemo(() => resolveLineTimings(episode), [episode]);
+  const playback = usePlaybackState(player, false);
+  const [activeLine, setActiveLine] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lineRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const manualScrollAtRef = useRef(0);
+
+  // Follow the player's clock; only re-render when the current line changes
+  useEffect(() => {
+    if (!player) {
+      setActiveLine(-1);
+      return;
+    }
+    const update = () => setActiveLine(lineIndexAt(timings, player.getPosition()));
+    update();
+    if (!playback.isPlaying) return;
+
+    let frame = 0;
+    const tick = () => {
+      update();
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [player, timings, playback]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const line = lineRefs.current[activeLine];
+    if (!container || !line || Date.now() - manualScrollAtRef.current < MANUAL_SCROLL_HOLD_MS) return;
+    container.scrollTo({ top: line.offsetTop - container.clientHeight / 3, behavior: 'smooth' });
+  }, [activeLine]);
+
+  const handleSeek = (index: number) => {
+    if (!player) return;
+    manualScrollAtRef.current = 0;
+    player.seek(timings[index].start);
+    player.play();
+  };
+
+  const markManualScroll = () => {
+    manualScrollAtRef.current = Date.now();
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onWheel={markManualScroll}
+      onTouchMove={markManualScroll}
+      className="relative space-y-4 h-full overflow-y-auto pr-2 pb-16 custom-scrollbar"
+    >
+      {episode.script.dialogue.map((line, idx) => {
+        // The first cast member (host or narrator) sits on the left, everyone else on the right
+        const speakerIndex = Math.max(0, episode.cast.findIndex(member => member.name === line.speaker));
+        const isLead = speakerIndex === 0;
+        const isActive = idx === activeLine;
+        const callIn = episode.callIns.find(c => c.firstLine === idx);
+        return (
+          <div
+            key={idx}
+            ref={el => { lineRefs.current[idx] = el; }}
+            className={`flex flex-col ${isLead ? 'items-start' : 'items-end'}`}
+          >
+             {callIn && (
+               <div className="self-stretch mb-3 pt-3 border-t border-white/10 text-xs text-gray-400">
+                 <span className="font-bold uppercase tracking-wider text-indigo-300">Listener question</span> · {callIn.question}
+               </div>
+             )}
+             <div
+               onClick={() => handleSeek(idx)}
+               title="Play from here"
+               className={`max-w-[85%] p-3 rounded-2xl text-sm leading-relaxed border cursor-pointer transition-all ${
+                 SPEAKER_STYLES[speakerIndex % SPEAKER_STYLES.length]
+               } ${isLead ? 'rounded-tl-none' : 'rounded-tr-none'} ${
+                 isActive ? 'ring-2 ring-white/60 shadow-lg' : activeLine >= 0 ? 'opacity-60 hover:opacity-100' : ''
+               }`}
+             >
+                <span className="text-xs font-bold uppercase opacity-50 mb-1 block">{line.speaker}</span>
+                {stripMarkup(line.text)}
+                {line.citations && line.citations.length > 0 && (
+                  <span className="mt-2 flex flex-wrap gap-1">
+                    {line.citations.map(citation => (
+                      <span
+                        key={citation.passageId}
+                        title={`${citation.sourceName}: ${citation.excerpt}`}
+                        className="text-[10px] px-1.5 py-0.5 rounded bg-black/30 opacity-70 cursor-help"
+                      >
+                        {citation.passageId} · {citation.sourceName}
+                      </span>
+                    ))}
+                  </span>
+                )}
+                <LineFlags flags={line.flags} />
+                {/* Recorded lines would come back in the AI stand-in voice */}
+                {episode.segments && !isHumanLine(line, episode.cast) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRerecordLine(idx);
+                    }}
+                    disabled={rerecordingLine !== null}
+                    className="mt-2 block text-xs opacity-60 hover:opacity-100 disabled:opacity-30"
+                  >
+                    {rerecordingLine === idx ? 'Re-recording…' : 'Re-record this line'}
+                  </button>
+                )}
+             </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
\ No newline at end of file
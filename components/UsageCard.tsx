@@ -0,0 +1,22 @@
+import React from 'react';
+import { useUsage } from '../hooks/useUsage';
+import { UsageTable } from './UsageTable';
+
+interface UsageCardProps {
+  episodeId: string;
+}
+
+// Per-episode breakdown; grows as cover variants, call-ins and re-recordings are added
+export const UsageCard: React.FC<UsageCardProps> = ({ episodeId }) => {
+  const { ledger, prices } = useUsage();
+  const usage = ledger.episodes[episodeId];
+  if (!usage) return null;
+
+  return (
+    <div className="glass rounded-3xl p-6 md:col-span-2 space-y-4 text-sm text-gray-300">
+      <h3 className="text-xl font-bold text-gray-200">Usage</h3>
+      <UsageTable usage={usage} prices={prices} />
+      <p className="text-xs text-gray-500">Estimated from the price table under Usage; your bill may differ.</p>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { BudgetSettings, ModelPrice, PriceTable } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+import { useUsage } from '../hooks/useUsage';
+import { formatUsd, monthUsage, setBudget, setPriceTable, todayUsage, totalCost } from '../services/usageTracker';
+import { UsageTable } from './UsageTable';
+import { Button } from './Button';
+
+interface UsageDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'In / 1M tokens' },
+  { key: 'outputPerMillion', label: 'Out / 1M tokens' },
+  { key: 'perImage', label: 'Per image' },
+  { key: 'perAudioMinute', label: 'Per audio minute' }
+];
+
+const NO_PRICE: ModelPrice = { inputPerMillion: 0, outputPerMillion: 0, perImage: 0, perAudioMinute: 0 };
+
+const capText = (cap: number | null) => cap === null ? '' : String(cap);
+const parseCap = (text: string): number | null => {
+  const value = Number(text);
+  return text.trim() && Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+export const UsageDialog: React.FC<UsageDialogProps> = ({ isOpen, onClose }) => {
+  const { ledger, prices, budget } = useUsage();
+  const [priceDraft, setPriceDraft] = useState<PriceTable>(prices);
+  const [dailyCap, setDailyCap] = useState('');
+  const [monthlyCap, setMonthlyCap] = useState('');
+
+  // Start from the saved values each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setPriceDraft(prices);
+    setDailyCap(capText(budget.dailyUsd));
+    setMonthlyCap(capText(budget.monthlyUsd));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const today = todayUsage();
+  const month = monthUsage();
+  // Models that were used without a price yet, e.g. after a model override, get a row too
+  const models = [...new Set([...Object.keys(priceDraft), ...Object.keys(month)])];
+
+  const updatePrice = (model: string, key: keyof ModelPrice, text: string) => {
+    const value = Math.max(0, Number(text) || 0);
+    setPriceDraft(prev => ({ ...prev, [model]: { ...(prev[model] ?? NO_PRICE), [key]: value } }));
+  };
+
+  const handleSave = () => {
+    const next: BudgetSettings = { dailyUsd: parseCap(dailyCap), monthlyUsd: parseCap(monthlyCap) };
+    setBudget(next);
+    setPriceTable(priceDraft);
+    onClose();
+  };
+
+  const summary = (label: string, spent: number, cap: number | null) => (
+    <span className="text-xs font-bold uppercase tracking-wider text-gray-400">
+      {label}: {formatUsd(spent)}{cap !== null && ` of ${formatUsd(cap)}`}
+    </span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose}></div>
+      <div className="relative w-full max-w-2xl max-h-full overflow-y-auto bg-[#0f172a] border border-white/10 rounded-3xl p-6 space-y-5 shadow-2xl text-sm text-gray-300">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-200">Usage</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close">&times;</button>
+        </div>
+        <p className="text-xs text-gray-400">
+          Estimated from token counts, images and audio length reported for each call, priced with the table below. Tracked in this browser only.
+        </p>
+
+        <section className="space-y-2">
+          {summary('Today', totalCost(today, prices), budget.dailyUsd)}
+          <UsageTable usage={today} prices={prices} />
+        </section>
+        <section className="space-y-2">
+          {summary('This month', totalCost(month, prices), budget.monthlyUsd)}
+          <UsageTable usage={month} prices={prices} />
+        </section>
+        <p className="text-xs text-gray-500">{Object.keys(ledger.episodes).length} episodes tracked.</p>
+
+        <section className="space-y-2">
+          <span className="text-xs font-bold uppercase tracking-wider text-gray-400">Spending caps (USD)</span>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-400">Daily</span>
+              <input type="number" min={0} step="0.5" value={dailyCap} onChange={(e) => setDailyCap(e.target.value)} placeholder="No cap" className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-400">Monthly</span>
+              <input type="number" min={0} step="1" value={monthlyCap} onChange={(e) => setMonthlyCap(e.target.value)} placeholder="No cap" className={inputClass} />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">Generation stops as soon as an estimated total reaches its cap.</p>
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-400">Prices (USD)</span>
+            <button type="button" onClick={() => setPriceDraft(DEFAULT_MODEL_PRICES)} className="text-xs text-gray-400 hover:text-white">
+              Reset to defaults
+            </button>
+          </div>
+          <table className="w-full text-xs">
+            <thead className="text-gray-400 text-left">
+              <tr>
+                <th className="font-semibold py-1">Model</th>
+                {PRICE_FIELDS.map(field => <th key={field.key} className="font-semibold py-1 px-1">{field.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {models.map(model => (
+                <tr key={model} className="border-t border-white/5">
+                  <td className="py-1 font-mono truncate max-w-[10rem]">{model}</td>
+                  {PRICE_FIELDS.map(field => (
+                    <td key={field.key} className="py-1 px-1">
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={(priceDraft[model] ?? NO_PRICE)[field.key]}
+                        onChange={(e) => updatePrice(model, field.key, e.target.value)}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave}>Save</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
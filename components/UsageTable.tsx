@@ -0,0 +1,50 @@
+import React from 'react';
+import { PriceTable, UsageByModel, UsageTotals } from '../types';
+import { costOf, formatUsd, totalCost } from '../services/usageTracker';
+
+interface UsageTableProps {
+  usage: UsageByModel;
+  prices: PriceTable;
+}
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1e6 ? `${(tokens / 1e6).toFixed(1)}M` : tokens >= 1e3 ? `${(tokens / 1e3).toFixed(1)}k` : String(tokens);
+
+// What each model consumed, with its estimated cost and the total
+export const UsageTable: React.FC<UsageTableProps> = ({ usage, prices }) => {
+  const rows: [string, UsageTotals][] = Object.entries(usage);
+  if (rows.length === 0) return <p className="text-gray-500">No model calls recorded.</p>;
+
+  return (
+    <table className="w-full text-xs">
+      <thead className="text-gray-400 text-left">
+        <tr>
+          <th className="font-semibold py-1">Model</th>
+          <th className="font-semibold py-1 text-right">Calls</th>
+          <th className="font-semibold py-1 text-right">Tokens in / out</th>
+          <th className="font-semibold py-1 text-right">Images</th>
+          <th className="font-semibold py-1 text-right">Audio</th>
+          <th className="font-semibold py-1 text-right">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([model, totals]) => (
+          <tr key={model} className="border-t border-white/5">
+            <td className="py-1 font-mono truncate max-w-[12rem]">{model}</td>
+            <td className="py-1 text-right">{totals.calls}</td>
+            <td className="py-1 text-right">{formatTokens(totals.promptTokens)} / {formatTokens(totals.outputTokens)}</td>
+            <td className="py-1 text-right">{totals.images || '—'}</td>
+            <td className="py-1 text-right">{totals.audioSeconds ? `${Math.round(totals.audioSeconds)} s` : '—'}</td>
+            <td className="py-1 text-right">{prices[model] ? formatUsd(costOf(totals, prices[model])) : 'no price'}</td>
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr className="border-t border-white/10 font-semibold text-gray-200">
+          <td className="py-1" colSpan={5}>Estimated total</td>
+          <td className="py-1 text-right">{formatUsd(totalCost(usage, prices))}</td>
+        </tr>
+      </tfoot>
+    </table>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,271 @@
+import {
+  AudienceLevel,
+  CastMember,
+  CoverFont,
+  CoverLayout,
+  CoverOverlay,
+  CoverStylePreset,
+  EpisodeFormat,
+  GeminiModelConfig,
+  MixSettings,
+  PriceTable,
+  StitchOptions,
+  TonePreset,
+  VoiceOption
+} from './types';
+
+// Prebuilt voices offered by the Gemini TTS models.
+export const PREBUILT_VOICES: VoiceOption[] = [
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Laomedeia', style: 'Upbeat' },
+  { name: 'Achernar', style: 'Soft' },
+  { name: 'Alnilam', style: 'Firm' },
+  { name: 'Schedar', style: 'Even' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Achird', style: 'Friendly' },
+  { name: 'Zubenelgenubi', style: 'Casual' },
+  { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Sadaltager', style: 'Knowledgeable' },
+  { name: 'Sulafat', style: 'Warm' }
+];
+
+// Overridable with the GEMINI_*_MODEL environment variables, in the app and on the server.
+export const DEFAULT_GEMINI_MODELS: GeminiModelConfig = {
+  script: 'gemini-3-pro-preview',
+  utility: 'gemini-2.5-flash',
+  image: 'gemini-3-pro-image-preview',
+  speech: 'gemini-2.5-flash-preview-tts'
+};
+
+// Estimated list prices in USD, editable under Usage. Image and speech output is priced per
+// image and per minute of audio rather than by its output tokens.
+export const DEFAULT_MODEL_PRICES: PriceTable = {
+  [DEFAULT_GEMINI_MODELS.script]: { inputPerMillion: 2, outputPerMillion: 12, perImage: 0, perAudioMinute: 0 },
+  [DEFAULT_GEMINI_MODELS.utility]: { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0, perAudioMinute: 0 },
+  [DEFAULT_GEMINI_MODELS.image]: { inputPerMillion: 2, outputPerMillion: 0, perImage: 0.134, perAudioMinute: 0 },
+  [DEFAULT_GEMINI_MODELS.speech]: { inputPerMillion: 0.5, outputPerMillion: 0, perImage: 0, perAudioMinute: 0.015 }
+};
+
+// Where the app server is reached by default: the same origin (proxied by Vite in development).
+export const DEFAULT_API_BASE_URL = '/api';
+
+export const MAX_CAST_SIZE = 4;
+
+export const DEFAULT_STITCH_OPTIONS: StitchOptions = {
+  speakerChangeGapMs: 350,
+  sameSpeakerGapMs: 150
+};
+
+// Parallel TTS calls and extra attempts per line in segmented synthesis.
+export const SEGMENT_CONCURRENCY = 3;
+export const SEGMENT_RETRIES = 2;
+
+// Extra attempts for whole pipeline steps (script, cover, combined audio) on transient errors.
+export const STEP_RETRIES = 3;
+
+// Player transport
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+export const SKIP_SECONDS = 15;
+export const VOLUME_STEP = 0.1;
+
+export const createCastMember = (name: string, persona: string, voiceName: string): CastMember => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  persona,
+  voiceName
+});
+
+export const CAST_PRESETS: { label: string; build: () => CastMember[] }[] = [
+  {
+    label: 'Host + Guest',
+    build: () => [
+      createCastMember('Host', 'Energetic and knowledgeable, drives the conversation.', 'Fenrir'),
+      createCastMember('Guest', 'Curious, asks good questions.', 'Kore')
+    ]
+  },
+  {
+    label: 'Host + 2 Guests',
+    build: () => [
+      createCastMember('Host', 'Warm moderator who keeps the discussion on track.', 'Charon'),
+      createCastMember('Expert', 'Deep subject-matter expert with concrete examples.', 'Kore'),
+      createCastMember('Skeptic', 'Friendly skeptic who challenges claims.', 'Puck')
+    ]
+  },
+  {
+    label: 'Narrator',
+    build: () => [
+      createCastMember('Narrator', 'Calm, vivid storyteller speaking directly to the listener.', 'Sulafat')
+    ]
+  }
+];
+
+export const DEFAULT_CAST = (): CastMember[] => CAST_PRESETS[0].build();
+
+// Bubble styles assigned to cast members by position.
+export const SPEAKER_STYLES = [
+  'bg-indigo-500/20 border-indigo-500/30 text-indigo-100',
+  'bg-purple-500/20 border-purple-500/30 text-purple-100',
+  'bg-pink-500/20 border-pink-500/30 text-pink-100',
+  'bg-teal-500/20 border-teal-500/30 text-teal-100'
+];
+
+// Post-production defaults; -16 LUFS is the common target for spoken-word podcasts.
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  fadeInSeconds: 1,
+  fadeOutSeconds: 3,
+  bedVolumeDb: -18,
+  duckingDb: -12,
+  targetLufs: -16
+};
+
+// Recorded lines: padding kept around detected speech when a take is first trimmed, in seconds.
+export const TAKE_TRIM_PADDING_SECONDS = 0.15;
+
+// Series mode: how many earlier episodes are recapped in a script prompt, and season plan sizes.
+export const MAX_RECAPPED_EPISODES = 8;
+export const DEFAULT_SEASON_LENGTH = 5;
+export const MAX_SEASON_LENGTH = 12;
+
+export const COVER_STYLE_PRESETS: Record<CoverStylePreset, { label: string; instruction: string }> = {
+  minimal: { label: 'Minimal', instruction: 'Minimalist, high-end, 4k, trending on artstation, vivid colors, abstract geometric shapes or relevant symbolism.' },
+  photographic: { label: 'Photographic', instruction: 'Cinematic photograph with shallow depth of field, natural light and a single strong subject.' },
+  illustration: { label: 'Illustration', instruction: 'Flat editorial illustration with clean shapes, limited palette and playful details.' },
+  retro: { label: 'Retro', instruction: '1970s poster style: warm faded colours, grain, halftone textures and sunburst shapes.' },
+  bold: { label: 'Bold graphic', instruction: 'High-contrast graphic design with two or three saturated colours and one iconic symbol.' },
+  watercolor: { label: 'Watercolor', instruction: 'Soft watercolor painting on textured paper with loose washes and gentle gradients.' }
+};
+
+export const DEFAULT_COVER_PRESET: CoverStylePreset = 'minimal';
+
+export const MIN_COVER_VARIANTS = 2;
+export const MAX_COVER_VARIANTS = 4;
+
+// Fonts are loaded in index.html; the canvas waits for them before drawing
+export const COVER_FONTS: Record<CoverFont, { label: string; family: string; weight: number }> = {
+  grotesk: { label: 'Space Grotesk', family: "'Space Grotesk', sans-serif", weight: 700 },
+  serif: { label: 'Playfair Display', family: "'Playfair Display', serif", weight: 700 },
+  condensed: { label: 'Bebas Neue', family: "'Bebas Neue', sans-serif", weight: 400 },
+  mono: { label: 'JetBrains Mono', family: "'JetBrains Mono', monospace", weight: 700 }
+};
+
+export const COVER_LAYOUTS: Record<CoverLayout, string> = {
+  bottom: 'Bottom, left-aligned',
+  top: 'Top, left-aligned',
+  center: 'Centered',
+  band: 'Band across the bottom'
+};
+
+export const DEFAULT_COVER_OVERLAY: CoverOverlay = { font: 'grotesk', layout: 'bottom', includeShowName: true };
+
+// Podcast directories ask for square artwork between 1400 and 3000 pixels.
+export const COVER_EXPORT_SIZES = [3000, 1400];
+// Size of the rendering kept with the episode and shown in the app
+export const COVER_PREVIEW_SIZE = 1024;
+
+// Apple Podcasts top-level categories, also understood by Spotify and most other directories
+export const PODCAST_CATEGORIES = [
+  'Arts', 'Business', 'Comedy', 'Education', 'Fiction', 'Government', 'Health & Fitness', 'History',
+  'Kids & Family', 'Leisure', 'Music', 'News', 'Religion & Spirituality', 'Science', 'Society & Culture',
+  'Sports', 'Technology', 'True Crime', 'TV & Film'
+];
+
+// Canvas colours matching SPEAKER_STYLES (Tailwind 400 shades)
+export const SPEAKER_COLORS = ['#818cf8', '#c084fc', '#f472b6', '#2dd4bf'];
+
+// Call-in mode: length of the hosts' answer and of a typed question.
+export const CALL_IN_MINUTES = 1;
+export const MAX_CALL_IN_QUESTION_CHARS = 500;
+
+// Batch mode: episodes produced at once, and the pause after a rate limit before the queue continues.
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+export const BATCH_COOLDOWN_MS = 60000;
+// Times one job is put back in the queue after rate limits before it's marked failed
+export const BATCH_RATE_LIMIT_REQUEUES = 3;
+
+// Source material budget: beyond this many characters, sources are condensed before scripting.
+export const MAX_SOURCE_CHARS = 200000;
+export const SOURCE_SUMMARY_CHUNK_CHARS = 24000;
+// Target size of a citable passage
+export const SOURCE_PASSAGE_CHARS = 700;
+
+export const TONE_PRESETS: Record<TonePreset, { label: string; instruction: string }> = {
+  casual: { label: 'Casual', instruction: 'Relaxed and conversational, with humour and friendly banter.' },
+  academic: { label: 'Academic', instruction: 'Precise and rigorous; define terms, reference evidence and nuance.' },
+  news: { label: 'News', instruction: 'Crisp, neutral news briefing; lead with the most important facts.' },
+  debate: { label: 'Debate', instruction: 'Speakers take opposing positions and challenge each other respectfully.' },
+  storytelling: { label: 'Storytelling', instruction: 'Narrative arc with vivid scenes, suspense and a satisfying payoff.' }
+};
+
+export const AUDIENCE_LEVELS: Record<AudienceLevel, { label: string; instruction: string }> = {
+  kids: { label: 'Kids', instruction: 'Children aged 8-12: simple words, concrete examples, no jargon.' },
+  general: { label: 'General', instruction: 'A curious general audience with no special background.' },
+  informed: { label: 'Informed', instruction: 'Listeners who know the basics; skip introductory explanations.' },
+  expert: { label: 'Expert', instruction: 'Practitioners in the field; technical depth and jargon are fine.' }
+};
+
+// Voices are multilingual; these are the defaults applied to the cast when a language is picked.
+export const EPISODE_LANGUAGES: { code: string; label: string; voices: string[] }[] = [
+  { code: 'en', label: 'English', voices: ['Fenrir', 'Kore', 'Puck', 'Charon'] },
+  { code: 'es', label: 'Spanish', voices: ['Orus', 'Aoede', 'Puck', 'Leda'] },
+  { code: 'fr', label: 'French', voices: ['Charon', 'Despina', 'Achird', 'Leda'] },
+  { code: 'de', label: 'German', voices: ['Schedar', 'Kore', 'Iapetus', 'Erinome'] },
+  { code: 'it', label: 'Italian', voices: ['Algieba', 'Aoede', 'Umbriel', 'Callirrhoe'] },
+  { code: 'pt', label: 'Portuguese', voices: ['Orus', 'Laomedeia', 'Puck', 'Autonoe'] },
+  { code: 'ja', label: 'Japanese', voices: ['Iapetus', 'Kore', 'Puck', 'Leda'] },
+  { code: 'ko', label: 'Korean', voices: ['Charon', 'Despina', 'Achird', 'Sulafat'] },
+  { code: 'zh', label: 'Chinese (Mandarin)', voices: ['Rasalgethi', 'Kore', 'Puck', 'Aoede'] },
+  { code: 'hi', label: 'Hindi', voices: ['Alnilam', 'Sulafat', 'Fenrir', 'Leda'] }
+];
+
+export const DURATION_PRESETS: { label: string; minutes: number }[] = [
+  { label: 'Teaser', minutes: 1 },
+  { label: 'Short', minutes: 3 },
+  { label: 'Standard', minutes: 6 },
+  { label: 'Deep dive', minutes: 20 }
+];
+
+export const MIN_EPISODE_MINUTES = 1;
+export const MAX_EPISODE_MINUTES = 20;
+
+// Typical conversational speech rate, used to turn durations into word counts
+export const SPOKEN_WORDS_PER_MINUTE = 150;
+
+// Generated scripts outside these multiples of the target line count are sent back to the model.
+// Counted in lines rather than words so the bounds hold for languages written without spaces.
+export const SCRIPT_LENGTH_BOUNDS = { min: 0.5, max: 2.5 };
+export const MAX_LINE_CHARS = 1500;
+
+// Speech markup: a bare [pause] and the longest pause a line can ask for, in seconds.
+export const DEFAULT_PAUSE_SECONDS = 0.75;
+export const MAX_PAUSE_SECONDS = 5;
+
+// Longer episodes are written as an outline first, then expanded section by section.
+export const SINGLE_PASS_MAX_MINUTES = 5;
+
+export const DEFAULT_EPISODE_FORMAT: EpisodeFormat = {
+  targetMinutes: 3,
+  tone: 'casual',
+  audience: 'general',
+  language: 'en',
+  structure: { intro: true, sectionCount: 0, outro: true, callToAction: '' }
+};
\ No newline at end of file
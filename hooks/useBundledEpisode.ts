@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AudioPlayer, EpisodeBundle, PodcastEpisode } from '../types';
+import { createAudioPlayer } from '../services/audioPlayer';
+import { bundleToEpisode, fetchEpisodeBundle, readEpisodeBundle } from '../services/episodeBundle';
+
+interface BundledEpisode {
+  episode: PodcastEpisode | null;
+  player: AudioPlayer | null;
+  error: string | null;
+  isLoading: boolean;
+  openFile: (file: File) => void;
+}
+
+/**
+ * Loads an episode bundle from `src` (or a file the user opens) into its own player.
+ * The context starts suspended until the first interaction, as browsers require.
+ */
+export const useBundledEpisode = (src: string | null): BundledEpisode => {
+  const [audio, setAudio] = useState<{ context: AudioContext; player: AudioPlayer } | null>(null);
+  const [episode, setEpisode] = useState<PodcastEpisode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(src !== null);
+
+  useEffect(() => {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const context: AudioContext = new AudioContextClass();
+    const player = createAudioPlayer(context);
+    const resume = () => {
+      if (context.state === 'suspended') context.resume();
+    };
+    document.addEventListener('pointerdown', resume);
+    document.addEventListener('keydown', resume);
+    setAudio({ context, player });
+    return () => {
+      document.removeEventListener('pointerdown', resume);
+      document.removeEventListener('keydown', resume);
+      player.dispose();
+      context.close();
+    };
+  }, []);
+
+  const load = useCallback(async (read: () => Promise<EpisodeBundle>, context: AudioContext, isCurrent: () => boolean) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await bundleToEpisode(await read(), context);
+      if (isCurrent()) setEpisode(loaded);
+    } catch (err: any) {
+      if (!isCurrent()) return;
+      console.error(err);
+      setError(err.message || 'Could not open this episode.');
+    } finally {
+      if (isCurrent()) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!audio || !src) return;
+    const controller = new AbortController();
+    load(() => fetchEpisodeBundle(src, controller.signal), audio.context, () => !controller.signal.aborted);
+    return () => controller.abort();
+  }, [audio, src, load]);
+
+  useEffect(() => {
+    audio?.player.load(episode?.audioBuffer ?? null);
+  }, [audio, episode]);
+
+  const openFile = useCallback((file: File) => {
+    if (audio) load(() => readEpisodeBundle(file), audio.context, () => true);
+  }, [audio, load]);
+
+  return { episode, player: audio?.player ?? null, error, isLoading, openFile };
+};
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { AudioPlayer, PlaybackState } from '../types';
+
+const IDLE_STATE: PlaybackState = { isPlaying: false, position: 0, duration: 0, rate: 1, volume: 1 };
+
+/**
+ * Follows a player's state. With `live`, the position is re-read every animation frame
+ * while it plays; without it, the state only changes on transport events.
+ */
+export const usePlaybackState = (player: AudioPlayer | null, live = true): PlaybackState => {
+  const [state, setState] = useState<PlaybackState>(() => player?.getState() ?? IDLE_STATE);
+
+  useEffect(() => {
+    if (!player) {
+      setState(IDLE_STATE);
+      return;
+    }
+    setState(player.getState());
+    return player.subscribe(setState);
+  }, [player]);
+
+  useEffect(() => {
+    if (!player || !live || !state.isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      setState(player.getState());
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [player, live, state.isPlaying]);
+
+  return state;
+};
\ No newline at end of file
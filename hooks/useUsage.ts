@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { BudgetSettings, PriceTable, UsageLedger } from '../types';
+import { getBudget, getPriceTable, getUsageLedger, subscribeToUsage } from '../services/usageTracker';
+
+interface UsageSnapshot {
+  ledger: UsageLedger;
+  prices: PriceTable;
+  budget: BudgetSettings;
+}
+
+const readUsage = (): UsageSnapshot => ({ ledger: getUsageLedger(), prices: getPriceTable(), budget: getBudget() });
+
+/**
+ * Follows the usage ledger, price table and budget, re-rendering after every recorded call.
+ */
+export const useUsage = (): UsageSnapshot => {
+  const [snapshot, setSnapshot] = useState(readUsage);
+  useEffect(() => subscribeToUsage(() => setSnapshot(readUsage())), []);
+  return snapshot;
+};
\ No newline at end of file
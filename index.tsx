@@ -1,15 +1,33 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ListenerView } from './components/ListenerView';
+import { EmbedPlayer } from './components/EmbedPlayer';
+import { parseRoute } from './services/episodeBundle';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Shared links open a bundle in the listener; everything else is the studio
+const Root: React.FC = () => {
+  const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  if (route.view === 'listen') return <ListenerView key={route.src ?? ''} src={route.src} />;
+  if (route.view === 'embed') return <EmbedPlayer key={route.src ?? ''} src={route.src} />;
+  return <App />;
+};
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
\ No newline at end of file
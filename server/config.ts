@@ -0,0 +1,70 @@
+import { GeminiEndpoint, GeminiModelConfig } from "../types";
+import { DEFAULT_GEMINI_MODELS } from "../constants";
+
+export interface EndpointLimits {
+  models: string[]; // Anything else is refused, so the key can't be spent on other models
+  maxBodyBytes: number;
+  requestsPerMinute: number; // Per client
+}
+
+export interface ServerConfig {
+  apiKey: string;
+  port: number;
+  staticDir: string; // The built app, served alongside the API
+  allowedOrigins: string[]; // For an app hosted elsewhere; same-origin needs none
+  trustProxy: boolean; // Take the client address from X-Forwarded-For
+  endpoints: Record<GeminiEndpoint, EndpointLimits>;
+}
+
+const MB = 1024 * 1024;
+
+const numberFrom = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Server settings from the environment, with .env.local (shared with the Vite dev server)
+ * filling in whatever isn't set.
+ */
+export const loadServerConfig = (): ServerConfig => {
+  try {
+    process.loadEnvFile(".env.local");
+  } catch {
+    // No .env.local; rely on the real environment
+  }
+  const env = process.env;
+  const models: GeminiModelConfig = {
+    script: env.GEMINI_SCRIPT_MODEL || DEFAULT_GEMINI_MODELS.script,
+    utility: env.GEMINI_UTILITY_MODEL || DEFAULT_GEMINI_MODELS.utility,
+    image: env.GEMINI_IMAGE_MODEL || DEFAULT_GEMINI_MODELS.image,
+    speech: env.GEMINI_SPEECH_MODEL || DEFAULT_GEMINI_MODELS.speech
+  };
+
+  return {
+    apiKey: env.GEMINI_API_KEY ?? "",
+    port: numberFrom(env.PORT, 8787),
+    staticDir: env.STATIC_DIR || "dist",
+    allowedOrigins: (env.ALLOWED_ORIGINS ?? "").split(",").map(origin => origin.trim()).filter(Boolean),
+    trustProxy: env.TRUST_PROXY === "true",
+    endpoints: {
+      // Scripts carry uploaded documents and recorded questions inline
+      script: {
+        models: [models.script, models.utility],
+        maxBodyBytes: numberFrom(env.SCRIPT_MAX_BODY_MB, 30) * MB,
+        requestsPerMinute: numberFrom(env.SCRIPT_RPM, 30)
+      },
+      cover: {
+        models: [models.image],
+        maxBodyBytes: numberFrom(env.COVER_MAX_BODY_MB, 0.25) * MB,
+        requestsPerMinute: numberFrom(env.COVER_RPM, 10)
+      },
+      // Segmented synthesis sends one request per line, a few at a time
+      audio: {
+        models: [models.speech],
+        maxBodyBytes: numberFrom(env.AUDIO_MAX_BODY_MB, 1) * MB,
+        requestsPerMinute: numberFrom(env.AUDIO_RPM, 120)
+      }
+    }
+  };
+};
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { ApiError, GenerateContentParameters, GoogleGenAI } from "@google/genai";
+import { GeminiEndpoint } from "../types";
+import { loadServerConfig } from "./config";
+import { createRateLimiter } from "./rateLimit";
+
+/**
+ * Podcast server: holds the Gemini key and forwards the app's requests to Gemini, one endpoint
+ * per kind of model, each with its own per-client rate limit and request size limit.
+ * Also serves the built app, so a single process is all a deployment needs.
+ */
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const config = loadServerConfig();
+if (!config.apiKey) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local or the environment.");
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: config.apiKey });
+const limiters = Object.fromEntries(
+  Object.entries(config.endpoints).map(([endpoint, limits]) => [endpoint, createRateLimiter(limits.requestsPerMinute)])
+) as Record<GeminiEndpoint, ReturnType<typeof createRateLimiter>>;
+
+const API_PATH = /^\/api\/(script|cover|audio)$/;
+
+// The config each endpoint's requests may set; anything else, such as a system instruction,
+// cached content or other tools, would let a caller use the key for more than the app does
+const ALLOWED_CONFIG: Record<GeminiEndpoint, string[]> = {
+  script: ["responseMimeType", "responseSchema", "tools"],
+  cover: ["imageConfig"],
+  audio: ["responseModalities", "speechConfig"]
+};
+
+// Prompts are plain text plus the documents and images the app uploads
+const ALLOWED_PART_KEYS = ["text", "inlineData"];
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2"
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const clientAddress = (req: IncomingMessage): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (config.trustProxy && typeof forwarded === "string") return forwarded.split(",")[0].trim();
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+// Reads the body up to `limit` bytes; anything larger is drained and refused
+const readBody = (req: IncomingMessage, limit: number): Promise<Buffer> => {
+  const tooLarge = () => new HttpError(413, `Request body is larger than ${Math.round(limit / 1024)} KB.`);
+  if (Number(req.headers["content-length"]) > limit) {
+    req.resume();
+    return Promise.reject(tooLarge());
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.removeAllListeners("data");
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Accepts a string, a Content, or a list of either Contents or Parts, as the SDK does
+const checkContents = (contents: unknown) => {
+  if (typeof contents === "string") return;
+  const items = Array.isArray(contents) ? contents : [contents];
+  if (items.length === 0) throw new HttpError(400, "Request has no contents.");
+  const parts = items.flatMap(item => {
+    if (typeof item === "string") return [];
+    if (!isPlainObject(item)) throw new HttpError(400, "Request contents are malformed.");
+    if (!("parts" in item)) return [item];
+    if ((item.role !== undefined && item.role !== "user") || !Array.isArray(item.parts)) {
+      throw new HttpError(400, "Request contents are malformed.");
+    }
+    return item.parts as unknown[];
+  });
+  for (const part of parts) {
+    if (typeof part === "string") continue;
+    if (!isPlainObject(part) || Object.keys(part).length === 0) throw new HttpError(400, "Request contents are malformed.");
+    const unknown = Object.keys(part).find(key => !ALLOWED_PART_KEYS.includes(key));
+    if (unknown) throw new HttpError(400, `Request contents can't include "${unknown}".`);
+  }
+};
+
+// The app's only tool is URL context, for reading web pages given as sources
+const isUrlContextTool = (tool: unknown) =>
+  isPlainObject(tool) && Object.keys(tool).length === 1 && isPlainObject(tool.urlContext) && Object.keys(tool.urlContext).length === 0;
+
+const checkConfig = (requestConfig: unknown, endpoint: GeminiEndpoint) => {
+  if (requestConfig === undefined) return;
+  if (!isPlainObject(requestConfig)) throw new HttpError(400, "Request config is malformed.");
+  const unknown = Object.keys(requestConfig).find(key => !ALLOWED_CONFIG[endpoint].includes(key));
+  if (unknown) throw new HttpError(400, `Config "${unknown}" is not allowed on /api/${endpoint}.`);
+  const { tools } = requestConfig;
+  if (tools !== undefined && (!Array.isArray(tools) || !tools.every(isUrlContextTool))) {
+    throw new HttpError(400, `Only the URL context tool is allowed on /api/${endpoint}.`);
+  }
+};
+
+/**
+ * Keeps a generateContent call to what the app itself sends: its own models, text and uploaded
+ * files as contents, and only the config its requests use on that endpoint. Anything else,
+ * including client-supplied HTTP options that could send the key to another host, is refused.
+ */
+const parseParams = (body: Buffer, endpoint: GeminiEndpoint): GenerateContentParameters => {
+  let parsed: Partial<GenerateContentParameters>;
+  try {
+    parsed = JSON.parse(body.toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON.");
+  }
+  const { model, contents, config: requestConfig } = parsed ?? {};
+  if (typeof model !== "string" || !config.endpoints[endpoint].models.includes(model)) {
+    throw new HttpError(400, `Model "${model}" is not available on /api/${endpoint}.`);
+  }
+  if (!contents) throw new HttpError(400, "Request has no contents.");
+  checkContents(contents);
+  checkConfig(requestConfig, endpoint);
+  return { model, contents, config: requestConfig };
+};
+
+const handleApi = async (endpoint: GeminiEndpoint, req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== "POST") throw new HttpError(405, "Use POST.", { Allow: "POST" });
+
+  const retryAfter = limiters[endpoint].take(clientAddress(req));
+  if (retryAfter > 0) {
+    req.resume();
+    throw new HttpError(429, `Too many ${endpoint} requests. Try again in ${retryAfter} s.`, { "Retry-After": String(retryAfter) });
+  }
+
+  const params = parseParams(await readBody(req, config.endpoints[endpoint].maxBodyBytes), endpoint);
+
+  // Stop the upstream call when the browser cancels
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const response = await ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: controller.signal } });
+    const { sdkHttpResponse, ...body } = response;
+    sendJson(res, 200, body);
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    if (err instanceof ApiError) {
+      // The key is ours, so a rejected key is a server problem, not the caller's
+      const status = err.status === 401 || err.status === 403 ? 502 : err.status;
+      throw new HttpError(status >= 400 && status < 600 ? status : 502, err.message);
+    }
+    console.error(err);
+    throw new HttpError(502, "The podcast server couldn't reach Gemini.");
+  }
+};
+
+const serveStatic = async (req: IncomingMessage, res: ServerResponse, pathname: string) => {
+  const root = path.resolve(config.staticDir);
+  let file = path.resolve(root, `.${decodeURIComponent(pathname)}`);
+  if (!file.startsWith(root + path.sep) && file !== root) throw new HttpError(404, "Not found");
+
+  const isFile = await stat(file).then(info => info.isFile(), () => false);
+  // Anything that isn't a file gets the app itself, which does its own routing
+  if (!isFile) file = path.join(root, "index.html");
+  const contents = await readFile(file).catch(() => {
+    throw new HttpError(404, "Not found. Run \"npm run build\" to build the app.");
+  });
+  res.writeHead(200, { "Content-Type": CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream" });
+  res.end(req.method === "HEAD" ? undefined : contents);
+};
+
+const applyCors = (req: IncomingMessage, res: ServerResponse) => {
+  const origin = req.headers.origin;
+  if (!origin || !config.allowedOrigins.includes(origin)) return;
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Access-Control-Allow-Methods", "POST");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Vary", "Origin");
+};
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  const match = API_PATH.exec(pathname);
+  try {
+    if (match) {
+      applyCors(req, res);
+      if (req.method === "OPTIONS") {
+        res.writeHead(204).end();
+        return;
+      }
+      await handleApi(match[1] as GeminiEndpoint, req, res);
+    } else if (pathname.startsWith("/api/")) {
+      throw new HttpError(404, "Unknown API endpoint.");
+    } else if (req.method === "GET" || req.method === "HEAD") {
+      await serveStatic(req, res, pathname);
+    } else {
+      throw new HttpError(405, "Method not allowed.");
+    }
+  } catch (err) {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { error: err.message }, err.headers);
+      return;
+    }
+    console.error(err);
+    sendJson(res, 500, { error: "The podcast server hit an unexpected error." });
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`Podcast server listening on http://localhost:${config.port}`);
+});
\ No newline at end of file
@@ -0,0 +1,31 @@
+/**
+ * Fixed-window request counter per client. `take` returns 0 when the request may go ahead,
+ * otherwise the seconds until the client's window resets.
+ */
+export const createRateLimiter = (limit: number, windowMs = 60_000) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  // Forget clients whose window has passed, so the map doesn't grow without bound
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, client) => {
+      if (now - window.start >= windowMs) windows.delete(client);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    take(client: string, now = Date.now()): number {
+      const window = windows.get(client);
+      if (!window || now - window.start >= windowMs) {
+        windows.set(client, { start: now, count: 1 });
+        return 0;
+      }
+      if (window.count >= limit) return Math.ceil((window.start + windowMs - now) / 1000);
+      window.count++;
+      return 0;
+    }
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
\ No newline at end of file
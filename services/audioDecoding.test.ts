@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AudioDecodingError,
+  base64ToBytes,
+  decodeAudioBytes,
+  decodeAudioPart,
+  decodePcm,
+  parseAudioMimeType,
+  parseWav
+} from './audioDecoding';
+import { createTestContext } from '../test/fakeAudio';
+
+const int16Bytes = (...samples: number[]) => {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  samples.forEach((sample, i) => view.setInt16(i * 2, sample, true));
+  return bytes;
+};
+
+// A RIFF/WAVE file with a fmt chunk, optional extra chunks before the data, and the data chunk
+const wavBytes = (
+  { formatTag = 1, channels = 1, sampleRate = 24000, bitDepth = 16 },
+  data: Uint8Array,
+  before: { id: string; body: Uint8Array }[] = []
+) => {
+  const fmt = new Uint8Array(16);
+  const view = new DataView(fmt.buffer);
+  view.setUint16(0, formatTag, true);
+  view.setUint16(2, channels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * channels * bitDepth / 8, true);
+  view.setUint16(12, channels * bitDepth / 8, true);
+  view.setUint16(14, bitDepth, true);
+
+  const chunks = [{ id: 'fmt ', body: fmt }, ...before, { id: 'data', body: data }];
+  const parts = chunks.map(({ id, body }) => {
+    const out = new Uint8Array(8 + body.length + (body.length % 2));
+    out.set(Array.from(id, ch => ch.charCodeAt(0)));
+    new DataView(out.buffer).setUint32(4, body.length, true);
+    out.set(body, 8);
+    return out;
+  });
+  const size = 4 + parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(8 + size);
+  out.set(Array.from('RIFF', ch => ch.charCodeAt(0)));
+  new DataView(out.buffer).setUint32(4, size, true);
+  out.set(Array.from('WAVE', ch => ch.charCodeAt(0)), 8);
+  let offset = 12;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const errorCode = (run: () => unknown) => {
+  try {
+    run();
+  } catch (err) {
+    expect(err).toBeInstanceOf(AudioDecodingError);
+    return (err as AudioDecodingError).code;
+  }
+  throw new Error('Expected an AudioDecodingError');
+};
+
+describe('parseAudioMimeType', () => {
+  it('reads rate, channels and bit depth from a PCM mime type', () => {
+    expect(parseAudioMimeType('audio/L16;codec=pcm;rate=24000')).toEqual({ kind: 'pcm', sampleRate: 24000, channels: 1, bitDepth: 16 });
+    expect(parseAudioMimeType('audio/L24; rate=48000; channels=2')).toEqual({ kind: 'pcm', sampleRate: 48000, channels: 2, bitDepth: 24 });
+  });
+
+  it('falls back to the TTS defaults', () => {
+    expect(parseAudioMimeType('audio/pcm')).toEqual({ kind: 'pcm', sampleRate: 24000, channels: 1, bitDepth: 16 });
+  });
+
+  it('leaves container formats to the browser decoder', () => {
+    expect(parseAudioMimeType('audio/MPEG')).toEqual({ kind: 'container', mimeType: 'audio/mpeg' });
+  });
+
+  it('rejects unknown formats and bad parameters', () => {
+    expect(errorCode(() => parseAudioMimeType('video/mp4'))).toBe('UNSUPPORTED_FORMAT');
+    expect(errorCode(() => parseAudioMimeType('audio/L16;rate=fast'))).toBe('INVALID_PARAMETERS');
+    expect(errorCode(() => parseAudioMimeType('audio/L16;rate=0'))).toBe('INVALID_PARAMETERS');
+  });
+});
+
+describe('decodePcm', () => {
+  it('decodes signed 16-bit samples into [-1, 1)', () => {
+    const [channel] = decodePcm(int16Bytes(0, 16384, -32768, 32767), { kind: 'pcm', sampleRate: 24000, channels: 1, bitDepth: 16 });
+    expect(Array.from(channel)).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+
+  it('decodes unsigned 8-bit samples', () => {
+    const [channel] = decodePcm(new Uint8Array([128, 0, 192]), { kind: 'pcm', sampleRate: 8000, channels: 1, bitDepth: 8 });
+    expect(Array.from(channel)).toEqual([0, -1, 0.5]);
+  });
+
+  it('sign-extends 24-bit samples', () => {
+    const [channel] = decodePcm(new Uint8Array([0x00, 0x00, 0xc0, 0x00, 0x00, 0x40]), { kind: 'pcm', sampleRate: 48000, channels: 1, bitDepth: 24 });
+    expect(Array.from(channel)).toEqual([-0.5, 0.5]);
+  });
+
+  it('splits interleaved channels', () => {
+    const [left, right] = decodePcm(int16Bytes(16384, -16384, 8192, -8192), { kind: 'pcm', sampleRate: 24000, channels: 2, bitDepth: 16 });
+    expect(Array.from(left)).toEqual([0.5, 0.25]);
+    expect(Array.from(right)).toEqual([-0.5, -0.25]);
+  });
+
+  it('rejects data that ends mid-frame', () => {
+    expect(errorCode(() => decodePcm(new Uint8Array(3), { kind: 'pcm', sampleRate: 24000, channels: 1, bitDepth: 16 }))).toBe('MALFORMED_DATA');
+  });
+});
+
+describe('parseWav', () => {
+  it('finds the format and data past other chunks', () => {
+    const data = int16Bytes(1, 2, 3, 4);
+    const wav = parseWav(wavBytes({ channels: 2, sampleRate: 22050 }, data, [{ id: 'LIST', body: new Uint8Array(5) }]));
+    expect(wav?.format).toEqual({ kind: 'pcm', sampleRate: 22050, channels: 2, bitDepth: 16 });
+    expect(Array.from(wav!.data)).toEqual(Array.from(data));
+  });
+
+  it('returns null for WAV encodings it does not unpack', () => {
+    expect(parseWav(wavBytes({ formatTag: 3, bitDepth: 32 }, new Uint8Array(8)))).toBeNull();
+  });
+
+  it('rejects files that are not RIFF/WAVE', () => {
+    expect(errorCode(() => parseWav(new Uint8Array(16)))).toBe('MALFORMED_DATA');
+  });
+});
+
+describe('decodeAudioBytes', () => {
+  it('builds PCM buffers at the rate of the mime type', async () => {
+    const buffer = await decodeAudioBytes(int16Bytes(0, 16384), 'audio/L16;rate=24000', createTestContext(48000));
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5]);
+  });
+
+  it('keeps a PCM WAV at its own sample rate instead of the context rate', async () => {
+    const context = createTestContext(48000);
+    const decodeAudioData = vi.spyOn(context, 'decodeAudioData');
+    const buffer = await decodeAudioBytes(wavBytes({ sampleRate: 24000 }, int16Bytes(16384, -16384)), 'audio/wav', context);
+    expect(decodeAudioData).not.toHaveBeenCalled();
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -0.5]);
+  });
+
+  it('hands other containers to decodeAudioData and wraps its failure', async () => {
+    await expect(decodeAudioBytes(new Uint8Array(4), 'audio/mpeg', createTestContext())).rejects.toMatchObject({ code: 'MALFORMED_DATA' });
+  });
+
+  it('rejects empty PCM parts', async () => {
+    await expect(decodeAudioBytes(new Uint8Array(0), 'audio/pcm', createTestContext())).rejects.toMatchObject({ code: 'MALFORMED_DATA' });
+  });
+});
+
+describe('decodeAudioPart', () => {
+  it('decodes a base64 part, defaulting to TTS PCM', async () => {
+    const buffer = await decodeAudioPart({ data: btoa(String.fromCharCode(...int16Bytes(0, -32768))) }, createTestContext());
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, -1]);
+  });
+
+  it('rejects invalid base64', () => {
+    expect(errorCode(() => base64ToBytes('not base64!'))).toBe('MALFORMED_DATA');
+  });
+});
\ No newline at end of file
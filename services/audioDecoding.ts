@@ -0,0 +1,234 @@
+/**
+ * Decoding of TTS audio parts.
+ * The TTS model returns headerless little-endian PCM (e.g. `audio/L16;codec=pcm;rate=24000`),
+ * which `decodeAudioData` rejects, so PCM is converted to samples here.
+ * PCM WAV is unpacked here too, so it keeps its own sample rate instead of being
+ * resampled to the context rate. Other container formats go to the browser decoder.
+ */
+
+export type AudioDecodingErrorCode = 'UNSUPPORTED_FORMAT' | 'INVALID_PARAMETERS' | 'MALFORMED_DATA';
+
+export class AudioDecodingError extends Error {
+  constructor(public readonly code: AudioDecodingErrorCode, message: string) {
+    super(message);
+    this.name = 'AudioDecodingError';
+  }
+}
+
+export interface PcmFormat {
+  kind: 'pcm';
+  sampleRate: number;
+  channels: number;
+  bitDepth: 8 | 16 | 24 | 32;
+}
+
+export interface ContainerFormat {
+  kind: 'container';
+  mimeType: string;
+}
+
+export type AudioFormat = PcmFormat | ContainerFormat;
+
+// Gemini TTS defaults, used when the mime type leaves them out
+const DEFAULT_SAMPLE_RATE = 24000;
+const DEFAULT_CHANNELS = 1;
+
+const CONTAINER_TYPES = new Set([
+  'audio/wav', 'audio/wave', 'audio/x-wav', 'audio/vnd.wave',
+  'audio/mpeg', 'audio/mp3',
+  'audio/ogg', 'audio/opus', 'audio/webm',
+  'audio/aac', 'audio/mp4', 'audio/flac', 'audio/x-flac'
+]);
+
+const WAV_TYPES = new Set(['audio/wav', 'audio/wave', 'audio/x-wav', 'audio/vnd.wave']);
+
+const PCM_BIT_DEPTHS: Record<string, PcmFormat['bitDepth']> = {
+  'audio/l8': 8,
+  'audio/l16': 16,
+  'audio/l24': 24,
+  'audio/l32': 32,
+  'audio/pcm': 16
+};
+
+/**
+ * Parse a mime type such as `audio/L16;codec=pcm;rate=24000` into a decoding format.
+ */
+export const parseAudioMimeType = (mimeType: string): AudioFormat => {
+  const [rawType, ...rawParams] = mimeType.split(';');
+  const type = rawType.trim().toLowerCase();
+
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, value] = param.split('=');
+    if (key && value !== undefined) params[key.trim().toLowerCase()] = value.trim();
+  }
+
+  if (CONTAINER_TYPES.has(type)) {
+    return { kind: 'container', mimeType: type };
+  }
+
+  const bitDepth = PCM_BIT_DEPTHS[type] ?? (params.codec?.toLowerCase() === 'pcm' ? 16 : undefined);
+  if (!bitDepth) {
+    throw new AudioDecodingError('UNSUPPORTED_FORMAT', `Unsupported audio format "${mimeType}"`);
+  }
+
+  const sampleRate = parseIntParam(params.rate, DEFAULT_SAMPLE_RATE, mimeType);
+  const channels = parseIntParam(params.channels, DEFAULT_CHANNELS, mimeType);
+  return { kind: 'pcm', sampleRate, channels, bitDepth };
+};
+
+const parseIntParam = (value: string | undefined, fallback: number, mimeType: string): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new AudioDecodingError('INVALID_PARAMETERS', `Invalid parameter "${value}" in "${mimeType}"`);
+  }
+  return parsed;
+};
+
+/**
+ * Convert interleaved little-endian PCM into one Float32Array per channel, in [-1, 1).
+ * 8-bit PCM is unsigned, wider depths are signed two's complement.
+ */
+export const decodePcm = (bytes: Uint8Array, format: PcmFormat): Float32Array[] => {
+  const bytesPerSample = format.bitDepth / 8;
+  const frameSize = bytesPerSample * format.channels;
+  if (bytes.length % frameSize !== 0) {
+    throw new AudioDecodingError(
+      'MALFORMED_DATA',
+      `PCM data length ${bytes.length} is not a multiple of the ${frameSize}-byte frame size`
+    );
+  }
+
+  const frames = bytes.length / frameSize;
+  const channels = Array.from({ length: format.channels }, () => new Float32Array(frames));
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let ch = 0; ch < format.channels; ch++) {
+      const offset = frame * frameSize + ch * bytesPerSample;
+      channels[ch][frame] = readSample(view, offset, format.bitDepth);
+    }
+  }
+  return channels;
+};
+
+const readSample = (view: DataView, offset: number, bitDepth: PcmFormat['bitDepth']): number => {
+  switch (bitDepth) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    case 32:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+};
+
+/**
+ * Locate the format and sample data of a PCM WAV file.
+ * Returns null for float or compressed WAVs, which are left to the browser decoder.
+ */
+export const parseWav = (bytes: Uint8Array): { format: PcmFormat; data: Uint8Array } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fourCC = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || fourCC(0) !== 'RIFF' || fourCC(8) !== 'WAVE') {
+    throw new AudioDecodingError('MALFORMED_DATA', 'Not a RIFF/WAVE file');
+  }
+
+  let format: PcmFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = fourCC(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      if (size < 16 || body + 16 > bytes.length) {
+        throw new AudioDecodingError('MALFORMED_DATA', 'WAV format chunk is truncated');
+      }
+      let formatTag = view.getUint16(body, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real tag at the start of its sub-format GUID
+      if (formatTag === 0xfffe && size >= 40 && body + 26 <= bytes.length) formatTag = view.getUint16(body + 24, true);
+      const channels = view.getUint16(body + 2, true);
+      const sampleRate = view.getUint32(body + 4, true);
+      const bitDepth = view.getUint16(body + 14, true);
+      if (formatTag !== 1 || ![8, 16, 24, 32].includes(bitDepth) || channels === 0 || sampleRate === 0) return null;
+      format = { kind: 'pcm', sampleRate, channels, bitDepth: bitDepth as PcmFormat['bitDepth'] };
+    } else if (id === 'data') {
+      if (!format) throw new AudioDecodingError('MALFORMED_DATA', 'WAV data chunk comes before its format chunk');
+      // Streamed WAVs may overstate the size, and a cut-off file may end mid-frame
+      const data = bytes.subarray(body, Math.min(bytes.length, body + size));
+      const frameSize = (format.bitDepth / 8) * format.channels;
+      return { format, data: data.subarray(0, data.length - (data.length % frameSize)) };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new AudioDecodingError('MALFORMED_DATA', 'WAV file has no data chunk');
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  let binaryString: string;
+  try {
+    binaryString = atob(base64);
+  } catch {
+    throw new AudioDecodingError('MALFORMED_DATA', 'Audio data is not valid base64');
+  }
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Decode an inline audio part returned by the model into an AudioBuffer.
+ */
+export const decodeAudioPart = async (
+  part: { data: string; mimeType?: string },
+  audioContext: Pick<BaseAudioContext, 'createBuffer' | 'decodeAudioData'>
+): Promise<AudioBuffer> => {
+  return decodeAudioBytes(base64ToBytes(part.data), part.mimeType || 'audio/pcm', audioContext);
+};
+
+/**
+ * Decode raw bytes of the given mime type into an AudioBuffer.
+ */
+export const decodeAudioBytes = async (
+  bytes: Uint8Array,
+  mimeType: string,
+  audioContext: Pick<BaseAudioContext, 'createBuffer' | 'decodeAudioData'>
+): Promise<AudioBuffer> => {
+  const format = parseAudioMimeType(mimeType);
+
+  if (format.kind === 'container') {
+    const wav = WAV_TYPES.has(format.mimeType) ? parseWav(bytes) : null;
+    if (wav) return createPcmBuffer(wav.data, wav.format, audioContext);
+    try {
+      // decodeAudioData detaches its input, so hand it a copy
+      return await audioContext.decodeAudioData(bytes.slice().buffer);
+    } catch (err) {
+      throw new AudioDecodingError('MALFORMED_DATA', `Could not decode ${format.mimeType} audio: ${(err as Error)?.message ?? err}`);
+    }
+  }
+
+  return createPcmBuffer(bytes, format, audioContext);
+};
+
+const createPcmBuffer = (
+  bytes: Uint8Array,
+  format: PcmFormat,
+  audioContext: Pick<BaseAudioContext, 'createBuffer'>
+): AudioBuffer => {
+  const channels = decodePcm(bytes, format);
+  const frames = channels[0].length;
+  if (frames === 0) {
+    throw new AudioDecodingError('MALFORMED_DATA', 'Audio part contains no samples');
+  }
+
+  const buffer = audioContext.createBuffer(format.channels, frames, format.sampleRate);
+  channels.forEach((data, ch) => buffer.copyToChannel(data, ch));
+  return buffer;
+};
\ No newline at end of file
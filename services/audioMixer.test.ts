@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { detectSpeechRegions, normalizeLoudness } from "./audioMixer";
+import { measureLoudness, peakAmplitude } from "./loudness";
+import { createTestBuffer, sine } from "../test/fakeAudio";
+
+describe("normalizeLoudness", () => {
+  it("brings a quiet buffer to the target loudness", () => {
+    const buffer = createTestBuffer([sine(1000, 3, 48000, 0.05)], 48000);
+    normalizeLoudness(buffer, -16);
+    expect(measureLoudness(buffer)).toBeCloseTo(-16, 1);
+  });
+
+  it("backs off rather than push peaks past -1 dBFS", () => {
+    const buffer = createTestBuffer([sine(1000, 3, 48000, 0.5)], 48000);
+    normalizeLoudness(buffer, -3);
+    expect(peakAmplitude(buffer)).toBeCloseTo(10 ** (-1 / 20), 3);
+  });
+
+  it("leaves silence alone", () => {
+    const buffer = createTestBuffer([new Float32Array(48000)], 48000);
+    normalizeLoudness(buffer, -16);
+    expect(peakAmplitude(buffer)).toBe(0);
+  });
+});
+
+describe("detectSpeechRegions", () => {
+  it("finds speech and bridges short pauses", () => {
+    const sampleRate = 8000;
+    const data = new Float32Array(sampleRate * 4);
+    data.set(sine(200, 1, sampleRate, 0.2), 0); // 0-1 s
+    data.set(sine(200, 0.5, sampleRate, 0.2), sampleRate * 1.2); // 1.2-1.7 s, after a short pause
+    data.set(sine(200, 0.5, sampleRate, 0.2), sampleRate * 3); // 3-3.5 s, after a long one
+
+    const regions = detectSpeechRegions(createTestBuffer([data], sampleRate));
+    expect(regions).toHaveLength(2);
+    expect(regions[0].start).toBeCloseTo(0, 1);
+    expect(regions[0].end).toBeCloseTo(1.7, 1);
+    expect(regions[1].start).toBeCloseTo(3, 1);
+    expect(regions[1].end).toBeCloseTo(3.5, 1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { AppliedMix, MixAssets, MixSettings } from "../types";
+import { measureLoudness, peakAmplitude } from "./loudness";
+
+/**
+ * Post-production: lays the dry speech track between optional intro/outro stingers over
+ * a looping music bed that ducks under speech, applies fades, renders everything with an
+ * OfflineAudioContext and normalizes the result to a target loudness.
+ */
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface MixResult {
+  audioBuffer: AudioBuffer;
+  mix: AppliedMix;
+}
+
+// Music is the limiting factor for quality, so mix at CD rate in stereo
+const MIX_SAMPLE_RATE = 44100;
+const MIX_CHANNELS = 2;
+const PEAK_CEILING_DB = -1;
+
+// Speech detection for ducking
+const ENVELOPE_WINDOW_SECONDS = 0.05;
+const SPEECH_THRESHOLD_DB = -45;
+const DUCK_HOLD_SECONDS = 0.5; // Shorter pauses keep the bed ducked
+const DUCK_ATTACK_SECONDS = 0.15;
+const DUCK_RELEASE_SECONDS = 0.6;
+const BED_FADE_SECONDS = 1;
+
+const dbToGain = (db: number) => 10 ** (db / 20);
+
+/**
+ * Stretches of the buffer where someone is speaking, from a windowed RMS envelope.
+ * Pauses shorter than the hold time are bridged so the bed doesn't pump between words.
+ */
+export const detectSpeechRegions = (audioBuffer: AudioBuffer): TimeRange[] => {
+  const window = Math.max(1, Math.round(ENVELOPE_WINDOW_SECONDS * audioBuffer.sampleRate));
+  const threshold = dbToGain(SPEECH_THRESHOLD_DB);
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, ch) => audioBuffer.getChannelData(ch));
+  const regions: TimeRange[] = [];
+
+  for (let start = 0; start < audioBuffer.length; start += window) {
+    const end = Math.min(audioBuffer.length, start + window);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) sum += data[i] * data[i];
+    }
+    if (Math.sqrt(sum / ((end - start) * channels.length)) < threshold) continue;
+
+    const range = { start: start / audioBuffer.sampleRate, end: end / audioBuffer.sampleRate };
+    const last = regions[regions.length - 1];
+    if (last && range.start - last.end < DUCK_HOLD_SECONDS) last.end = range.end;
+    else regions.push(range);
+  }
+  return regions;
+};
+
+const playAt = (ctx: BaseAudioContext, buffer: AudioBuffer, when: number, destination: AudioNode) => {
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(destination);
+  source.start(when);
+  return source;
+};
+
+// Bed gain automation: fade in after the intro, duck around each speech region, fade out before the outro
+const scheduleBed = (gain: AudioParam, speechRegions: TimeRange[], from: number, to: number, settings: MixSettings) => {
+  const level = dbToGain(settings.bedVolumeDb);
+  const ducked = dbToGain(settings.bedVolumeDb + settings.duckingDb);
+  let last = from;
+  const target = (value: number, at: number, seconds: number) => {
+    last = Math.min(to, Math.max(last, at));
+    gain.setTargetAtTime(value, last, seconds / 3);
+  };
+
+  gain.setValueAtTime(0, from);
+  target(level, from, BED_FADE_SECONDS);
+  speechRegions.forEach(region => {
+    target(ducked, from + region.start - DUCK_ATTACK_SECONDS, DUCK_ATTACK_SECONDS);
+    target(level, from + region.end, DUCK_RELEASE_SECONDS);
+  });
+  target(0, to - BED_FADE_SECONDS, BED_FADE_SECONDS);
+};
+
+const scheduleFades = (gain: AudioParam, duration: number, { fadeInSeconds, fadeOutSeconds }: MixSettings) => {
+  // Fades never overlap, even on very short episodes
+  const fadeIn = Math.min(fadeInSeconds, duration / 2);
+  const fadeOut = Math.min(fadeOutSeconds, duration / 2);
+  gain.setValueAtTime(fadeIn > 0 ? 0 : 1, 0);
+  if (fadeIn > 0) gain.linearRampToValueAtTime(1, fadeIn);
+  if (fadeOut > 0) {
+    gain.setValueAtTime(1, duration - fadeOut);
+    gain.linearRampToValueAtTime(0, duration);
+  }
+};
+
+/**
+ * Scale the buffer in place toward the target loudness, backing off if that would push
+ * peaks past the ceiling. This is a plain gain change, not a limiter.
+ */
+export const normalizeLoudness = (audioBuffer: AudioBuffer, targetLufs: number) => {
+  const loudness = measureLoudness(audioBuffer);
+  if (!Number.isFinite(loudness)) return;
+
+  let gain = dbToGain(targetLufs - loudness);
+  const peak = peakAmplitude(audioBuffer) * gain;
+  const ceiling = dbToGain(PEAK_CEILING_DB);
+  if (peak > ceiling) gain *= ceiling / peak;
+
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    const data = audioBuffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) data[i] *= gain;
+  }
+};
+
+/**
+ * Render the final episode from the dry speech track. The dry buffer is left untouched,
+ * so the mix can be redone with other settings or assets.
+ */
+export const mixEpisode = async (dry: AudioBuffer, settings: MixSettings, assets: MixAssets): Promise<MixResult> => {
+  const speechOffset = assets.intro?.buffer.duration ?? 0;
+  const outroStart = speechOffset + dry.duration;
+  const duration = outroStart + (assets.outro?.buffer.duration ?? 0);
+
+  const ctx = new OfflineAudioContext(MIX_CHANNELS, Math.ceil(duration * MIX_SAMPLE_RATE), MIX_SAMPLE_RATE);
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+  scheduleFades(master.gain, duration, settings);
+
+  if (assets.intro) playAt(ctx, assets.intro.buffer, 0, master);
+  playAt(ctx, dry, speechOffset, master);
+  if (assets.outro) playAt(ctx, assets.outro.buffer, outroStart, master);
+
+  if (assets.bed) {
+    const bedGain = ctx.createGain();
+    bedGain.connect(master);
+    scheduleBed(bedGain.gain, detectSpeechRegions(dry), speechOffset, outroStart, settings);
+    const bed = playAt(ctx, assets.bed.buffer, speechOffset, bedGain);
+    bed.loop = true;
+    bed.stop(outroStart);
+  }
+
+  const audioBuffer = await ctx.startRendering();
+  normalizeLoudness(audioBuffer, settings.targetLufs);
+
+  return {
+    audioBuffer,
+    mix: {
+      settings,
+      speechOffset,
+      assetNames: {
+        intro: assets.intro?.name ?? null,
+        outro: assets.outro?.name ?? null,
+        bed: assets.bed?.name ?? null
+      }
+    }
+  };
+};
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { AudioPlayer } from "../types";
+import { createAudioPlayer } from "./audioPlayer";
+import { createTestBuffer } from "../test/fakeAudio";
+
+interface FakeSource {
+  buffer: AudioBuffer | null;
+  playbackRate: { value: number };
+  onended: (() => void) | null;
+  startedFrom: number | null; // Offset passed to start()
+  stopped: boolean;
+  connect: () => void;
+  disconnect: () => void;
+  start: (when: number, offset: number) => void;
+  stop: () => void;
+}
+
+// A context whose clock only moves when the test says so, recording every source it hands out
+const createClockContext = () => {
+  const sources: FakeSource[] = [];
+  const node = () => ({ connect: () => {}, disconnect: () => {} });
+  const context = {
+    currentTime: 0,
+    state: "running",
+    destination: node(),
+    resume: async () => {},
+    createGain: () => ({ ...node(), gain: { value: 1 } }),
+    createAnalyser: () => ({ ...node(), fftSize: 0 }),
+    createBufferSource: () => {
+      const source: FakeSource = {
+        ...node(),
+        buffer: null,
+        playbackRate: { value: 1 },
+        onended: null,
+        startedFrom: null,
+        stopped: false,
+        start: (_when, offset) => { source.startedFrom = offset; },
+        stop: () => { source.stopped = true; }
+      };
+      sources.push(source);
+      return source;
+    }
+  };
+  return { context, sources, advance: (seconds: number) => { context.currentTime += seconds; } };
+};
+
+describe("createAudioPlayer", () => {
+  let clock: ReturnType<typeof createClockContext>;
+  let player: AudioPlayer;
+  const latest = () => clock.sources[clock.sources.length - 1];
+
+  beforeEach(() => {
+    clock = createClockContext();
+    player = createAudioPlayer(clock.context as unknown as AudioContext);
+    player.load(createTestBuffer([new Float32Array(60 * 8000)], 8000)); // One minute
+  });
+
+  it("resumes from where it was paused", () => {
+    player.play();
+    clock.advance(10);
+    player.pause();
+    clock.advance(30);
+    expect(player.getState()).toMatchObject({ isPlaying: false, position: 10 });
+
+    player.play();
+    expect(latest().startedFrom).toBe(10);
+    clock.advance(5);
+    expect(player.getPosition()).toBe(15);
+  });
+
+  it("keeps the position when a stopped source reports its end late", () => {
+    player.play();
+    clock.advance(10);
+    const stopped = latest();
+    player.pause();
+    stopped.onended?.();
+    expect(player.getPosition()).toBe(10);
+  });
+
+  it("rests at the end after finishing and starts over on play", () => {
+    player.play();
+    clock.advance(60);
+    latest().onended?.();
+    expect(player.getState()).toMatchObject({ isPlaying: false, position: 60 });
+
+    player.play();
+    expect(latest().startedFrom).toBe(0);
+  });
+
+  it("seeks while paused and while playing", () => {
+    player.seek(20);
+    expect(player.getPosition()).toBe(20);
+
+    player.play();
+    clock.advance(5);
+    player.seek(40);
+    expect(clock.sources[0].stopped).toBe(true);
+    expect(latest().startedFrom).toBe(40);
+    clock.advance(1);
+    expect(player.getPosition()).toBe(41);
+  });
+
+  it("clamps skips to the episode", () => {
+    player.skip(-15);
+    expect(player.getPosition()).toBe(0);
+    player.skip(90);
+    expect(player.getPosition()).toBe(60);
+  });
+
+  it("counts time at the rate it was played at", () => {
+    player.play();
+    clock.advance(10);
+    player.setRate(2);
+    expect(latest().playbackRate.value).toBe(2);
+    clock.advance(10);
+    expect(player.getPosition()).toBe(30);
+  });
+
+  it("clamps the volume and notifies subscribers", () => {
+    const volumes: number[] = [];
+    player.subscribe(state => volumes.push(state.volume));
+    player.setVolume(1.5);
+    player.setVolume(-1);
+    expect(volumes).toEqual([1, 0]);
+  });
+});
\ No newline at end of file
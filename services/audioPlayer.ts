@@ -0,0 +1,143 @@
+import { AudioPlayer, PlaybackState } from "../types";
+
+const ANALYSER_FFT_SIZE = 2048;
+
+/**
+ * Transport for an AudioBuffer on top of Web Audio.
+ * The player owns one persistent chain, gain -> analyser -> destination, for its whole
+ * lifetime; each playing source feeds the gain, so listeners of the analyser never
+ * need to reconnect.
+ *
+ * AudioBufferSourceNodes are single-use, so every play or seek starts a fresh one.
+ * Position is derived from the context clock: the offset at which the current source
+ * started plus elapsed context time scaled by the playback rate.
+ */
+export const createAudioPlayer = (audioContext: AudioContext): AudioPlayer => {
+  const gain = audioContext.createGain();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+  gain.connect(analyser);
+  analyser.connect(audioContext.destination);
+
+  let buffer: AudioBuffer | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let offset = 0; // Buffer position when the current source started, or where playback is paused
+  let startedAt = 0; // audioContext.currentTime when the current source started
+  let rate = 1;
+  const listeners = new Set<(state: PlaybackState) => void>();
+
+  const duration = () => buffer?.duration ?? 0;
+  const clamp = (seconds: number) => Math.min(Math.max(0, seconds), duration());
+
+  const getPosition = () =>
+    source ? clamp(offset + (audioContext.currentTime - startedAt) * rate) : offset;
+
+  const getState = (): PlaybackState => ({
+    isPlaying: source !== null,
+    position: getPosition(),
+    duration: duration(),
+    rate,
+    volume: gain.gain.value
+  });
+
+  const notify = () => {
+    const state = getState();
+    listeners.forEach(listener => listener(state));
+  };
+
+  // Stops the current source without touching the position bookkeeping
+  const stopSource = () => {
+    if (!source) return;
+    const stopping = source;
+    source = null; // Cleared first so its onended knows it was stopped, not finished
+    stopping.onended = null;
+    try { stopping.stop(); } catch (e) {}
+    stopping.disconnect();
+  };
+
+  const startSource = (from: number) => {
+    if (!buffer) return;
+    const next = audioContext.createBufferSource();
+    next.buffer = buffer;
+    next.playbackRate.value = rate;
+    next.connect(gain);
+    next.onended = () => {
+      if (source !== next) return;
+      // Reached the end naturally
+      source = null;
+      offset = duration();
+      notify();
+    };
+    offset = from;
+    startedAt = audioContext.currentTime;
+    source = next;
+    next.start(0, from);
+  };
+
+  const play = () => {
+    if (!buffer || source) return;
+    if (audioContext.state === "suspended") audioContext.resume();
+    // Playing from the very end starts over
+    startSource(offset >= duration() ? 0 : offset);
+    notify();
+  };
+
+  const pause = () => {
+    if (!source) return;
+    offset = getPosition();
+    stopSource();
+    notify();
+  };
+
+  const seek = (seconds: number) => {
+    const target = clamp(seconds);
+    if (source) {
+      stopSource();
+      startSource(target);
+    } else {
+      offset = target;
+    }
+    notify();
+  };
+
+  return {
+    analyser,
+    load: (next) => {
+      stopSource();
+      buffer = next;
+      offset = 0;
+      notify();
+    },
+    play,
+    pause,
+    toggle: () => (source ? pause() : play()),
+    seek,
+    skip: (deltaSeconds) => seek(getPosition() + deltaSeconds),
+    setRate: (next) => {
+      if (source) {
+        // Rebase so time already played is counted at the old rate
+        offset = getPosition();
+        startedAt = audioContext.currentTime;
+        source.playbackRate.value = next;
+      }
+      rate = next;
+      notify();
+    },
+    setVolume: (volume) => {
+      gain.gain.value = Math.min(Math.max(0, volume), 1);
+      notify();
+    },
+    getPosition,
+    getState,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    dispose: () => {
+      stopSource();
+      listeners.clear();
+      gain.disconnect();
+      analyser.disconnect();
+    }
+  };
+};
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { DialogueLine, LineTiming, StitchOptions } from "../types";
+
+// Copies buffers back to back, each after its gap of silence (in samples)
+const concatenate = (
+  buffers: AudioBuffer[],
+  gaps: number[],
+  sampleRate: number,
+  audioContext: BaseAudioContext
+): { audioBuffer: AudioBuffer; lineTimings: LineTiming[] } => {
+  const channels = Math.max(1, ...buffers.map(b => b.numberOfChannels));
+  const length = buffers.reduce((sum, b, i) => sum + gaps[i] + b.length, 0) + (gaps[buffers.length] ?? 0);
+  const output = audioContext.createBuffer(channels, Math.max(1, length), sampleRate);
+
+  const lineTimings: LineTiming[] = [];
+  let offset = 0;
+  buffers.forEach((buffer, i) => {
+    offset += gaps[i];
+    for (let ch = 0; ch < channels; ch++) {
+      // Mono buffers are copied into every output channel
+      output.copyToChannel(buffer.getChannelData(Math.min(ch, buffer.numberOfChannels - 1)), ch, offset);
+    }
+    lineTimings.push({ start: offset / sampleRate, end: (offset + buffer.length) / sampleRate });
+    offset += buffer.length;
+  });
+
+  return { audioBuffer: output, lineTimings };
+};
+
+/**
+ * Joins per-line segments into one buffer, inserting silence between lines.
+ * `speakers[i]` is the speaker of `segments[i]` and decides which gap applies.
+ */
+export const stitchSegments = (
+  segments: AudioBuffer[],
+  speakers: string[],
+  options: StitchOptions,
+  audioContext: BaseAudioContext
+): { audioBuffer: AudioBuffer; lineTimings: LineTiming[] } => {
+  const sampleRate = segments[0]?.sampleRate ?? audioContext.sampleRate;
+  const gaps = segments.map((_, i) => {
+    if (i === 0) return 0;
+    const gapMs = speakers[i] === speakers[i - 1] ? options.sameSpeakerGapMs : options.speakerChangeGapMs;
+    return Math.round((gapMs / 1000) * sampleRate);
+  });
+  return concatenate(segments, gaps, sampleRate, audioContext);
+};
+
+/**
+ * Joins synthesized takes with the silence each asked for after it (in seconds).
+ * A null take is a pause on its own and only contributes its silence.
+ */
+export const joinTakes = (
+  takes: (AudioBuffer | null)[],
+  pausesAfter: number[],
+  audioContext: BaseAudioContext
+): AudioBuffer => {
+  const sampleRate = takes.find(take => take)?.sampleRate ?? audioContext.sampleRate;
+  const buffers: AudioBuffer[] = [];
+  const gaps = [0];
+  takes.forEach((take, i) => {
+    if (take) {
+      buffers.push(take);
+      gaps.push(0);
+    }
+    gaps[gaps.length - 1] += Math.round(pausesAfter[i] * sampleRate);
+  });
+  return concatenate(buffers, gaps, sampleRate, audioContext).audioBuffer;
+};
+
+/**
+ * Approximate line timings when synthesis didn't record them:
+ * each line gets a share of the total duration proportional to its text length.
+ */
+export const estimateLineTimings = (dialogue: DialogueLine[], duration: number): LineTiming[] => {
+  const weights = dialogue.map(line => Math.max(1, line.text.length));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let start = 0;
+  return weights.map(weight => {
+    const end = start + (weight / total) * duration;
+    const timing = { start, end };
+    start = end;
+    return timing;
+  });
+};
+
+/**
+ * Index of the line being heard at `position`: the last line that has started,
+ * so the previous line stays current through the gap before the next one.
+ * Returns -1 before the first line starts.
+ */
+export const lineIndexAt = (lineTimings: LineTiming[], position: number): number => {
+  let low = 0;
+  let high = lineTimings.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lineTimings[mid].start <= position) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Cut a stitched buffer back into per-line segments using its recorded timings.
+ * Lets episodes restored from storage keep supporting line re-recording.
+ */
+export const sliceSegments = (
+  audioBuffer: AudioBuffer,
+  lineTimings: LineTiming[],
+  audioContext: BaseAudioContext
+): AudioBuffer[] => lineTimings.map(({ start, end }) => {
+  const from = Math.min(audioBuffer.length, Math.round(start * audioBuffer.sampleRate));
+  const to = Math.min(audioBuffer.length, Math.round(end * audioBuffer.sampleRate));
+  const segment = audioContext.createBuffer(audioBuffer.numberOfChannels, Math.max(1, to - from), audioBuffer.sampleRate);
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    segment.copyToChannel(audioBuffer.getChannelData(ch).subarray(from, to), ch);
+  }
+  return segment;
+});
\ No newline at end of file
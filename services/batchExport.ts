@@ -0,0 +1,52 @@
+import { COVER_EXPORT_SIZES } from "../constants";
+import { loadEpisode } from "./episodeLibrary";
+import { buildEpisodeMetadata, downloadBlob, episodeFileName } from "./episodeExport";
+import { encodeMp3 } from "./mp3Encoder";
+import { renderTranscript } from "./transcriptExport";
+import { renderCoverBlob } from "./coverCompositor";
+import { ZipEntry, createZip } from "./zipArchive";
+import { throwIfAborted } from "./errors";
+
+const COVER_SIZE = COVER_EXPORT_SIZES[COVER_EXPORT_SIZES.length - 1];
+
+const encoder = new TextEncoder();
+
+/**
+ * Batch mode's bulk export: one zip with the MP3, SRT subtitles and cover art of each
+ * library episode, loaded and encoded one at a time to keep memory flat.
+ */
+export const exportEpisodeArchive = async (
+  episodeIds: string[],
+  audioContext: BaseAudioContext,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const files: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+
+  for (const [i, id] of episodeIds.entries()) {
+    throwIfAborted(signal);
+    onProgress?.(i, episodeIds.length);
+    const episode = await loadEpisode(id, audioContext);
+
+    // Batches often share a title pattern; file names can't collide
+    const stem = episodeFileName(episode, "mp3").slice(0, -".mp3".length);
+    let base = stem;
+    for (let n = 2; usedNames.has(base); n++) base = `${stem}-${n}`;
+    usedNames.add(base);
+
+    if (episode.audioBuffer) {
+      files.push({ path: `${base}.mp3`, bytes: await encodeMp3(episode.audioBuffer, buildEpisodeMetadata(episode)) });
+    }
+    files.push({ path: `${base}.srt`, bytes: encoder.encode(renderTranscript(episode, "srt").text) });
+    const design = episode.cover ?? (episode.coverImageBase64 ? { sourceImage: episode.coverImageBase64, overlay: null } : null);
+    if (design) {
+      const blob = await renderCoverBlob(design, { title: episode.script.title, showName: null }, COVER_SIZE);
+      files.push({ path: `${base}.jpg`, bytes: new Uint8Array(await blob.arrayBuffer()) });
+    }
+  }
+  onProgress?.(episodeIds.length, episodeIds.length);
+
+  const zip = createZip(files);
+  downloadBlob(new Blob([zip], { type: "application/zip" }), `batch-${episodeIds.length}-episodes.zip`);
+};
\ No newline at end of file
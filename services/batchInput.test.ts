@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EPISODE_FORMAT } from "../constants";
+import { parseBatchCsv } from "./batchInput";
+
+describe("parseBatchCsv", () => {
+  it("applies each row's overrides to the defaults", () => {
+    const { topics, problems } = parseBatchCsv("topic,minutes\nTide pools,3\nComets,", DEFAULT_EPISODE_FORMAT);
+    expect(problems).toEqual([]);
+    expect(topics).toEqual([
+      { topic: "Tide pools", format: { ...DEFAULT_EPISODE_FORMAT, targetMinutes: 3 } },
+      { topic: "Comets", format: DEFAULT_EPISODE_FORMAT }
+    ]);
+  });
+
+  it("reports problems by their line in the file, past blank lines and multi-line fields", () => {
+    const csv = 'topic,minutes\n\nTide pools,3\n"Comets,\nand how they glow",3\n\r\n,4\nVolcanoes,999';
+    const { topics, problems } = parseBatchCsv(csv, DEFAULT_EPISODE_FORMAT);
+    expect(topics.map(row => row.topic)).toEqual(["Tide pools", "Comets,\nand how they glow"]);
+    expect(problems).toEqual([
+      "Row 7: no topic",
+      expect.stringMatching(/^Row 8: minutes must be between/)
+    ]);
+  });
+
+  it("takes the first column as the topic without a header", () => {
+    const { topics } = parseBatchCsv("Tide pools,3\n\nComets", DEFAULT_EPISODE_FORMAT);
+    expect(topics.map(row => row.topic)).toEqual(["Tide pools", "Comets"]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { AudienceLevel, BatchTopic, EpisodeFormat, TonePreset } from "../types";
+import { AUDIENCE_LEVELS, EPISODE_LANGUAGES, MAX_EPISODE_MINUTES, MIN_EPISODE_MINUTES, TONE_PRESETS } from "../constants";
+import { parseTopicList } from "./series";
+
+/**
+ * Batch mode input: a plain topic list, or a CSV whose optional columns override the
+ * current format per row.
+ */
+
+export interface BatchInput {
+  topics: BatchTopic[];
+  problems: string[]; // Rows that were skipped, and why
+}
+
+interface CsvRow {
+  cells: string[];
+  line: number; // Where the row starts in the file, counting from 1, so blank lines still count
+}
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push({ cells: row, line: rowLine });
+  return rows
+    .map(row => ({ ...row, cells: row.cells.map(cell => cell.trim()) }))
+    .filter(({ cells }) => cells.some(Boolean));
+};
+
+// Matches a key or its label, ignoring case
+const lookup = <K extends string>(options: Record<K, { label: string }>, value: string): K | undefined => {
+  const wanted = value.toLowerCase();
+  return (Object.keys(options) as K[]).find(key => key === wanted || options[key].label.toLowerCase() === wanted);
+};
+
+const applyOverrides = (defaults: EpisodeFormat, cells: Record<string, string>): EpisodeFormat | string => {
+  const format: EpisodeFormat = { ...defaults };
+  if (cells.minutes) {
+    const minutes = Number(cells.minutes);
+    if (!Number.isFinite(minutes) || minutes < MIN_EPISODE_MINUTES || minutes > MAX_EPISODE_MINUTES) {
+      return `minutes must be between ${MIN_EPISODE_MINUTES} and ${MAX_EPISODE_MINUTES}`;
+    }
+    format.targetMinutes = minutes;
+  }
+  if (cells.tone) {
+    const tone = lookup<TonePreset>(TONE_PRESETS, cells.tone);
+    if (!tone) return `unknown tone "${cells.tone}"`;
+    format.tone = tone;
+  }
+  if (cells.audience) {
+    const audience = lookup<AudienceLevel>(AUDIENCE_LEVELS, cells.audience);
+    if (!audience) return `unknown audience "${cells.audience}"`;
+    format.audience = audience;
+  }
+  if (cells.language) {
+    const wanted = cells.language.toLowerCase();
+    const language = EPISODE_LANGUAGES.find(l => l.code === wanted || l.label.toLowerCase() === wanted);
+    if (!language) return `unknown language "${cells.language}"`;
+    format.language = language.code;
+  }
+  return format;
+};
+
+export const parseBatchList = (text: string, defaults: EpisodeFormat): BatchInput => ({
+  topics: parseTopicList(text).map(topic => ({ topic, format: defaults })),
+  problems: []
+});
+
+/**
+ * A header row names the columns: `topic` plus any of `minutes`, `tone`, `audience` and
+ * `language`. Without a `topic` header, the first column of every row is the topic.
+ */
+export const parseBatchCsv = (text: string, defaults: EpisodeFormat): BatchInput => {
+  const rows = parseCsv(text);
+  const header = (rows[0]?.cells ?? []).map(cell => cell.toLowerCase());
+  if (!header.includes("topic")) {
+    return { topics: rows.map(row => ({ topic: row.cells[0], format: defaults })).filter(row => row.topic), problems: [] };
+  }
+
+  const topics: BatchTopic[] = [];
+  const problems: string[] = [];
+  rows.slice(1).forEach(row => {
+    const cells = Object.fromEntries(header.map((name, column) => [name, row.cells[column] ?? ""]));
+    const rowNumber = row.line;
+    if (!cells.topic) {
+      problems.push(`Row ${rowNumber}: no topic`);
+      return;
+    }
+    const format = applyOverrides(defaults, cells);
+    if (typeof format === "string") problems.push(`Row ${rowNumber}: ${format}`);
+    else topics.push({ topic: cells.topic, format });
+  });
+  return { topics, problems };
+};
\ No newline at end of file
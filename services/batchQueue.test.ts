@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { BatchJob, BatchQueueState } from "../types";
+import { BatchJobRunner, createBatchQueue } from "./batchQueue";
+
+// A runner whose runs only finish when the test settles them
+const createControlledRunner = () => {
+  const runs: { signal: AbortSignal; resolve: () => void; reject: (err: unknown) => void }[] = [];
+  const run: BatchJobRunner = (_job, _update, signal) =>
+    new Promise<void>((resolve, reject) => runs.push({ signal, resolve, reject }));
+  return { run, runs };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const jobInput = { topic: "Tide pools" } as unknown as BatchJob;
+
+const statusOf = (state: BatchQueueState) => state.jobs[0].status;
+
+describe("createBatchQueue", () => {
+  it("lets an old run unwind without touching the job after a quick pause and resume", async () => {
+    const { run, runs } = createControlledRunner();
+    const queue = createBatchQueue(run);
+    queue.add([{ ...jobInput, id: "a" }]);
+    expect(runs).toHaveLength(1);
+
+    queue.pause("a");
+    queue.resume("a");
+    expect(runs).toHaveLength(2);
+    expect(runs[0].signal.aborted).toBe(true);
+
+    // The aborted first run settles after the second has started
+    runs[0].reject(new DOMException("Aborted", "AbortError"));
+    await flush();
+    expect(statusOf(queue.getState())).toBe("running");
+
+    // The live run can still be paused
+    queue.pause("a");
+    expect(runs[1].signal.aborted).toBe(true);
+    expect(statusOf(queue.getState())).toBe("paused");
+  });
+
+  it("marks a job done only when its current run finishes", async () => {
+    const { run, runs } = createControlledRunner();
+    const queue = createBatchQueue(run);
+    queue.add([{ ...jobInput, id: "a" }]);
+    queue.pause("a");
+    queue.resume("a");
+
+    runs[0].resolve();
+    await flush();
+    expect(statusOf(queue.getState())).toBe("running");
+
+    runs[1].resolve();
+    await flush();
+    expect(statusOf(queue.getState())).toBe("done");
+  });
+});
\ No newline at end of file
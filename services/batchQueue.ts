@@ -0,0 +1,159 @@
+import { BatchJob, BatchQueue, BatchQueueState, LoadingStage } from "../types";
+import { BATCH_COOLDOWN_MS, BATCH_RATE_LIMIT_REQUEUES, DEFAULT_BATCH_CONCURRENCY } from "../constants";
+import { classifyError } from "./errors";
+
+/**
+ * Runs one batch job to completion. `update` reports its stage and progress; `signal`
+ * aborts when the job is paused or removed.
+ */
+export type BatchJobRunner = (
+  job: BatchJob,
+  update: (patch: Partial<BatchJob>) => void,
+  signal: AbortSignal
+) => Promise<void>;
+
+/**
+ * Queue for batch mode. Up to `concurrency` jobs run at once, in the order they were added.
+ * A rate-limited job goes back to the front of the queue and nothing new starts until a
+ * cooldown has passed; a reached spending cap pauses the whole queue.
+ * Pausing a running job aborts it; resuming starts it again, keeping a script already written.
+ */
+export const createBatchQueue = (run: BatchJobRunner): BatchQueue => {
+  let state: BatchQueueState = { jobs: [], paused: false, concurrency: DEFAULT_BATCH_CONCURRENCY, cooldownUntil: null };
+  const controllers = new Map<string, AbortController>();
+  const requeues = new Map<string, number>();
+  const listeners = new Set<(state: BatchQueueState) => void>();
+  let cooldownTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setState = (next: Partial<BatchQueueState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const updateJob = (id: string, patch: Partial<BatchJob>) =>
+    setState({ jobs: state.jobs.map(job => job.id === id ? { ...job, ...patch } : job) });
+
+  const findJob = (id: string) => state.jobs.find(job => job.id === id);
+
+  const startCooldown = () => {
+    if (cooldownTimer) clearTimeout(cooldownTimer);
+    setState({ cooldownUntil: Date.now() + BATCH_COOLDOWN_MS });
+    cooldownTimer = setTimeout(() => {
+      cooldownTimer = null;
+      setState({ cooldownUntil: null });
+      pump();
+    }, BATCH_COOLDOWN_MS);
+  };
+
+  const finish = (id: string, err: unknown) => {
+    const job = findJob(id);
+    // Paused or removed while running; the abort is expected
+    if (!job || job.status !== "running") return;
+    const failure = classifyError(err);
+    if (failure.category === "quota" && (requeues.get(id) ?? 0) < BATCH_RATE_LIMIT_REQUEUES) {
+      requeues.set(id, (requeues.get(id) ?? 0) + 1);
+      updateJob(id, { status: "queued", stage: LoadingStage.IDLE, progress: null });
+      // Back to the front, so it's next once the cooldown ends
+      setState({ jobs: [findJob(id)!, ...state.jobs.filter(other => other.id !== id)] });
+      startCooldown();
+      return;
+    }
+    if (failure.category === "budget") setState({ paused: true });
+    updateJob(id, { status: "failed", stage: LoadingStage.ERROR, progress: null, error: failure.message });
+  };
+
+  const start = (job: BatchJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    // A job paused and resumed quickly can have its old run still unwinding; only the latest run may touch it
+    const isCurrent = () => controllers.get(job.id) === controller;
+    updateJob(job.id, { status: "running", stage: LoadingStage.WRITING_SCRIPT, error: null });
+    run(findJob(job.id)!, patch => { if (isCurrent()) updateJob(job.id, patch); }, controller.signal)
+      .then(() => {
+        if (isCurrent() && findJob(job.id)?.status === "running") {
+          updateJob(job.id, { status: "done", stage: LoadingStage.COMPLETE, progress: null });
+        }
+      })
+      .catch(err => {
+        if (isCurrent()) finish(job.id, err);
+      })
+      .finally(() => {
+        if (isCurrent()) controllers.delete(job.id);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (state.paused || state.cooldownUntil !== null) return;
+    let running = state.jobs.filter(job => job.status === "running").length;
+    for (const job of state.jobs) {
+      if (running >= state.concurrency) break;
+      if (job.status !== "queued") continue;
+      start(job);
+      running++;
+    }
+  };
+
+  const stop = (id: string) => controllers.get(id)?.abort();
+
+  return {
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    add(jobs) {
+      setState({
+        jobs: [
+          ...state.jobs,
+          ...jobs.map(job => ({ ...job, status: "queued" as const, stage: LoadingStage.IDLE, progress: null, script: null, error: null, title: null }))
+        ]
+      });
+      pump();
+    },
+
+    pause(id) {
+      if (!id) {
+        setState({ paused: true });
+        return;
+      }
+      const job = findJob(id);
+      if (job?.status !== "queued" && job?.status !== "running") return;
+      updateJob(id, { status: "paused", stage: LoadingStage.IDLE, progress: null });
+      stop(id);
+    },
+
+    resume(id) {
+      if (!id) {
+        setState({ paused: false });
+      } else if (findJob(id)?.status === "paused") {
+        updateJob(id, { status: "queued" });
+      }
+      pump();
+    },
+
+    retry(id) {
+      if (findJob(id)?.status !== "failed") return;
+      requeues.delete(id);
+      updateJob(id, { status: "queued", stage: LoadingStage.IDLE, error: null });
+      pump();
+    },
+
+    remove(id) {
+      setState({ jobs: state.jobs.filter(job => job.id !== id) });
+      stop(id);
+      requeues.delete(id);
+    },
+
+    clearFinished() {
+      setState({ jobs: state.jobs.filter(job => job.status !== "done") });
+    },
+
+    setConcurrency(concurrency) {
+      setState({ concurrency: Math.max(1, concurrency) });
+      pump();
+    }
+  };
+};
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { PodcastError, classifyError, throwIfAborted } from "./errors";
+
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight.
+ * Results keep the order of `items`; the first rejection rejects the whole run.
+ * No new items are started once `signal` aborts.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const runWorker = async () => {
+    while (!failed && next < items.length) {
+      throwIfAborted(signal);
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runWorker);
+  await Promise.all(workers);
+  return results;
+};
+
+export interface RetryOptions {
+  retries: number; // Extra attempts after the first
+  signal?: AbortSignal;
+  baseDelayMs?: number;
+}
+
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+
+/**
+ * Resolves after `ms`, or rejects with a cancellation error as soon as `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new PodcastError('cancelled'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PodcastError('cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Calls `task` until it resolves or `retries` extra attempts have failed.
+ * Only transient failures (quota, network, server, unreadable responses) are retried,
+ * with exponential backoff and jitter. Errors are rethrown classified as PodcastError.
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const baseDelay = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(options.signal);
+    try {
+      return await task(attempt);
+    } catch (err) {
+      const error = classifyError(err);
+      if (!error.retryable || attempt >= options.retries || options.signal?.aborted) throw error;
+      const backoff = Math.min(MAX_DELAY_MS, baseDelay * 2 ** attempt);
+      await sleep(backoff / 2 + Math.random() * backoff / 2, options.signal);
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { CoverDesign, CoverFont, CoverOverlay, CoverText } from "../types";
+import { COVER_FONTS, COVER_PREVIEW_SIZE } from "../constants";
+
+/**
+ * Client-side cover compositing: square-crops the art and draws the episode title
+ * (and optionally the show name) on top with a scrim that keeps it legible.
+ */
+
+const MAX_TITLE_LINES = 3;
+const JPEG_QUALITY = 0.92;
+
+const fontString = (font: CoverFont, px: number) => {
+  const { family, weight } = COVER_FONTS[font];
+  return `${weight} ${Math.round(px)}px ${family}`;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not read the cover image."));
+    image.src = src;
+  });
+
+// Web fonts load lazily; drawing before they arrive silently falls back to a system font
+const ensureFont = async (font: CoverFont) => {
+  try {
+    await document.fonts.load(fontString(font, 64));
+  } catch (err) {
+    console.warn("Cover font did not load, using a fallback", err);
+  }
+};
+
+// Centre crop to a square, like object-fit: cover
+const drawArt = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, size: number) => {
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  const sx = (image.naturalWidth - side) / 2;
+  const sy = (image.naturalHeight - side) / 2;
+  ctx.drawImage(image, sx, sy, side, side, 0, 0, size, size);
+};
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Largest font size at which the title fits in MAX_TITLE_LINES lines of maxWidth.
+ * Below a floor it stops shrinking and cuts the title off with an ellipsis instead.
+ */
+const fitTitle = (ctx: CanvasRenderingContext2D, title: string, font: CoverFont, maxWidth: number, startPx: number) => {
+  const floorPx = startPx * 0.35;
+  for (let px = startPx; ; px *= 0.92) {
+    ctx.font = fontString(font, px);
+    const lines = wrapLines(ctx, title, maxWidth);
+    const fits = lines.length <= MAX_TITLE_LINES && lines.every(line => ctx.measureText(line).width <= maxWidth);
+    if (fits) return { lines, px };
+    if (px * 0.92 < floorPx) {
+      const kept = lines.slice(0, MAX_TITLE_LINES);
+      if (lines.length > MAX_TITLE_LINES) kept[kept.length - 1] += "…";
+      return { lines: kept, px };
+    }
+  }
+};
+
+const drawOverlay = (ctx: CanvasRenderingContext2D, text: CoverText, overlay: CoverOverlay, size: number) => {
+  const margin = size * 0.07;
+  const maxWidth = size - margin * 2;
+  const centered = overlay.layout === "center" || overlay.layout === "band";
+  const { lines, px } = fitTitle(ctx, text.title, overlay.font, maxWidth, size * (centered ? 0.11 : 0.1));
+  const lineHeight = px * 1.1;
+  const showName = overlay.includeShowName && text.showName ? text.showName.toUpperCase() : null;
+  const showPx = size * 0.035;
+  const showHeight = showName ? showPx * 1.8 : 0;
+  const blockHeight = showHeight + lines.length * lineHeight;
+
+  // Scrim behind the text, then the block's top edge
+  let top: number;
+  if (overlay.layout === "bottom") {
+    const gradient = ctx.createLinearGradient(0, size * 0.4, 0, size);
+    gradient.addColorStop(0, "rgba(0,0,0,0)");
+    gradient.addColorStop(1, "rgba(0,0,0,0.8)");
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, size, size);
+    top = size - margin - blockHeight;
+  } else if (overlay.layout === "top") {
+    const gradient = ctx.createLinearGradient(0, 0, 0, size * 0.6);
+    gradient.addColorStop(0, "rgba(0,0,0,0.8)");
+    gradient.addColorStop(1, "rgba(0,0,0,0)");
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, size, size);
+    top = margin;
+  } else if (overlay.layout === "center") {
+    ctx.fillStyle = "rgba(0,0,0,0.35)";
+    ctx.fillRect(0, 0, size, size);
+    top = (size - blockHeight) / 2;
+  } else {
+    const padding = size * 0.04;
+    top = size - margin - padding - blockHeight;
+    ctx.fillStyle = "rgba(0,0,0,0.6)";
+    ctx.fillRect(0, top - padding, size, blockHeight + padding * 2);
+  }
+
+  const x = centered ? size / 2 : margin;
+  ctx.textAlign = centered ? "center" : "left";
+  ctx.textBaseline = "top";
+  ctx.shadowColor = "rgba(0,0,0,0.5)";
+  ctx.shadowBlur = size * 0.01;
+
+  if (showName) {
+    ctx.font = fontString("grotesk", showPx);
+    ctx.fillStyle = "rgba(255,255,255,0.8)";
+    ctx.fillText(showName, x, top, maxWidth);
+    top += showHeight;
+  }
+  ctx.font = fontString(overlay.font, px);
+  ctx.fillStyle = "#ffffff";
+  lines.forEach((line, i) => ctx.fillText(line, x, top + i * lineHeight, maxWidth));
+};
+
+/**
+ * Renders a cover design at size × size pixels.
+ */
+export const renderCover = async (design: CoverDesign, text: CoverText, size: number): Promise<HTMLCanvasElement> => {
+  const [image] = await Promise.all([
+    loadImage(design.sourceImage),
+    design.overlay ? Promise.all([ensureFont(design.overlay.font), ensureFont("grotesk")]) : null
+  ]);
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  drawArt(ctx, image, size);
+  if (design.overlay) drawOverlay(ctx, text, design.overlay, size);
+  return canvas;
+};
+
+/**
+ * The rendering kept with the episode: shown in the app, the library and embedded in exports.
+ */
+export const renderCoverDataUrl = async (design: CoverDesign, text: CoverText, size = COVER_PREVIEW_SIZE): Promise<string> =>
+  (await renderCover(design, text, size)).toDataURL("image/jpeg", JPEG_QUALITY);
+
+export const renderCoverBlob = async (design: CoverDesign, text: CoverText, size: number): Promise<Blob> => {
+  const canvas = await renderCover(design, text, size);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode the cover image.")), "image/jpeg", JPEG_QUALITY);
+  });
+};
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { embedCode, parseEpisodeBundle, parseRoute } from "./episodeBundle";
+
+const validBundle = () => ({
+  kind: "geminicast-episode",
+  version: 1,
+  id: "1",
+  createdAt: 0,
+  title: "Tide pools",
+  topic: "Tide pools",
+  cast: [],
+  dialogue: [{ speaker: "Ava", text: "Welcome!" }, { speaker: "Ben", text: "Hi." }],
+  lineTimings: [{ start: 0, end: 1 }, { start: 1.5, end: 2 }],
+  callIns: [],
+  showNotes: null,
+  coverImageBase64: null,
+  audio: { mimeType: "audio/mpeg", data: "" }
+});
+
+describe("parseEpisodeBundle", () => {
+  it("accepts a complete bundle", () => {
+    const bundle = validBundle();
+    expect(parseEpisodeBundle(bundle)).toBe(bundle);
+  });
+
+  it("rejects files that are not bundles, or from a newer version", () => {
+    expect(() => parseEpisodeBundle({ kind: "something-else" })).toThrow("isn't a podcast episode bundle");
+    expect(() => parseEpisodeBundle({ ...validBundle(), version: 99 })).toThrow("newer version");
+  });
+
+  it.each([
+    ["a line with a non-string text", { dialogue: [{ speaker: "Ava", text: 42 }, { speaker: "Ben", text: "Hi." }] }],
+    ["a line without a speaker", { dialogue: [{ text: "Welcome!" }, { speaker: "Ben", text: "Hi." }] }],
+    ["a line that isn't an object", { dialogue: [null, { speaker: "Ben", text: "Hi." }] }],
+    ["timings that don't match the lines", { lineTimings: [{ start: 0, end: 1 }] }],
+    ["a timing without numbers", { lineTimings: [{ start: 0, end: 1 }, { start: "1.5" }] }],
+    ["no audio", { audio: undefined }]
+  ])("rejects a bundle with %s", (_, patch) => {
+    expect(() => parseEpisodeBundle({ ...validBundle(), ...patch })).toThrow("incomplete or damaged");
+  });
+});
+
+describe("routes", () => {
+  it("reads the view and bundle URL from the hash", () => {
+    expect(parseRoute("#/listen?src=https%3A%2F%2Fexample.com%2Fa.json")).toEqual({ view: "listen", src: "https://example.com/a.json" });
+    expect(parseRoute("#/embed")).toEqual({ view: "embed", src: null });
+    expect(parseRoute("")).toEqual({ view: "studio" });
+  });
+
+  it("escapes the title in embed code", () => {
+    expect(embedCode("https://app.example/#/", "https://example.com/a.json", 'Q&A "live" <1>'))
+      .toContain('title="Q&amp;A &quot;live&quot; &lt;1>"');
+  });
+});
\ No newline at end of file
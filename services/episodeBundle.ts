@@ -0,0 +1,152 @@
+import { AppRoute, DialogueLine, EpisodeBundle, LineTiming, PodcastEpisode } from "../types";
+import { DEFAULT_EPISODE_FORMAT, DEFAULT_STITCH_OPTIONS } from "../constants";
+import { encodeMp3 } from "./mp3Encoder";
+import { base64ToBytes, decodeAudioBytes } from "./audioDecoding";
+import { bytesToBase64 } from "./bytes";
+import { buildEpisodeMetadata, downloadBlob, episodeFileName } from "./episodeExport";
+import { resolveLineTimings } from "./transcriptExport";
+import { stripMarkup } from "./speechMarkup";
+
+/**
+ * Episode bundles: one JSON file with the audio, cover, transcript and metadata of a
+ * finished episode. The listener view plays a bundle without the studio or an API key,
+ * from a file the user opens or from a URL.
+ */
+
+const BUNDLE_KIND = "geminicast-episode";
+const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = "geminicast.json";
+
+export const createEpisodeBundle = async (episode: PodcastEpisode): Promise<EpisodeBundle> => {
+  if (!episode.audioBuffer) throw new Error("This episode has no audio to share");
+  const audio = await encodeMp3(episode.audioBuffer, buildEpisodeMetadata(episode));
+  // Timings and call-ins are moved onto the mixed track, which is the one that ships
+  const offset = episode.mix?.speechOffset ?? 0;
+  return {
+    kind: BUNDLE_KIND,
+    version: BUNDLE_VERSION,
+    id: episode.id,
+    createdAt: episode.createdAt,
+    title: episode.script.title,
+    topic: episode.script.topic,
+    cast: episode.cast,
+    dialogue: episode.script.dialogue.map(({ speaker, text, citations }) => ({ speaker, text: stripMarkup(text), citations })),
+    lineTimings: resolveLineTimings(episode),
+    callIns: episode.callIns.map(callIn => ({ ...callIn, startTime: callIn.startTime + offset })),
+    showNotes: episode.showNotes,
+    coverImageBase64: episode.coverImageBase64,
+    audio: { mimeType: "audio/mpeg", data: bytesToBase64(audio) }
+  };
+};
+
+export const exportEpisodeBundle = async (episode: PodcastEpisode): Promise<void> => {
+  const bundle = await createEpisodeBundle(episode);
+  downloadBlob(new Blob([JSON.stringify(bundle)], { type: "application/json" }), episodeFileName(episode, BUNDLE_EXTENSION));
+};
+
+// Bundles can be hand-edited, so every line the listener renders is checked
+const isDialogueLine = (line: unknown): boolean =>
+  !!line && typeof line === "object"
+  && typeof (line as DialogueLine).speaker === "string"
+  && typeof (line as DialogueLine).text === "string"
+  && ((line as DialogueLine).citations === undefined || Array.isArray((line as DialogueLine).citations));
+
+const isLineTiming = (timing: unknown): boolean =>
+  !!timing && typeof timing === "object"
+  && Number.isFinite((timing as LineTiming).start)
+  && Number.isFinite((timing as LineTiming).end);
+
+/**
+ * Check that parsed JSON is a bundle this version can play.
+ */
+export const parseEpisodeBundle = (json: unknown): EpisodeBundle => {
+  const bundle = json as Partial<EpisodeBundle> | null;
+  if (!bundle || typeof bundle !== "object" || bundle.kind !== BUNDLE_KIND) {
+    throw new Error("This file isn't a podcast episode bundle.");
+  }
+  if (typeof bundle.version !== "number" || bundle.version > BUNDLE_VERSION) {
+    throw new Error("This bundle was made by a newer version of the app. Update the app to play it.");
+  }
+  const complete = typeof bundle.title === "string"
+    && Array.isArray(bundle.cast)
+    && Array.isArray(bundle.dialogue) && bundle.dialogue.every(isDialogueLine)
+    && Array.isArray(bundle.lineTimings) && bundle.lineTimings.length === bundle.dialogue.length
+    && bundle.lineTimings.every(isLineTiming)
+    && typeof bundle.audio?.data === "string" && typeof bundle.audio.mimeType === "string";
+  if (!complete) throw new Error("This episode bundle is incomplete or damaged.");
+  return bundle as EpisodeBundle;
+};
+
+export const readEpisodeBundle = async (file: File): Promise<EpisodeBundle> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This file isn't a podcast episode bundle.");
+  }
+  return parseEpisodeBundle(json);
+};
+
+export const fetchEpisodeBundle = async (url: string, signal?: AbortSignal): Promise<EpisodeBundle> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    // Cross-origin hosts that don't send CORS headers fail here too
+    throw new Error(`Couldn't load the episode from ${url}. Check the link, and that its host allows cross-origin requests.`);
+  }
+  if (!response.ok) throw new Error(`Couldn't load the episode from ${url} (HTTP ${response.status}).`);
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new Error("The link doesn't point to a podcast episode bundle.");
+  }
+  return parseEpisodeBundle(json);
+};
+
+/**
+ * Unpack a bundle into a read-only episode, so the studio's player, visualizer and
+ * transcript can show it unchanged. It has no segments, mix or dry track to edit.
+ */
+export const bundleToEpisode = async (bundle: EpisodeBundle, audioContext: BaseAudioContext): Promise<PodcastEpisode> => {
+  const audioBuffer = await decodeAudioBytes(base64ToBytes(bundle.audio.data), bundle.audio.mimeType, audioContext);
+  return {
+    id: bundle.id,
+    createdAt: bundle.createdAt,
+    settings: { topic: bundle.topic, synthesisMode: "combined", format: DEFAULT_EPISODE_FORMAT },
+    script: { title: bundle.title, topic: bundle.topic, dialogue: bundle.dialogue },
+    cast: bundle.cast,
+    coverImageBase64: bundle.coverImageBase64,
+    audioBuffer,
+    segments: null,
+    lineTimings: bundle.lineTimings,
+    stitchOptions: DEFAULT_STITCH_OPTIONS,
+    dryAudioBuffer: null,
+    mix: null,
+    showId: null,
+    episodeNumber: null,
+    showNotes: bundle.showNotes,
+    cover: null,
+    callIns: bundle.callIns ?? []
+  };
+};
+
+/**
+ * The page's view, from its hash: `#/listen` and `#/embed`, each with an optional
+ * `?src=` bundle URL. Hash routes work on any static host, without server rewrites.
+ */
+export const parseRoute = (hash: string): AppRoute => {
+  const [path, query = ""] = hash.replace(/^#\/?/, "").split("?");
+  if (path !== "listen" && path !== "embed") return { view: "studio" };
+  return { view: path, src: new URLSearchParams(query).get("src") };
+};
+
+export const routeUrl = (appUrl: string, view: "listen" | "embed", bundleUrl: string): string =>
+  `${appUrl.split("#")[0]}#/${view}?src=${encodeURIComponent(bundleUrl)}`;
+
+export const embedCode = (appUrl: string, bundleUrl: string, title: string): string => {
+  const escapedTitle = title.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+  return `<iframe src="${routeUrl(appUrl, "embed", bundleUrl)}" title="${escapedTitle}" width="100%" height="420" style="border:0;border-radius:16px" allow="autoplay"></iframe>`;
+};
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { AudioExportFormat, CallIn, Chapter, CoverText, EpisodeMetadata, PodcastEpisode, TranscriptExportFormat } from "../types";
+import { encodeWav } from "./wavEncoder";
+import { encodeMp3 } from "./mp3Encoder";
+import { recordedLineTimings, renderTranscript } from "./transcriptExport";
+import { renderCoverBlob } from "./coverCompositor";
+import { stripMarkup } from "./speechMarkup";
+
+const CHAPTER_TITLE_LENGTH = 48;
+
+const snippet = (text: string) =>
+  text.length > CHAPTER_TITLE_LENGTH ? `${text.slice(0, CHAPTER_TITLE_LENGTH).trimEnd()}…` : text;
+
+const callInTitle = (callIn: CallIn) => `Listener question: ${snippet(callIn.question)}`;
+
+/**
+ * With recorded timings every line is a chapter, except that a call-in's answer is one.
+ * Without them, estimates are too coarse for line markers, so only call-ins get chapters.
+ */
+const buildChapters = (episode: PodcastEpisode): Chapter[] => {
+  const timings = recordedLineTimings(episode);
+  const { callIns } = episode;
+  if (timings) {
+    const chapters: Chapter[] = [];
+    episode.script.dialogue.forEach((line, i) => {
+      const callIn = callIns.find(c => i >= c.firstLine && i < c.firstLine + c.lineCount);
+      if (!callIn) {
+        chapters.push({ title: `${line.speaker}: ${snippet(stripMarkup(line.text))}`, ...timings[i] });
+      } else if (i === callIn.firstLine) {
+        chapters.push({ title: callInTitle(callIn), start: timings[i].start, end: timings[i + callIn.lineCount - 1].end });
+      }
+    });
+    return chapters;
+  }
+
+  if (callIns.length === 0 || !episode.audioBuffer) return [];
+  const offset = episode.mix?.speechOffset ?? 0;
+  const starts = callIns.map(callIn => callIn.startTime + offset);
+  const end = episode.audioBuffer.duration;
+  return [
+    { title: episode.script.title, start: 0, end: starts[0] },
+    ...callIns.map((callIn, i) => ({ title: callInTitle(callIn), start: starts[i], end: starts[i + 1] ?? end }))
+  ];
+};
+
+export const buildEpisodeMetadata = (episode: PodcastEpisode): EpisodeMetadata => ({
+  title: episode.script.title,
+  topic: episode.script.topic,
+  coverImageBase64: episode.coverImageBase64,
+  chapters: buildChapters(episode)
+});
+
+export const episodeFileName = (episode: PodcastEpisode, extension: string, suffix = ""): string => {
+  const slug = episode.script.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return `${slug || "episode"}${suffix}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportEpisodeAudio = async (episode: PodcastEpisode, format: AudioExportFormat): Promise<void> => {
+  if (!episode.audioBuffer) throw new Error("This episode has no audio to export");
+
+  const metadata = buildEpisodeMetadata(episode);
+  const bytes = format === "mp3"
+    ? await encodeMp3(episode.audioBuffer, metadata)
+    : encodeWav(episode.audioBuffer, metadata);
+  const mimeType = format === "mp3" ? "audio/mpeg" : "audio/wav";
+
+  downloadBlob(new Blob([bytes], { type: mimeType }), episodeFileName(episode, format));
+};
+
+export const exportTranscript = (episode: PodcastEpisode, format: TranscriptExportFormat) => {
+  const { text, mimeType } = renderTranscript(episode, format);
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), episodeFileName(episode, format));
+};
+
+/**
+ * Square JPEG artwork at a podcast-directory size, rendered from the full-resolution source.
+ */
+export const exportCoverArt = async (episode: PodcastEpisode, text: CoverText, size: number): Promise<void> => {
+  const design = episode.cover ?? (episode.coverImageBase64 ? { sourceImage: episode.coverImageBase64, overlay: null } : null);
+  if (!design) throw new Error("This episode has no cover art to export");
+  const blob = await renderCoverBlob(design, text, size);
+  downloadBlob(blob, episodeFileName(episode, "jpg", `-cover-${size}`));
+};
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { LibraryEntry, PodcastEpisode, Show, StorageUsage } from "../types";
+import { encodeWav } from "./wavEncoder";
+import { decodeAudioBytes } from "./audioDecoding";
+import { sliceSegments } from "./audioSegments";
+import { buildEpisodeMetadata } from "./episodeExport";
+
+/**
+ * Local episode library in IndexedDB.
+ * `AudioBuffer` can't be structured-cloned, so audio is stored as WAV bytes in its own
+ * object store and decoded again on load. Listing only touches the lightweight entries.
+ * Mixed episodes also keep their dry speech track, under a second audio key.
+ * Shows live in their own store; episodes point at them by id.
+ */
+
+const DB_NAME = "geminicast";
+const DB_VERSION = 2;
+const EPISODES_STORE = "episodes";
+const AUDIO_STORE = "audio";
+const SHOWS_STORE = "shows";
+
+// Everything in PodcastEpisode except the non-cloneable audio
+type StoredEpisode = Omit<PodcastEpisode, "audioBuffer" | "segments" | "dryAudioBuffer"> & {
+  hasSegments: boolean;
+  hasDryAudio?: boolean; // Absent on episodes saved before mixing existed
+  audioBytes: number;
+};
+
+interface StoredAudio {
+  id: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const episodes = db.createObjectStore(EPISODES_STORE, { keyPath: "id" });
+          episodes.createIndex("createdAt", "createdAt");
+          db.createObjectStore(AUDIO_STORE, { keyPath: "id" });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(SHOWS_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+
+const dryAudioKey = (id: string) => `${id}:dry`;
+
+const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === "QuotaExceededError" || err.code === 22);
+
+const toEntry = (stored: StoredEpisode): LibraryEntry => ({
+  id: stored.id,
+  title: stored.script.title,
+  topic: stored.script.topic,
+  createdAt: stored.createdAt,
+  coverImageBase64: stored.coverImageBase64,
+  audioBytes: stored.audioBytes,
+  showId: stored.showId ?? null,
+  episodeNumber: stored.episodeNumber ?? null,
+  summary: stored.showNotes?.description ?? null
+});
+
+/**
+ * All stored episodes, newest first.
+ */
+export const listEpisodes = async (): Promise<LibraryEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(EPISODES_STORE, "readonly");
+  const stored = await requestResult(tx.objectStore(EPISODES_STORE).index("createdAt").getAll()) as StoredEpisode[];
+  return stored.map(toEntry).reverse();
+};
+
+const writeEpisode = async (stored: StoredEpisode, audio: StoredAudio | null, dryAudio: StoredAudio | null) => {
+  const db = await openDatabase();
+  const tx = db.transaction([EPISODES_STORE, AUDIO_STORE], "readwrite");
+  tx.objectStore(EPISODES_STORE).put(stored);
+  const audioStore = tx.objectStore(AUDIO_STORE);
+  if (audio) audioStore.put(audio);
+  if (dryAudio) audioStore.put(dryAudio);
+  else audioStore.delete(dryAudioKey(stored.id));
+  await transactionDone(tx);
+};
+
+/**
+ * Store (or overwrite) an episode. When the storage quota is hit, the oldest other
+ * episodes are evicted one at a time until it fits; the evicted entries are returned.
+ */
+export const saveEpisode = async (episode: PodcastEpisode): Promise<LibraryEntry[]> => {
+  const { audioBuffer, segments, dryAudioBuffer, ...rest } = episode;
+  const metadata = buildEpisodeMetadata(episode);
+  const bytes = audioBuffer ? encodeWav(audioBuffer, metadata) : null;
+  const dryBytes = dryAudioBuffer ? encodeWav(dryAudioBuffer, { ...metadata, coverImageBase64: null, chapters: [] }) : null;
+  const stored: StoredEpisode = {
+    ...rest,
+    hasSegments: segments !== null,
+    hasDryAudio: dryBytes !== null,
+    audioBytes: (bytes?.length ?? 0) + (dryBytes?.length ?? 0)
+  };
+  const audio = bytes ? { id: episode.id, mimeType: "audio/wav", bytes } : null;
+  const dryAudio = dryBytes ? { id: dryAudioKey(episode.id), mimeType: "audio/wav", bytes: dryBytes } : null;
+
+  const evicted: LibraryEntry[] = [];
+  for (;;) {
+    try {
+      await writeEpisode(stored, audio, dryAudio);
+      return evicted;
+    } catch (err) {
+      if (!isQuotaError(err)) throw err;
+      const candidates = (await listEpisodes()).filter(entry => entry.id !== episode.id);
+      const oldest = candidates[candidates.length - 1];
+      if (!oldest) throw new Error("Not enough storage space to save this episode, even with the library empty.");
+      await deleteEpisode(oldest.id);
+      evicted.push(oldest);
+    }
+  }
+};
+
+/**
+ * Load a stored episode and decode its audio with the given context.
+ */
+export const loadEpisode = async (id: string, audioContext: BaseAudioContext): Promise<PodcastEpisode> => {
+  const db = await openDatabase();
+  const tx = db.transaction([EPISODES_STORE, AUDIO_STORE], "readonly");
+  const [stored, audio, dryAudio] = await Promise.all([
+    requestResult(tx.objectStore(EPISODES_STORE).get(id)) as Promise<StoredEpisode | undefined>,
+    requestResult(tx.objectStore(AUDIO_STORE).get(id)) as Promise<StoredAudio | undefined>,
+    requestResult(tx.objectStore(AUDIO_STORE).get(dryAudioKey(id))) as Promise<StoredAudio | undefined>
+  ]);
+  if (!stored) throw new Error("Episode not found in the library");
+
+  const { hasSegments, hasDryAudio, audioBytes, ...rest } = stored;
+  const decode = (record?: StoredAudio) => record ? decodeAudioBytes(record.bytes, record.mimeType, audioContext) : null;
+  const [audioBuffer, dryAudioBuffer] = await Promise.all([decode(audio), hasDryAudio ? decode(dryAudio) : null]);
+  // Segments are cut from the speech-only track
+  const speech = dryAudioBuffer ?? audioBuffer;
+  const segments = speech && hasSegments && stored.lineTimings
+    ? sliceSegments(speech, stored.lineTimings, audioContext)
+    : null;
+
+  // Episodes saved by older versions lack the later fields
+  return {
+    ...rest,
+    mix: rest.mix ?? null,
+    showId: rest.showId ?? null,
+    episodeNumber: rest.episodeNumber ?? null,
+    showNotes: rest.showNotes ?? null,
+    cover: rest.cover ?? null,
+    callIns: rest.callIns ?? [],
+    audioBuffer,
+    dryAudioBuffer,
+    segments
+  };
+};
+
+export const renameEpisode = async (id: string, title: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(EPISODES_STORE, "readwrite");
+  const store = tx.objectStore(EPISODES_STORE);
+  const stored = await requestResult(store.get(id)) as StoredEpisode | undefined;
+  if (!stored) throw new Error("Episode not found in the library");
+  store.put({ ...stored, script: { ...stored.script, title } });
+  await transactionDone(tx);
+};
+
+export const deleteEpisode = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([EPISODES_STORE, AUDIO_STORE], "readwrite");
+  tx.objectStore(EPISODES_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(dryAudioKey(id));
+  await transactionDone(tx);
+};
+
+export const listShows = async (): Promise<Show[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SHOWS_STORE, "readonly");
+  const shows = await requestResult(tx.objectStore(SHOWS_STORE).getAll()) as Show[];
+  return shows.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveShow = async (show: Show): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SHOWS_STORE, "readwrite");
+  tx.objectStore(SHOWS_STORE).put(show);
+  await transactionDone(tx);
+};
+
+/**
+ * Delete a show. Its episodes stay in the library as standalone episodes.
+ */
+export const deleteShow = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SHOWS_STORE, EPISODES_STORE], "readwrite");
+  tx.objectStore(SHOWS_STORE).delete(id);
+  const episodes = tx.objectStore(EPISODES_STORE);
+  const stored = await requestResult(episodes.getAll()) as StoredEpisode[];
+  stored
+    .filter(episode => episode.showId === id)
+    .forEach(episode => episodes.put({ ...episode, showId: null, episodeNumber: null }));
+  await transactionDone(tx);
+};
+
+/**
+ * Origin-wide storage usage, or null where the browser doesn't report it.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  if (usage === undefined || quota === undefined) return null;
+  return { usage, quota };
+};
\ No newline at end of file
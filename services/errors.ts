@@ -0,0 +1,73 @@
+import { ApiError } from "@google/genai";
+import { AudioDecodingError } from "./audioDecoding";
+
+/**
+ * Error categories surfaced to the user, each with an actionable message.
+ */
+export type ErrorCategory = 'auth' | 'quota' | 'budget' | 'safety' | 'parse' | 'network' | 'server' | 'cancelled' | 'unknown';
+
+const ERROR_MESSAGES: Record<ErrorCategory, string> = {
+  auth: "The API key was rejected. Check GEMINI_API_KEY on the server, or your own key under Settings.",
+  quota: "The Gemini quota or rate limit was reached. Wait a minute and try again, or check your plan's limits.",
+  budget: "The spending cap set under Usage has been reached. Raise or remove it to keep generating.",
+  safety: "The request was blocked by safety filters. Try rephrasing the topic or editing the script.",
+  parse: "The model returned a response that couldn't be read. Trying again usually fixes this.",
+  network: "Couldn't reach the model. Check your connection and try again.",
+  server: "The model service is having trouble right now. Try again in a moment.",
+  cancelled: "Generation cancelled.",
+  unknown: "Something went wrong creating your podcast."
+};
+
+// Worth retrying with backoff; the rest fail the same way on every attempt
+const RETRYABLE: ReadonlySet<ErrorCategory> = new Set(['quota', 'network', 'server', 'parse']);
+
+export class PodcastError extends Error {
+  constructor(public readonly category: ErrorCategory, message?: string, public readonly cause?: unknown) {
+    super(message || ERROR_MESSAGES[category]);
+    this.name = 'PodcastError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.has(this.category);
+  }
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  (err instanceof DOMException && err.name === 'AbortError') ||
+  (err instanceof Error && err.name === 'AbortError');
+
+const categoryForStatus = (status: number): ErrorCategory => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Map anything thrown by a provider, the SDK or the browser into a PodcastError.
+ */
+export const classifyError = (err: unknown): PodcastError => {
+  if (err instanceof PodcastError) return err;
+  if (isAbortError(err)) return new PodcastError('cancelled', undefined, err);
+  if (err instanceof SyntaxError) return new PodcastError('parse', undefined, err);
+  if (err instanceof AudioDecodingError) return new PodcastError('parse', err.message, err);
+
+  if (err instanceof ApiError) {
+    // The API answers an invalid key with 400 rather than 401
+    if (/api key not valid|API_KEY_INVALID/i.test(err.message)) return new PodcastError('auth', undefined, err);
+    if (/RESOURCE_EXHAUSTED/.test(err.message)) return new PodcastError('quota', undefined, err);
+    const category = categoryForStatus(err.status);
+    return new PodcastError(category, category === 'unknown' ? err.message : undefined, err);
+  }
+
+  if (err instanceof TypeError && /fetch|network/i.test(err.message)) {
+    return new PodcastError('network', undefined, err);
+  }
+
+  const message = err instanceof Error ? err.message : String(err);
+  return new PodcastError('unknown', message, err);
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new PodcastError('cancelled');
+};
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { CoverDesign, CoverText, FeedItem, FeedSettings, PodcastEpisode, ShowNotes } from "../types";
+import { COVER_EXPORT_SIZES } from "../constants";
+import { loadEpisode } from "./episodeLibrary";
+import { buildEpisodeMetadata, downloadBlob, episodeFileName } from "./episodeExport";
+import { encodeMp3 } from "./mp3Encoder";
+import { renderTranscript } from "./transcriptExport";
+import { renderCoverBlob } from "./coverCompositor";
+import { FEED_FILE_NAME, buildFeedXml, validateFeed } from "./rssFeed";
+import { ZipEntry, createZip } from "./zipArchive";
+import { throwIfAborted } from "./errors";
+
+/**
+ * Publishing bundle: feed.xml plus every file it points at, laid out for static hosting
+ * so the zip can be extracted as-is under the feed's base URL.
+ */
+
+const ARTWORK_PATH = "artwork.jpg";
+const EPISODES_DIR = "episodes";
+const [CHANNEL_ART_SIZE] = COVER_EXPORT_SIZES;
+const EPISODE_ART_SIZE = COVER_EXPORT_SIZES[COVER_EXPORT_SIZES.length - 1];
+
+const encoder = new TextEncoder();
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const renderNotesHtml = ({ description, takeaways, links }: ShowNotes): string => [
+  `<p>${escapeHtml(description)}</p>`,
+  takeaways.length > 0 ? `<ul>${takeaways.map(t => `<li>${escapeHtml(t)}</li>`).join("")}</ul>` : "",
+  links.length > 0
+    ? `<p>Links:</p><ul>${links.map(l => `<li><a href="${escapeHtml(l.url)}">${escapeHtml(l.title)}</a></li>`).join("")}</ul>`
+    : ""
+].join("");
+
+const coverDesignOf = (episode: PodcastEpisode): CoverDesign | null =>
+  episode.cover ?? (episode.coverImageBase64 ? { sourceImage: episode.coverImageBase64, overlay: null } : null);
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+/**
+ * Loads the given library episodes one at a time, encodes their audio, transcript and
+ * artwork, and zips them with the feed. Throws with the validation problems if the
+ * result wouldn't be accepted by podcast apps.
+ */
+export const buildFeedBundle = async (
+  settings: FeedSettings,
+  episodeIds: string[],
+  showName: string | null,
+  audioContext: BaseAudioContext,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Uint8Array> => {
+  const files: ZipEntry[] = [];
+  const items: FeedItem[] = [];
+  const usedNames = new Set<string>();
+  // The newest episode's cover doubles as the channel artwork
+  let artwork: { design: CoverDesign; coverText: CoverText; createdAt: number } | null = null;
+
+  for (const [i, id] of episodeIds.entries()) {
+    throwIfAborted(signal);
+    onProgress?.(i, episodeIds.length);
+    const episode = await loadEpisode(id, audioContext);
+
+    // Titles can collide; file names can't
+    const stem = episodeFileName(episode, "mp3").slice(0, -".mp3".length);
+    let base = stem;
+    for (let n = 2; usedNames.has(base); n++) base = `${stem}-${n}`;
+    usedNames.add(base);
+    const path = (extension: string) => `${EPISODES_DIR}/${base}.${extension}`;
+
+    const audio = episode.audioBuffer ? await encodeMp3(episode.audioBuffer, buildEpisodeMetadata(episode)) : null;
+    if (audio) files.push({ path: path("mp3"), bytes: audio });
+
+    const transcriptPath = path("vtt");
+    files.push({ path: transcriptPath, bytes: encoder.encode(renderTranscript(episode, "vtt").text) });
+
+    const design = coverDesignOf(episode);
+    const coverText = { title: episode.script.title, showName };
+    let imagePath: string | null = null;
+    if (design) {
+      imagePath = path("jpg");
+      files.push({ path: imagePath, bytes: await blobBytes(await renderCoverBlob(design, coverText, EPISODE_ART_SIZE)) });
+      if (!artwork || episode.createdAt > artwork.createdAt) artwork = { design, coverText, createdAt: episode.createdAt };
+    }
+
+    items.push({
+      guid: episode.id,
+      title: episode.script.title,
+      description: episode.showNotes?.description ?? episode.script.topic,
+      notesHtml: episode.showNotes ? renderNotesHtml(episode.showNotes) : null,
+      pubDate: episode.createdAt,
+      durationSeconds: episode.audioBuffer?.duration ?? 0,
+      audioPath: audio ? path("mp3") : "",
+      audioBytes: audio?.length ?? 0,
+      audioMimeType: "audio/mpeg",
+      transcriptPath,
+      imagePath,
+      episodeNumber: episode.episodeNumber
+    });
+  }
+  onProgress?.(episodeIds.length, episodeIds.length);
+
+  const problems = validateFeed(settings, items, artwork ? ARTWORK_PATH : null);
+  if (problems.length > 0 || !artwork) throw new Error(problems.join(" "));
+  files.unshift(
+    { path: FEED_FILE_NAME, bytes: encoder.encode(buildFeedXml(settings, items, ARTWORK_PATH)) },
+    { path: ARTWORK_PATH, bytes: await blobBytes(await renderCoverBlob(artwork.design, artwork.coverText, CHANNEL_ART_SIZE)) }
+  );
+  return createZip(files);
+};
+
+export const exportFeedBundle = async (
+  settings: FeedSettings,
+  episodeIds: string[],
+  showName: string | null,
+  audioContext: BaseAudioContext,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const zip = await buildFeedBundle(settings, episodeIds, showName, audioContext, onProgress, signal);
+  const slug = settings.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  downloadBlob(new Blob([zip], { type: "application/zip" }), `${slug || "podcast"}-feed.zip`);
+};
\ No newline at end of file
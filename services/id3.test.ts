@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { EpisodeMetadata } from "../types";
+import { buildId3Tag, parseDataUrl } from "./id3";
+
+const metadata: EpisodeMetadata = {
+  title: "Deep Sea",
+  topic: "Life at the bottom of the ocean",
+  coverImageBase64: null,
+  chapters: []
+};
+
+const latin1 = new TextDecoder("latin1");
+
+// Frame ids and bodies of an ID3v2.3 tag
+const readFrames = (tag: Uint8Array) => {
+  const view = new DataView(tag.buffer, tag.byteOffset, tag.byteLength);
+  const frames: { id: string; body: Uint8Array }[] = [];
+  for (let offset = 10; offset + 10 <= tag.length;) {
+    const size = view.getUint32(offset + 4);
+    frames.push({ id: latin1.decode(tag.subarray(offset, offset + 4)), body: tag.subarray(offset + 10, offset + 10 + size) });
+    offset += 10 + size;
+  }
+  return frames;
+};
+
+const syncsafeSize = (tag: Uint8Array) => (tag[6] << 21) | (tag[7] << 14) | (tag[8] << 7) | tag[9];
+
+describe("buildId3Tag", () => {
+  it("writes an ID3v2.3 header with the syncsafe size of its frames", () => {
+    const tag = buildId3Tag(metadata);
+    expect(latin1.decode(tag.subarray(0, 3))).toBe("ID3");
+    expect(Array.from(tag.subarray(3, 6))).toEqual([3, 0, 0]);
+    expect(syncsafeSize(tag)).toBe(tag.length - 10);
+    expect(Array.from(tag.subarray(6, 10)).every(byte => byte < 0x80)).toBe(true);
+  });
+
+  it("stores the title as UTF-16 text", () => {
+    const title = readFrames(buildId3Tag({ ...metadata, title: "Océan" })).find(frame => frame.id === "TIT2")!;
+    expect(title.body[0]).toBe(0x01);
+    expect(new TextDecoder("utf-16le").decode(title.body.subarray(3, -2))).toBe("Océan");
+  });
+
+  it("attaches the cover as a front cover picture", () => {
+    const cover = `data:image/png;base64,${btoa("\x89PNG")}`;
+    const picture = readFrames(buildId3Tag({ ...metadata, coverImageBase64: cover })).find(frame => frame.id === "APIC")!;
+    expect(latin1.decode(picture.body)).toBe("\x00image/png\x00\x03\x00\x89PNG");
+  });
+
+  it("writes a table of contents and a chapter frame per chapter, in milliseconds", () => {
+    const frames = readFrames(buildId3Tag({
+      ...metadata,
+      chapters: [{ title: "Intro", start: 0, end: 1.5 }, { title: "Anglerfish", start: 1.5, end: 90 }]
+    }));
+    const toc = frames.find(frame => frame.id === "CTOC")!;
+    expect(toc.body[5]).toBe(2);
+
+    const chapters = frames.filter(frame => frame.id === "CHAP");
+    expect(chapters).toHaveLength(2);
+    const second = new DataView(chapters[1].body.buffer, chapters[1].body.byteOffset);
+    expect(latin1.decode(chapters[1].body.subarray(0, 3))).toBe("ch1");
+    expect(second.getUint32(4)).toBe(1500);
+    expect(second.getUint32(8)).toBe(90000);
+  });
+
+  it("caps the chapters at what CTOC can count", () => {
+    const chapters = Array.from({ length: 300 }, (_, i) => ({ title: `Line ${i}`, start: i, end: i + 1 }));
+    const frames = readFrames(buildId3Tag({ ...metadata, chapters }));
+    expect(frames.filter(frame => frame.id === "CHAP")).toHaveLength(255);
+  });
+});
+
+describe("parseDataUrl", () => {
+  it("splits a base64 data URL", () => {
+    expect(parseDataUrl(`data:image/jpeg;base64,${btoa("abc")}`)).toEqual({ mimeType: "image/jpeg", bytes: new Uint8Array([97, 98, 99]) });
+  });
+
+  it("ignores data URLs that are not base64", () => {
+    expect(parseDataUrl("data:text/plain,hello")).toBeNull();
+  });
+});
\ No newline at end of file
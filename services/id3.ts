@@ -0,0 +1,109 @@
+import { EpisodeMetadata } from "../types";
+import { base64ToBytes } from "./audioDecoding";
+import { concatBytes } from "./bytes";
+
+/**
+ * Minimal ID3v2.3 tag writer: title, topic, front cover picture and chapters (CHAP/CTOC).
+ * Used as the MP3 header and embedded in WAV files as an `id3 ` chunk.
+ */
+
+// CTOC stores the entry count in a single byte
+const MAX_CHAPTERS = 255;
+
+const latin1 = (text: string): number[] => Array.from(text, ch => {
+  const code = ch.charCodeAt(0);
+  return code < 256 ? code : 0x3f; // '?'
+});
+
+// Encoding byte 0x01: UTF-16 with BOM, null terminated
+const utf16 = (text: string): number[] => {
+  const bytes = [0xff, 0xfe];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes.push(code & 0xff, code >> 8);
+  }
+  bytes.push(0, 0);
+  return bytes;
+};
+
+const uint32 = (value: number): number[] => [
+  (value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff
+];
+
+const syncsafe = (value: number): number[] => [
+  (value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f
+];
+
+const frame = (id: string, body: ArrayLike<number>): Uint8Array => {
+  const out = new Uint8Array(10 + body.length);
+  out.set(latin1(id), 0);
+  out.set(uint32(body.length), 4);
+  // Two zero flag bytes
+  out.set(body, 10);
+  return out;
+};
+
+const textFrame = (id: string, text: string) => frame(id, [0x01, ...utf16(text)]);
+
+const commentFrame = (text: string) => frame("COMM", [0x01, ...latin1("eng"), ...utf16(""), ...utf16(text)]);
+
+/**
+ * Split a data URL into its mime type and raw bytes.
+ */
+export const parseDataUrl = (dataUrl: string): { mimeType: string; bytes: Uint8Array } | null => {
+  const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match || !match[2]) return null;
+  return { mimeType: match[1], bytes: base64ToBytes(match[3]) };
+};
+
+const pictureFrame = (dataUrl: string): Uint8Array | null => {
+  const picture = parseDataUrl(dataUrl);
+  if (!picture) return null;
+  // Encoding 0, mime type, picture type 3 (front cover), empty description
+  const header = [0x00, ...latin1(picture.mimeType), 0x00, 0x03, 0x00];
+  const body = new Uint8Array(header.length + picture.bytes.length);
+  body.set(header, 0);
+  body.set(picture.bytes, header.length);
+  return frame("APIC", body);
+};
+
+export const buildId3Tag = (metadata: EpisodeMetadata): Uint8Array => {
+  const frames: Uint8Array[] = [
+    textFrame("TIT2", metadata.title),
+    textFrame("TIT3", metadata.topic),
+    textFrame("TCON", "Podcast"),
+    commentFrame(metadata.topic)
+  ];
+
+  if (metadata.coverImageBase64) {
+    const picture = pictureFrame(metadata.coverImageBase64);
+    if (picture) frames.push(picture);
+  }
+
+  const chapters = metadata.chapters.slice(0, MAX_CHAPTERS);
+  if (chapters.length > 0) {
+    const ids = chapters.map((_, i) => `ch${i}`);
+    frames.push(frame("CTOC", [
+      ...latin1("toc"), 0x00,
+      0x03, // Top-level, ordered
+      ids.length,
+      ...ids.flatMap(id => [...latin1(id), 0x00])
+    ]));
+    chapters.forEach((chapter, i) => {
+      const title = textFrame("TIT2", chapter.title);
+      frames.push(frame("CHAP", [
+        ...latin1(ids[i]), 0x00,
+        ...uint32(Math.round(chapter.start * 1000)),
+        ...uint32(Math.round(chapter.end * 1000)),
+        // Byte offsets unused
+        ...uint32(0xffffffff),
+        ...uint32(0xffffffff),
+        ...title
+      ]));
+    });
+  }
+
+  const body = concatBytes(frames);
+  const header = new Uint8Array([...latin1("ID3"), 0x03, 0x00, 0x00, ...syncsafe(body.length)]);
+  return concatBytes([header, body]);
+};
\ No newline at end of file
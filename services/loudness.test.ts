@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { measureLoudness, peakAmplitude } from "./loudness";
+import { createTestBuffer, sine } from "../test/fakeAudio";
+
+describe("measureLoudness", () => {
+  // BS.1770 calibration: a full-scale 1 kHz sine in one channel reads -3.01 LUFS
+  it("matches the BS.1770 reference tone", () => {
+    expect(measureLoudness(createTestBuffer([sine(1000, 3, 48000)], 48000))).toBeCloseTo(-3.01, 1);
+  });
+
+  it("re-derives the weighting filters for other sample rates", () => {
+    expect(measureLoudness(createTestBuffer([sine(1000, 3, 24000)], 24000))).toBeCloseTo(-3.01, 1);
+    expect(measureLoudness(createTestBuffer([sine(1000, 3, 44100)], 44100))).toBeCloseTo(-3.01, 1);
+  });
+
+  it("moves 1 LU per dB of gain", () => {
+    const full = measureLoudness(createTestBuffer([sine(1000, 3, 48000)], 48000));
+    const quieter = measureLoudness(createTestBuffer([sine(1000, 3, 48000, 0.1)], 48000));
+    expect(full - quieter).toBeCloseTo(20, 1);
+  });
+
+  it("sums the channels", () => {
+    const tone = sine(1000, 3, 48000);
+    expect(measureLoudness(createTestBuffer([tone, tone.slice()], 48000))).toBeCloseTo(0, 1);
+  });
+
+  it("gates out silence and quiet passages", () => {
+    const sampleRate = 48000;
+    const tone = sine(1000, 3, sampleRate, 0.5);
+    const withGaps = new Float32Array(tone.length * 3);
+    withGaps.set(tone, tone.length); // Silence either side
+    const withHiss = withGaps.map((sample, i) => sample || 0.001 * Math.sin(i)); // Far below the relative gate
+
+    // Ungated, two thirds of silence would read 4.8 LU lower; only blocks straddling the edges still count
+    const alone = measureLoudness(createTestBuffer([tone], sampleRate));
+    expect(Math.abs(measureLoudness(createTestBuffer([withGaps], sampleRate)) - alone)).toBeLessThan(0.5);
+    expect(Math.abs(measureLoudness(createTestBuffer([withHiss], sampleRate)) - alone)).toBeLessThan(0.5);
+  });
+
+  it("reads silence as -Infinity", () => {
+    expect(measureLoudness(createTestBuffer([new Float32Array(48000)], 48000))).toBe(-Infinity);
+  });
+
+  it("reads buffers shorter than one block as -Infinity", () => {
+    expect(measureLoudness(createTestBuffer([sine(1000, 0.2, 48000)], 48000))).toBe(-Infinity);
+  });
+});
+
+describe("peakAmplitude", () => {
+  it("finds the largest absolute sample across channels", () => {
+    const buffer = createTestBuffer([Float32Array.from([0.1, -0.3]), Float32Array.from([0.2, -0.7])], 8000);
+    expect(peakAmplitude(buffer)).toBeCloseTo(0.7);
+  });
+});
\ No newline at end of file
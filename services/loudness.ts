@@ -0,0 +1,99 @@
+/**
+ * Integrated loudness (LUFS) after ITU-R BS.1770: K-weighting, 400 ms blocks with
+ * 75% overlap, an absolute gate at -70 LUFS and a relative gate 10 LU below.
+ */
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+
+// BS.1770 filter coefficients, re-derived for the buffer's sample rate
+const highShelf = (sampleRate: number): Biquad => {
+  const K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  const a0 = 1 + K / Q + K * K;
+  return {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+};
+
+const highPass = (sampleRate: number): Biquad => {
+  const K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  const Q = 0.5003270373238773;
+  const a0 = 1 + K / Q + K * K;
+  return { b0: 1, b1: -2, b2: 1, a1: 2 * (K * K - 1) / a0, a2: (1 - K / Q + K * K) / a0 };
+};
+
+const applyBiquad = (input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+};
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * Integrated loudness of the buffer in LUFS, or -Infinity for silence.
+ */
+export const measureLoudness = (audioBuffer: AudioBuffer): number => {
+  const { sampleRate } = audioBuffer;
+  const shelf = highShelf(sampleRate);
+  const pass = highPass(sampleRate);
+  const weighted = Array.from({ length: audioBuffer.numberOfChannels }, (_, ch) =>
+    applyBiquad(applyBiquad(audioBuffer.getChannelData(ch), shelf), pass)
+  );
+
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+  const blocks: number[] = []; // Mean square summed over channels
+  for (let start = 0; start + blockLength <= audioBuffer.length; start += step) {
+    let sum = 0;
+    for (const data of weighted) {
+      for (let i = start; i < start + blockLength; i++) sum += data[i] * data[i];
+    }
+    blocks.push(sum / blockLength);
+  }
+
+  const gated = (threshold: number) => blocks.filter(ms => blockLoudness(ms) > threshold);
+  const aboveAbsolute = gated(ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const relativeGate = blockLoudness(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const aboveRelative = aboveAbsolute.filter(ms => blockLoudness(ms) > relativeGate);
+  return blockLoudness(mean(aboveRelative));
+};
+
+export const peakAmplitude = (audioBuffer: AudioBuffer): number => {
+  let peak = 0;
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    const data = audioBuffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+};
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+import { EpisodeMetadata } from "../types";
+import { buildId3Tag } from "./id3";
+import { concatBytes } from "./bytes";
+
+const FRAME_SAMPLES = 1152;
+// Yield to the UI thread after this many frames so long episodes don't freeze the page
+const FRAMES_PER_YIELD = 200;
+
+const toInt16 = (samples: Float32Array): Int16Array => {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return out;
+};
+
+/**
+ * Encode to MP3 in the browser with an ID3v2 header carrying title, cover art and chapters.
+ * Episodes with more than two channels are reduced to their first two.
+ */
+export const encodeMp3 = async (audioBuffer: AudioBuffer, metadata: EpisodeMetadata, kbps = 128): Promise<Uint8Array> => {
+  const channels = Math.min(2, audioBuffer.numberOfChannels);
+  const encoder = new Mp3Encoder(channels, audioBuffer.sampleRate, kbps);
+  const left = toInt16(audioBuffer.getChannelData(0));
+  const right = channels > 1 ? toInt16(audioBuffer.getChannelData(1)) : undefined;
+
+  const parts: Uint8Array[] = [buildId3Tag(metadata)];
+  for (let i = 0, frame = 0; i < left.length; i += FRAME_SAMPLES, frame++) {
+    const chunk = encoder.encodeBuffer(
+      left.subarray(i, i + FRAME_SAMPLES),
+      right?.subarray(i, i + FRAME_SAMPLES)
+    );
+    if (chunk.length > 0) parts.push(chunk);
+    if (frame % FRAMES_PER_YIELD === FRAMES_PER_YIELD - 1) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(tail);
+
+  return concatBytes(parts);
+};
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_CAST, DEFAULT_EPISODE_FORMAT, DEFAULT_STITCH_OPTIONS } from "../constants";
+import { DEFAULT_PROVIDER_CONFIG, setProviderConfig } from "./providers";
+import { createEpisodeAssets, writeScript } from "./pipeline";
+import { createTestContext } from "../test/fakeAudio";
+
+// The whole pipeline on the offline mock backend: no key, network or browser audio
+describe("pipeline with the mock providers", () => {
+  const cast = DEFAULT_CAST();
+  const format = { ...DEFAULT_EPISODE_FORMAT, targetMinutes: 1 };
+  const audioOptions = { stitchOptions: DEFAULT_STITCH_OPTIONS, sourceUrls: [] };
+
+  beforeAll(() => setProviderConfig({ ...DEFAULT_PROVIDER_CONFIG, backend: "mock" }));
+
+  it("writes the same valid script for the same input", async () => {
+    const script = await writeScript({ topic: "Tide pools", cast, format }, []);
+    expect(script.topic).toBe("Tide pools");
+    expect(script.dialogue.length).toBeGreaterThan(0);
+    expect(script.dialogue.every(line => cast.some(member => member.name === line.speaker))).toBe(true);
+    expect(await writeScript({ topic: "Tide pools", cast, format }, [])).toEqual(script);
+  });
+
+  it("produces stitched line-by-line audio with timings, a cover and show notes", async () => {
+    const script = await writeScript({ topic: "Tide pools", cast, format }, []);
+    const assets = await createEpisodeAssets(script, cast, createTestContext(), { ...audioOptions, segmented: true });
+
+    expect(assets.segments).toHaveLength(script.dialogue.length);
+    expect(assets.lineTimings).toHaveLength(script.dialogue.length);
+    assets.lineTimings!.slice(1).forEach((timing, i) => expect(timing.start).toBeGreaterThan(assets.lineTimings![i].end));
+    expect(assets.audioBuffer.duration).toBeCloseTo(assets.lineTimings![script.dialogue.length - 1].end, 3);
+    expect(assets.coverImageBase64).toMatch(/^data:image\/svg\+xml;base64,/);
+    expect(assets.showNotes?.takeaways.length).toBeGreaterThan(0);
+  });
+
+  it("produces one combined take without segments", async () => {
+    const script = await writeScript({ topic: "Tide pools", cast, format }, []);
+    const assets = await createEpisodeAssets(script, cast, createTestContext(), { ...audioOptions, segmented: false });
+    expect(assets.segments).toBeNull();
+    expect(assets.audioBuffer.duration).toBeGreaterThan(0);
+  });
+
+  it("stops when the run is cancelled", async () => {
+    const controller = new AbortController();
+    const writing = writeScript({ topic: "Tide pools", cast, format }, [], controller.signal);
+    controller.abort();
+    await expect(writing).rejects.toMatchObject({ category: "cancelled" });
+  });
+});
\ No newline at end of file
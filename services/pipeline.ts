@@ -0,0 +1,245 @@
+import {
+  CastMember,
+  CoverArtRequest,
+  EpisodePlanItem,
+  LineTiming,
+  PodcastEpisode,
+  PodcastScript,
+  RecordedTake,
+  ScriptOptions,
+  Show,
+  ShowNotes,
+  SourceDocument,
+  StitchOptions
+} from "../types";
+import { SINGLE_PASS_MAX_MINUTES, STEP_RETRIES } from "../constants";
+import { withRetry } from "./concurrency";
+import { PodcastError, classifyError } from "./errors";
+import { stitchSegments } from "./audioSegments";
+import {
+  answerListenerQuestion,
+  generateAudio,
+  generateAudioSegments,
+  generateCoverArt,
+  generateScript,
+  prepareSources,
+  proposeEpisodePlan,
+  reviewScript,
+  writeShowNotes
+} from "./podcastService";
+import { applyFlags, inspectScript, rejectDialogue } from "./scriptValidation";
+import { blendRecordedLines } from "./recordedLines";
+
+/**
+ * Orchestrates the generation steps: each one is retried on transient errors,
+ * honours the caller's AbortSignal, and fails with a categorized PodcastError.
+ */
+
+export interface EpisodeAudio {
+  audioBuffer: AudioBuffer;
+  segments: AudioBuffer[] | null;
+  lineTimings: LineTiming[] | null;
+}
+
+export interface EpisodeAssets extends EpisodeAudio {
+  coverImageBase64: string | null;
+  coverError: PodcastError | null; // Set when the episode is delivered without its cover
+  showNotes: ShowNotes | null; // Nice to have; missing notes never fail the episode
+}
+
+export interface AudioStepOptions {
+  segmented: boolean;
+  stitchOptions: StitchOptions;
+  onSegmentProgress?: (done: number, total: number) => void;
+  recordedTakes?: (RecordedTake | null)[]; // Parallel to the dialogue; lines with a take aren't synthesized
+}
+
+export interface AssetOptions extends AudioStepOptions {
+  coverStyle?: string; // The show's visual identity, when the episode belongs to one
+  sourceUrls: string[];
+}
+
+const retryStep = <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+  withRetry(task, { retries: STEP_RETRIES, signal });
+
+/**
+ * Step 1: read the sources and write the script. Scripts that are still malformed or far off
+ * the target length after repair are written again, with what was wrong passed along.
+ * Long episodes are written in several calls that the provider retries one by one, so only
+ * a rejected script is rewritten here, never one that failed on a transient error.
+ */
+export const writeScript = async (
+  options: Omit<ScriptOptions, "sources">,
+  sources: SourceDocument[],
+  signal?: AbortSignal
+): Promise<PodcastScript> => {
+  const prepared = sources.length > 0 ? await prepareSources(sources, signal) : [];
+  let feedback: string[] = [];
+  const draft = async () => {
+    const generated = await generateScript({ ...options, sources: prepared, feedback }, signal);
+    const inspected = inspectScript(generated, options.cast, options.format);
+    feedback = inspected.problems;
+    return inspected;
+  };
+
+  if (options.format.targetMinutes <= SINGLE_PASS_MAX_MINUTES) {
+    // A rejected script is a parse error, so the retry asks the model again
+    return retryStep(async () => {
+      const { script, problems } = await draft();
+      if (problems.length > 0) throw rejectDialogue(problems);
+      return script;
+    }, signal);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const { script, problems } = await draft();
+    if (problems.length === 0) return script;
+    if (attempt >= STEP_RETRIES) throw rejectDialogue(problems);
+  }
+};
+
+/**
+ * Step 1b (optional): fact-check and policy-review the script, flagging lines inline.
+ */
+export const checkScript = async (script: PodcastScript, signal?: AbortSignal): Promise<PodcastScript> =>
+  applyFlags(script, await retryStep(() => reviewScript(script, signal), signal));
+
+/**
+ * Series mode: a season plan for a show.
+ */
+export const planSeason = (show: Show, count: number, signal?: AbortSignal): Promise<EpisodePlanItem[]> =>
+  retryStep(() => proposeEpisodePlan(show, count, signal), signal);
+
+/**
+ * Step 2: cover art on its own, also used to retry a missing cover later.
+ */
+export const createCover = (script: PodcastScript, visualStyle?: string, signal?: AbortSignal): Promise<string> =>
+  retryStep(() => generateCoverArt({ title: script.title, topic: script.topic, visualStyle }, signal), signal);
+
+/**
+ * Cover studio: several alternatives for the same request, generated in parallel.
+ * Fails only when every variant does.
+ */
+export const createCoverVariants = async (
+  request: CoverArtRequest,
+  count: number,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, variant) =>
+      retryStep(() => generateCoverArt({ ...request, variant }, signal), signal)
+    )
+  );
+  const images = results.flatMap(result => result.status === "fulfilled" ? [result.value] : []);
+  if (images.length === 0) throw classifyError((results[0] as PromiseRejectedResult).reason);
+  return images;
+};
+
+export const createShowNotes = (script: PodcastScript, sourceUrls: string[], signal?: AbortSignal): Promise<ShowNotes> =>
+  retryStep(() => writeShowNotes({ script, sourceUrls }, signal), signal);
+
+/**
+ * Step 3: audio, either in one request or line by line and stitched.
+ * Segmented lines are retried individually, so only the combined call is retried here.
+ * Lines recorded by human speakers are always stitched in with the synthesized ones.
+ */
+export const createAudio = async (
+  script: PodcastScript,
+  cast: CastMember[],
+  audioContext: AudioContext,
+  { segmented, stitchOptions, onSegmentProgress, recordedTakes }: AudioStepOptions,
+  signal?: AbortSignal
+): Promise<EpisodeAudio> => {
+  const speakers = script.dialogue.map(line => line.speaker);
+  if (recordedTakes?.some(Boolean)) {
+    const synthesized = script.dialogue.filter((_, i) => !recordedTakes[i]);
+    const voiced = await generateAudioSegments({ ...script, dialogue: synthesized }, cast, audioContext, onSegmentProgress, signal);
+    let next = 0;
+    const placed = script.dialogue.map((_, i) => recordedTakes[i] ? null : voiced[next++]);
+    const segments = await blendRecordedLines(placed, recordedTakes, audioContext);
+    return { segments, ...stitchSegments(segments, speakers, stitchOptions, audioContext) };
+  }
+
+  if (!segmented) {
+    const audioBuffer = await retryStep(() => generateAudio(script, cast, audioContext, signal), signal);
+    return { audioBuffer, segments: null, lineTimings: null };
+  }
+
+  const segments = await generateAudioSegments(script, cast, audioContext, onSegmentProgress, signal);
+  return { segments, ...stitchSegments(segments, speakers, stitchOptions, audioContext) };
+};
+
+/**
+ * Steps 2 & 3 in parallel, plus show notes. Audio is required; a failed cover doesn't sink
+ * the episode, it comes back as `coverError` so the user can retry just the cover.
+ */
+export const createEpisodeAssets = async (
+  script: PodcastScript,
+  cast: CastMember[],
+  audioContext: AudioContext,
+  { coverStyle, sourceUrls, ...audioOptions }: AssetOptions,
+  signal?: AbortSignal
+): Promise<EpisodeAssets> => {
+  const [cover, audio, notes] = await Promise.allSettled([
+    createCover(script, coverStyle, signal),
+    createAudio(script, cast, audioContext, audioOptions, signal),
+    createShowNotes(script, sourceUrls, signal)
+  ]);
+
+  if (audio.status === "rejected") throw classifyError(audio.reason);
+  if (notes.status === "rejected") console.error(notes.reason);
+  return {
+    ...audio.value,
+    coverImageBase64: cover.status === "fulfilled" ? cover.value : null,
+    coverError: cover.status === "rejected" ? classifyError(cover.reason) : null,
+    showNotes: notes.status === "fulfilled" ? notes.value : null
+  };
+};
+
+/**
+ * Call-in mode: the speakers answer a listener question, and the answer is appended to the
+ * script and to the dry speech. Segmented episodes get per-line segments for the answer so
+ * they stay re-recordable. The old mix no longer fits the longer episode and is dropped.
+ */
+export const answerCallIn = async (
+  episode: PodcastEpisode,
+  question: string,
+  atLine: number | null,
+  audioContext: AudioContext,
+  signal?: AbortSignal
+): Promise<PodcastEpisode> => {
+  const { script, cast, stitchOptions } = episode;
+  const dry = episode.dryAudioBuffer ?? episode.audioBuffer;
+  if (!dry) throw new Error("This episode has no audio to continue");
+
+  const lines = await retryStep(
+    () => answerListenerQuestion({ script, question, cast, format: episode.settings.format, atLine }, signal),
+    signal
+  );
+  const answer = { ...script, dialogue: lines };
+  const dialogue = [...script.dialogue, ...lines];
+  const firstLine = script.dialogue.length;
+
+  let audio: EpisodeAudio;
+  let startTime: number;
+  if (episode.segments) {
+    const segments = [...episode.segments, ...await generateAudioSegments(answer, cast, audioContext, undefined, signal)];
+    audio = { segments, ...stitchSegments(segments, dialogue.map(line => line.speaker), stitchOptions, audioContext) };
+    startTime = audio.lineTimings![firstLine].start;
+  } else {
+    const answerAudio = await retryStep(() => generateAudio(answer, cast, audioContext, signal), signal);
+    // Stitched as two "lines" by different speakers, which puts a speaker-change gap between them
+    const joined = stitchSegments([dry, answerAudio], ["episode", "call-in"], stitchOptions, audioContext);
+    audio = { audioBuffer: joined.audioBuffer, segments: null, lineTimings: null };
+    startTime = joined.lineTimings[1].start;
+  }
+
+  return {
+    ...episode,
+    ...audio,
+    script: { ...script, dialogue },
+    dryAudioBuffer: null,
+    mix: null,
+    callIns: [...episode.callIns, { question, askedAt: Date.now(), firstLine, lineCount: lines.length, startTime }]
+  };
+};
\ No newline at end of file
@@ -0,0 +1,208 @@
+import {
+  CallInRequest,
+  CastMember,
+  CoverArtRequest,
+  DialogueLine,
+  EpisodePlanItem,
+  LineFlag,
+  PodcastScript,
+  PreparedSource,
+  ScriptOptions,
+  Show,
+  ShowNotes,
+  ShowNotesRequest,
+  SourceDocument,
+  SpeechRequest
+} from "../types";
+import { MAX_SOURCE_CHARS, SEGMENT_CONCURRENCY, SEGMENT_RETRIES, SOURCE_SUMMARY_CHUNK_CHARS } from "../constants";
+import { mapWithConcurrency, withRetry } from "./concurrency";
+import { joinTakes, stitchSegments } from "./audioSegments";
+import { toSpeechTakes } from "./speechMarkup";
+import { getLexicon } from "./pronunciationLexicon";
+import { chunkText, toPassages } from "./sourceMaterial";
+import { getProviders } from "./providers";
+
+/**
+ * Podcast generation steps, independent of which backend serves them.
+ * Model calls go through the providers configured in ./providers.
+ */
+
+/**
+ * Step 0 (optional): Extract plain text from an uploaded document such as a PDF.
+ */
+export const extractDocumentText = (base64Data: string, mimeType: string, signal?: AbortSignal): Promise<string> =>
+  getProviders().script.extractDocumentText(base64Data, mimeType, signal);
+
+/**
+ * Step 0 (optional): Fetch the readable text of a web page.
+ */
+export const fetchUrlText = (url: string, signal?: AbortSignal): Promise<string> =>
+  getProviders().script.fetchUrlText(url, signal);
+
+/**
+ * Step 0 (optional): Split sources into citable passages.
+ * When all sources together exceed the context budget, each one is condensed in proportion
+ * to its size, chunk by chunk, before being split.
+ */
+export const prepareSources = async (sources: SourceDocument[], signal?: AbortSignal): Promise<PreparedSource[]> => {
+  const { script } = getProviders();
+  const totalChars = sources.reduce((sum, source) => sum + source.text.length, 0);
+  const ratio = Math.min(1, MAX_SOURCE_CHARS / Math.max(1, totalChars));
+
+  return Promise.all(sources.map(async (source, i) => {
+    if (ratio === 1) {
+      return { name: source.name, passages: toPassages(source.text, i), condensed: false };
+    }
+
+    const chunks = chunkText(source.text, SOURCE_SUMMARY_CHUNK_CHARS);
+    const summaries = await mapWithConcurrency(chunks, SEGMENT_CONCURRENCY, chunk =>
+      withRetry(() => script.condenseText(chunk, source.name, Math.round(chunk.length * ratio), signal), { retries: SEGMENT_RETRIES, signal }),
+      signal
+    );
+    return { name: source.name, passages: toPassages(summaries.join("\n\n"), i), condensed: true };
+  }));
+};
+
+/**
+ * Step 1: Generate the Podcast Script
+ * With sources attached, the script is grounded in them and lines cite the passages they use.
+ */
+export const generateScript = (options: ScriptOptions, signal?: AbortSignal): Promise<PodcastScript> =>
+  getProviders().script.generateScript(options, signal);
+
+/**
+ * Rewrite a single line of a script following the user's instruction.
+ */
+export const rewriteLine = (
+  script: PodcastScript,
+  index: number,
+  instruction: string,
+  cast: CastMember[],
+  signal?: AbortSignal
+): Promise<string> => getProviders().script.rewriteLine({ script, index, instruction, cast }, signal);
+
+/**
+ * Series mode: propose a season of episode topics for a show.
+ */
+export const proposeEpisodePlan = (show: Show, count: number, signal?: AbortSignal): Promise<EpisodePlanItem[]> =>
+  getProviders().script.proposeEpisodePlan(show, count, signal);
+
+/**
+ * Show notes (description, takeaways, links) for a finished script.
+ */
+export const writeShowNotes = (request: ShowNotesRequest, signal?: AbortSignal): Promise<ShowNotes> =>
+  getProviders().script.writeShowNotes(request, signal);
+
+/**
+ * Call-in mode: the speakers' answer to a listener question, as new dialogue lines.
+ */
+export const answerListenerQuestion = (request: CallInRequest, signal?: AbortSignal): Promise<DialogueLine[]> =>
+  getProviders().script.answerListenerQuestion(request, signal);
+
+/**
+ * Transcribe a short recording, e.g. a question spoken into the microphone.
+ */
+export const transcribeAudio = (base64Data: string, mimeType: string, signal?: AbortSignal): Promise<string> =>
+  getProviders().script.transcribeAudio(base64Data, mimeType, signal);
+
+/**
+ * Step 2: Generate Cover Art
+ */
+export const generateCoverArt = (request: CoverArtRequest, signal?: AbortSignal): Promise<string> =>
+  getProviders().image.generateCoverArt(request, signal);
+
+/**
+ * Whether a cast is too large for the speech backend to voice in one request, or has
+ * human speakers whose recordings go between the lines, in which case audio has to be
+ * synthesized line by line.
+ */
+export const requiresSegmentedSynthesis = (cast: CastMember[]): boolean =>
+  cast.length > getProviders().speech.maxSpeakersPerRequest || cast.some(member => member.human);
+
+/**
+ * Step 3: Generate Multi-Speaker Audio
+ * Casts that fit in one TTS request are synthesized in a single call; larger casts
+ * fall back to one call per line, which are then joined back to back.
+ */
+export const generateAudio = async (
+  script: PodcastScript,
+  cast: CastMember[],
+  audioContext: AudioContext,
+  signal?: AbortSignal
+): Promise<AudioBuffer> => {
+  if (requiresSegmentedSynthesis(cast)) {
+    const segments = await generateAudioSegments(script, cast, audioContext, undefined, signal);
+    const speakers = script.dialogue.map(line => line.speaker);
+    return stitchSegments(segments, speakers, { speakerChangeGapMs: 0, sameSpeakerGapMs: 0 }, audioContext).audioBuffer;
+  }
+
+  const voices = cast.map(member => ({ speaker: member.name, voiceName: member.voiceName }));
+  return synthesizeMarkedUp(script.dialogue, voices, audioContext, signal);
+};
+
+/**
+ * Synthesize lines written with speech markup: the lexicon is applied, and every [pause]
+ * splits the request so the silence can be inserted exactly. Unpaused lines take one call.
+ */
+const synthesizeMarkedUp = async (
+  lines: DialogueLine[],
+  voices: SpeechRequest["voices"],
+  audioContext: AudioContext,
+  signal?: AbortSignal
+): Promise<AudioBuffer> => {
+  const takes = toSpeechTakes(lines, getLexicon());
+  const { speech } = getProviders();
+  if (takes.length === 1 && takes[0].pauseAfter === 0) {
+    return speech.synthesize({ lines: takes[0].lines, voices }, audioContext, signal);
+  }
+  const audio = await mapWithConcurrency(takes, SEGMENT_CONCURRENCY, take =>
+    take.lines.length > 0 ? speech.synthesize({ lines: take.lines, voices }, audioContext, signal) : Promise.resolve(null),
+  signal);
+  return joinTakes(audio, takes.map(take => take.pauseAfter), audioContext);
+};
+
+/**
+ * Step 3 (segmented): Synthesize every line on its own.
+ * Lines are requested with bounded concurrency and retried individually, so a
+ * single failure doesn't cost the whole episode. Segments keep dialogue order.
+ */
+export const generateAudioSegments = async (
+  script: PodcastScript,
+  cast: CastMember[],
+  audioContext: AudioContext,
+  onLineDone?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<AudioBuffer[]> => {
+  let completed = 0;
+  return mapWithConcurrency(script.dialogue, SEGMENT_CONCURRENCY, async (line) => {
+    const segment = await generateLineAudio(line, cast, audioContext, signal);
+    onLineDone?.(++completed, script.dialogue.length);
+    return segment;
+  }, signal);
+};
+
+/**
+ * Synthesize a single dialogue line in its speaker's voice.
+ * Used by segmented synthesis and for re-recording one line of an episode.
+ */
+export const generateLineAudio = async (
+  line: DialogueLine,
+  cast: CastMember[],
+  audioContext: AudioContext,
+  signal?: AbortSignal
+): Promise<AudioBuffer> => {
+  const voices = [voiceFor(cast, line.speaker)];
+  return withRetry(() => synthesizeMarkedUp([line], voices, audioContext, signal), { retries: SEGMENT_RETRIES, signal });
+};
+
+const voiceFor = (cast: CastMember[], speaker: string) => {
+  const member = cast.find(m => m.name === speaker);
+  if (!member) throw new Error(`Speaker "${speaker}" is not in the cast`);
+  return { speaker: member.name, voiceName: member.voiceName };
+};
+
+/**
+ * Review a script for doubtful factual claims and content-policy issues, line by line.
+ */
+export const reviewScript = (script: PodcastScript, signal?: AbortSignal): Promise<LineFlag[]> =>
+  getProviders().script.reviewScript(script, signal);
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { PronunciationEntry } from "../types";
+
+/**
+ * The project's pronunciation lexicon, kept in local storage and applied to every TTS prompt.
+ */
+
+const LEXICON_KEY = "geminicast.lexicon";
+
+export const getLexicon = (): PronunciationEntry[] => {
+  try {
+    const raw = localStorage.getItem(LEXICON_KEY);
+    const stored = raw ? JSON.parse(raw) : [];
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Entries missing a term or a spoken form are dropped; a repeated term keeps its last entry
+export const setLexicon = (entries: PronunciationEntry[]) => {
+  const byTerm = new Map<string, PronunciationEntry>();
+  for (const entry of entries) {
+    const term = entry.term.trim();
+    const spoken = entry.spoken.trim();
+    if (term && spoken) byTerm.set(term, { term, spoken });
+  }
+  localStorage.setItem(LEXICON_KEY, JSON.stringify([...byTerm.values()]));
+};
\ No newline at end of file
@@ -0,0 +1,798 @@
+import {
+  FinishReason,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Modality,
+  SpeechConfig,
+  Type
+} from "@google/genai";
+import {
+  CallInRequest,
+  CastMember,
+  CoverArtRequest,
+  DialogueLine,
+  EpisodePlanItem,
+  GeminiConnection,
+  GeminiEndpoint,
+  GeminiModelConfig,
+  LineFlag,
+  LineRewriteRequest,
+  PodcastProviders,
+  PodcastScript,
+  PreparedSource,
+  ScriptOptions,
+  Show,
+  ShowNotes,
+  ShowNotesRequest,
+  SpeechRequest
+} from "../../types";
+import { CALL_IN_MINUTES, COVER_STYLE_PRESETS, DEFAULT_COVER_PRESET, SINGLE_PASS_MAX_MINUTES, STEP_RETRIES } from "../../constants";
+import { decodeAudioPart } from "../audioDecoding";
+import { withRetry } from "../concurrency";
+import { PodcastError } from "../errors";
+import { resolveCitations } from "../sourceMaterial";
+import { stripMarkup } from "../speechMarkup";
+import { assertWithinBudget, recordUsage } from "../usageTracker";
+import { describeCast, describeFeedback, describeGrounding, describeLength, describeShow, describeStructure, describeStyle } from "../scriptPrompts";
+import { checkDialogueLength, rejectDialogue } from "../scriptValidation";
+import { createGeminiTransport, GeminiTransport } from "./geminiTransport";
+
+/**
+ * Gemini implementation of the script, image and speech providers.
+ */
+
+// The TTS model accepts at most this many speakers in a single multi-speaker request.
+const MAX_SPEAKERS_PER_TTS_REQUEST = 2;
+
+interface GeminiClient {
+  models: GeminiModelConfig;
+  transport: GeminiTransport;
+}
+
+// The app server routes each kind of model to its own endpoint, with its own limits
+const endpointFor = (models: GeminiModelConfig, model: string): GeminiEndpoint =>
+  model === models.image ? "cover" : model === models.speech ? "audio" : "script";
+
+const SAFETY_FINISH_REASONS: ReadonlySet<string> = new Set([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+]);
+
+// Every model call goes through here: it enforces the budget, wires up cancellation, records
+// usage and turns safety blocks into errors
+const generate = async (
+  { models, transport }: GeminiClient,
+  signal: AbortSignal | undefined,
+  params: GenerateContentParameters
+): Promise<GenerateContentResponse> => {
+  assertWithinBudget();
+  const response = await transport.generateContent(endpointFor(models, params.model), params, signal);
+
+  const usage = response.usageMetadata;
+  recordUsage(params.model, {
+    calls: 1,
+    promptTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+    images: response.candidates?.[0]?.content?.parts?.filter(part => part.inlineData?.mimeType?.startsWith("image/")).length ?? 0
+  }, signal);
+
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.has(finishReason))) {
+    throw new PodcastError('safety', `The request was blocked by safety filters (${blockReason ?? finishReason}). Try rephrasing the topic or editing the script.`);
+  }
+  return response;
+};
+
+const parseJson = <T>(text: string | undefined): T => {
+  if (!text) throw new PodcastError('parse');
+  try {
+    return JSON.parse(text) as T;
+  } catch (err) {
+    throw new PodcastError('parse', undefined, err);
+  }
+};
+
+/**
+ * Extract plain text from an uploaded document such as a PDF.
+ * Uses the utility model, which reads PDFs natively.
+ */
+const extractDocumentText = async (client: GeminiClient, base64Data: string, mimeType: string, signal?: AbortSignal): Promise<string> => {
+  const { models } = client;
+
+  const response = await generate(client, signal, {
+    model: models.utility,
+    contents: {
+      parts: [
+        { inlineData: { data: base64Data, mimeType } },
+        { text: "Extract the full text of this document as plain text. Preserve paragraph breaks. Do not summarize, translate or add commentary." }
+      ]
+    }
+  });
+
+  const text = response.text?.trim();
+  if (!text) throw new PodcastError('parse', "No text could be extracted from the document.");
+  return text;
+};
+
+/**
+ * Transcribe a short spoken recording, such as a listener's call-in question.
+ */
+const transcribeAudio = async (client: GeminiClient, base64Data: string, mimeType: string, signal?: AbortSignal): Promise<string> => {
+  const { models } = client;
+
+  const response = await generate(client, signal, {
+    model: models.utility,
+    contents: {
+      parts: [
+        { inlineData: { data: base64Data, mimeType } },
+        { text: "Transcribe this recording verbatim as plain text in its original language. Return only the transcript." }
+      ]
+    }
+  });
+
+  const text = response.text?.trim();
+  if (!text) throw new PodcastError('parse', "Nothing could be heard in the recording. Try again or type the question.");
+  return text;
+};
+
+/**
+ * Fetch the readable text of a web page via the URL context tool.
+ * Pages are fetched by the model, which avoids browser CORS restrictions.
+ */
+const fetchUrlText = async (client: GeminiClient, url: string, signal?: AbortSignal): Promise<string> => {
+  const { models } = client;
+
+  const response = await generate(client, signal, {
+    model: models.utility,
+    contents: `Read ${url} and return its main textual content verbatim as plain text, preserving paragraph breaks.
+  Leave out navigation, ads and footers. Do not summarize or add commentary.`,
+    config: {
+      tools: [{ urlContext: {} }]
+    }
+  });
+
+  const text = response.text?.trim();
+  if (!text) throw new PodcastError('parse', `Could not read ${url}.`);
+  return text;
+};
+
+const condenseText = async (
+  client: GeminiClient,
+  text: string,
+  sourceName: string,
+  targetChars: number,
+  signal?: AbortSignal
+): Promise<string> => {
+  const { models } = client;
+
+  const response = await generate(client, signal, {
+    model: models.utility,
+    contents: `Condense the following excerpt from "${sourceName}" to about ${targetChars} characters.
+  Keep key facts, figures, names, decisions and short verbatim quotes. Write plain paragraphs, no headings or commentary.
+
+  ${text}`
+  });
+
+  const condensed = response.text?.trim();
+  if (!condensed) throw new PodcastError('parse', `Could not condense "${sourceName}".`);
+  return condensed;
+};
+
+/**
+ * Generate the Podcast Script (JSON) with the script model.
+ * With sources attached, the script is grounded in them and lines cite the passages they use.
+ * Episodes longer than SINGLE_PASS_MAX_MINUTES are outlined first and then expanded section
+ * by section, which keeps long scripts coherent. Each of those calls is retried on its own,
+ * so a failed section doesn't restart the whole script.
+ */
+const generateScript = async (client: GeminiClient, options: ScriptOptions, signal?: AbortSignal): Promise<PodcastScript> => {
+  return options.format.targetMinutes > SINGLE_PASS_MAX_MINUTES
+    ? generateScriptFromOutline(client, options, signal)
+    : generateScriptSinglePass(client, options, signal);
+};
+
+type RawDialogueLine = Omit<DialogueLine, "citations"> & { citations?: string[] };
+
+const dialogueSchema = (cast: CastMember[], withCitations: boolean) => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      speaker: { type: Type.STRING, enum: cast.map(member => member.name) },
+      text: { type: Type.STRING, description: "The spoken text" },
+      ...(withCitations && {
+        citations: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: "IDs of the source passages supporting this line"
+        }
+      })
+    },
+    required: ["speaker", "text"]
+  }
+});
+
+const toDialogue = (raw: RawDialogueLine[], sources: PreparedSource[]): DialogueLine[] =>
+  raw.map(({ citations, ...line }) =>
+    sources.length > 0 ? { ...line, citations: resolveCitations(citations, sources) } : line
+  );
+
+const generateScriptSinglePass = async (
+  client: GeminiClient,
+  { topic, cast, format, sources = [], show, feedback }: ScriptOptions,
+  signal?: AbortSignal
+): Promise<PodcastScript> => {
+  const { models } = client;
+
+  const prompt = `Create an engaging podcast script about: "${topic}".
+  ${describeCast(cast)}
+  ${describeShow(show)}
+  ${describeLength(format.targetMinutes)}
+  ${describeStyle(format)}
+  ${describeStructure(format)}
+  ${describeGrounding(sources)}
+  ${describeFeedback(feedback)}
+  Return ONLY valid JSON.`;
+
+  const response = await generate(client, signal, {
+    model: models.script,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: "A catchy title for the episode" },
+          topic: { type: Type.STRING },
+          dialogue: dialogueSchema(cast, sources.length > 0)
+        },
+        required: ["title", "topic", "dialogue"]
+      }
+    }
+  });
+
+  const script = parseJson<Omit<PodcastScript, "dialogue"> & { dialogue: RawDialogueLine[] }>(response.text);
+  return { ...script, dialogue: toDialogue(script.dialogue, sources) };
+};
+
+interface OutlineSection {
+  heading: string;
+  summary: string;
+  minutes: number;
+  passageIds?: string[];
+}
+
+// Continuity context handed from one section to the next
+const CONTINUITY_LINES = 6;
+
+const generateScriptFromOutline = async (
+  client: GeminiClient,
+  { topic, cast, format, sources = [], show, feedback = [] }: ScriptOptions,
+  signal?: AbortSignal
+): Promise<PodcastScript> => {
+  const { models } = client;
+  const { intro, sectionCount, outro, callToAction } = format.structure;
+  const bodyMinutes = format.targetMinutes - (intro ? 1 : 0) - (outro ? 1 : 0);
+
+  const outlinePrompt = `Plan a podcast episode about: "${topic}".
+  ${describeCast(cast)}
+  ${describeShow(show)}
+  The main body runs about ${bodyMinutes} minutes in total.
+  ${describeStyle(format)}
+  ${sectionCount > 0 ? `Split the body into exactly ${sectionCount} sections.` : "Split the body into 3-6 sections."}
+  For each section give a heading, a summary of what the speakers discuss, and its share of the minutes.
+  ${sources.length > 0 ? "List the IDs of the source passages each section should draw on in \"passageIds\"." : ""}
+  ${describeGrounding(sources)}
+  ${describeFeedback(feedback)}
+  Return ONLY valid JSON.`;
+
+  const outline = await withRetry(async () => {
+    const response = await generate(client, signal, {
+      model: models.script,
+      contents: outlinePrompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING, description: "A catchy title for the episode" },
+            topic: { type: Type.STRING },
+            sections: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  heading: { type: Type.STRING },
+                  summary: { type: Type.STRING },
+                  minutes: { type: Type.NUMBER },
+                  ...(sources.length > 0 && { passageIds: { type: Type.ARRAY, items: { type: Type.STRING } } })
+                },
+                required: ["heading", "summary", "minutes"]
+              }
+            }
+          },
+          required: ["title", "topic", "sections"]
+        }
+      }
+    });
+    return parseJson<{ title: string; topic: string; sections: OutlineSection[] }>(response.text);
+  }, { retries: STEP_RETRIES, signal });
+
+  const sections: OutlineSection[] = [
+    ...(intro ? [{ heading: "Intro", summary: "Hook the listener, introduce the speakers and preview the episode.", minutes: 1 }] : []),
+    ...fitMinutes(outline.sections, bodyMinutes),
+    ...(outro ? [{
+      heading: "Outro",
+      summary: `Recap the key points and say goodbye.${callToAction.trim() ? ` End with this call to action: "${callToAction.trim()}".` : ""}`,
+      minutes: 1
+    }] : [])
+  ];
+  const overview = sections.map((section, i) => `${i + 1}. ${section.heading}: ${section.summary}`).join("\n  ");
+
+  // Sections are written in order so each one can pick up where the previous left off
+  const dialogue: DialogueLine[] = [];
+  for (const [i, section] of sections.entries()) {
+    const sectionSources = selectPassages(sources, section.passageIds);
+    const previous = dialogue.slice(-CONTINUITY_LINES).map(line => `${line.speaker}: ${line.text}`).join("\n  ");
+    const minutes = Math.max(0.5, section.minutes);
+
+    const sectionPrompt = (sectionFeedback: string[]) => `You are writing the podcast episode "${outline.title}" about "${topic}" one section at a time.
+  ${describeCast(cast)}
+  ${describeShow(show)}
+  ${describeStyle(format)}
+
+  Episode outline:
+  ${overview}
+
+  Write ONLY section ${i + 1} ("${section.heading}"): ${section.summary}
+  ${describeLength(minutes)}
+  ${i === 0 ? "This is the very start of the episode." : `Continue naturally from the previous lines without repeating them:\n  ${previous}`}
+  ${i === sections.length - 1 ? "This is the end of the episode." : "Do not wrap up the episode yet."}
+  ${describeGrounding(sectionSources)}
+  ${describeFeedback([...feedback, ...sectionFeedback])}
+  Return ONLY valid JSON.`;
+
+    // A section far off its length is asked for again on its own, told what was wrong
+    let sectionFeedback: string[] = [];
+    const lines = await withRetry(async () => {
+      const response = await generate(client, signal, {
+        model: models.script,
+        contents: sectionPrompt(sectionFeedback),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: { dialogue: dialogueSchema(cast, sectionSources.length > 0) },
+            required: ["dialogue"]
+          }
+        }
+      });
+      const lines = toDialogue(parseJson<{ dialogue: RawDialogueLine[] }>(response.text).dialogue, sectionSources);
+      const problems = checkDialogueLength(lines, minutes, `Section ${i + 1}`);
+      if (problems.length > 0) {
+        sectionFeedback = problems;
+        throw rejectDialogue(problems, "section");
+      }
+      return lines;
+    }, { retries: STEP_RETRIES, signal });
+    dialogue.push(...lines);
+  }
+
+  return { title: outline.title, topic: outline.topic, dialogue };
+};
+
+// Scale the outline's minutes to the body's length, splitting it evenly if the model gave none
+const fitMinutes = (sections: OutlineSection[], bodyMinutes: number): OutlineSection[] => {
+  const planned = sections.reduce((sum, section) => sum + (section.minutes > 0 ? section.minutes : 0), 0);
+  return sections.map(section => ({
+    ...section,
+    minutes: planned > 0 ? (Math.max(0, section.minutes) || 0) * bodyMinutes / planned : bodyMinutes / sections.length
+  }));
+};
+
+// Narrow sources to the passages an outline section asked for; all of them if it named none
+const selectPassages = (sources: PreparedSource[], passageIds: string[] | undefined): PreparedSource[] => {
+  if (!passageIds || passageIds.length === 0) return sources;
+  const wanted = new Set(passageIds.map(id => id.replace(/[[\]\s]/g, "").toUpperCase()));
+  const selected = sources
+    .map(source => ({ ...source, passages: source.passages.filter(p => wanted.has(p.id)) }))
+    .filter(source => source.passages.length > 0);
+  return selected.length > 0 ? selected : sources;
+};
+
+/**
+ * Rewrite a single line of a script following the user's instruction.
+ * The rest of the script is sent as context so the new line still fits the conversation.
+ */
+const rewriteLine = async (
+  client: GeminiClient,
+  { script, index, instruction, cast }: LineRewriteRequest,
+  signal?: AbortSignal
+): Promise<string> => {
+  const { models } = client;
+
+  const line = script.dialogue[index];
+  const persona = cast.find(member => member.name === line.speaker)?.persona;
+  const context = script.dialogue.map((l, i) => `${i === index ? ">>" : "  "} ${l.speaker}: ${l.text}`).join("\n");
+
+  const prompt = `Here is a podcast script titled "${script.title}". The line marked with ">>" needs rewriting.
+
+${context}
+
+Rewrite only the marked line, spoken by "${line.speaker}"${persona ? ` (${persona})` : ""}.
+Instruction: ${instruction || "Make it clearer and more natural."}
+It must still flow naturally from the previous line into the next one.
+Return ONLY valid JSON.`;
+
+  const response = await generate(client, signal, {
+    model: models.script,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: "The rewritten spoken text" }
+        },
+        required: ["text"]
+      }
+    }
+  });
+
+  const rewritten = parseJson<{ text: string }>(response.text).text?.trim();
+  if (!rewritten) throw new PodcastError('parse', "The model returned an empty line. Try again or rephrase the instruction.");
+  return rewritten;
+};
+
+/**
+ * Call-in mode: a short continuation in which the speakers take a listener's question.
+ * The whole script so far is context, so answers can build on earlier call-ins.
+ */
+const answerListenerQuestion = async (
+  client: GeminiClient,
+  { script, question, cast, format, atLine }: CallInRequest,
+  signal?: AbortSignal
+): Promise<DialogueLine[]> => {
+  const { models } = client;
+
+  const transcript = script.dialogue.map((line, i) => `${i + 1}. ${line.speaker}: ${line.text}`).join("\n");
+  const moment = atLine === null ? "after the episode ended" : `while listening to line ${atLine + 1}`;
+
+  const prompt = `Here is the podcast episode "${script.title}" about "${script.topic}" so far:
+
+${transcript}
+
+${describeCast(cast)}
+${describeStyle(format)}
+A listener called in ${moment} with this question: "${question}"
+Write a short continuation in which the speakers take the call. The first speaker reads the question out,
+then the speakers answer it in character, building on what was already said. Don't re-introduce the show.
+${describeLength(CALL_IN_MINUTES)}
+Return ONLY valid JSON.`;
+
+  const response = await generate(client, signal, {
+    model: models.script,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: { dialogue: dialogueSchema(cast, false) },
+        required: ["dialogue"]
+      }
+    }
+  });
+
+  const { dialogue } = parseJson<{ dialogue: DialogueLine[] }>(response.text);
+  const lines = (dialogue ?? []).filter(line => line.text?.trim());
+  if (lines.length === 0) throw new PodcastError('parse', "The hosts didn't come up with an answer. Try again or rephrase the question.");
+  return lines;
+};
+
+/**
+ * Review a script before synthesis: flag factual claims that look wrong or unverifiable,
+ * and content that may break a content policy. Only flagged lines are returned.
+ */
+const reviewScript = async (client: GeminiClient, script: PodcastScript, signal?: AbortSignal): Promise<LineFlag[]> => {
+  const { models } = client;
+  const transcript = script.dialogue.map((line, i) => `${i + 1}. ${line.speaker}: ${line.text}`).join("\n");
+
+  const prompt = `Review this podcast script about "${script.topic}" before it is recorded.
+Flag a line with kind "fact" when it states something as fact that is wrong, outdated or can't be verified,
+and with kind "policy" when it contains harmful, hateful, sexual or dangerous content, or medical, legal or
+financial advice given without caveats. Opinions, jokes and obvious hypotheticals are fine.
+For each flag give the line number and a one-sentence note explaining the problem, in the script's language.
+Return an empty list if nothing needs attention.
+
+SCRIPT:
+${transcript}
+
+Return ONLY valid JSON.`;
+
+  const response = await generate(client, signal, {
+    model: models.script,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          flags: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                line: { type: Type.INTEGER },
+                kind: { type: Type.STRING, enum: ["fact", "policy"] },
+                note: { type: Type.STRING }
+              },
+              required: ["line", "kind", "note"]
+            }
+          }
+        },
+        required: ["flags"]
+      }
+    }
+  });
+
+  const { flags } = parseJson<{ flags: LineFlag[] }>(response.text);
+  // The model numbers lines from 1; drop any that point outside the script
+  return (flags ?? [])
+    .map(flag => ({ ...flag, line: flag.line - 1, note: flag.note?.trim() ?? "" }))
+    .filter(flag => Number.isInteger(flag.line) && flag.line >= 0 && flag.line < script.dialogue.length && flag.note);
+};
+
+/**
+ * Propose a season of episodes for a show, in a sensible listening order.
+ */
+const proposeEpisodePlan = async (client: GeminiClient, show: Show, count: number, signal?: AbortSignal): Promise<EpisodePlanItem[]> => {
+  const { models } = client;
+
+  const prompt = `Plan a season of ${count} episodes for the podcast "${show.name}".
+  ${describeCast(show.cast)}
+  ${describeStyle(show.format)}
+  ${show.styleGuide.trim() ? `The show's style guide: ${show.styleGuide.trim()}` : ""}
+  For each episode give a specific topic and a one-sentence synopsis.
+  Order the episodes so they build on each other, and don't let them overlap.
+  Return ONLY valid JSON.`;
+
+  const response = await generate(client, signal, {
+    model: models.script,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          episodes: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                topic: { type: Type.STRING },
+                synopsis: { type: Type.STRING }
+              },
+              required: ["topic", "synopsis"]
+            }
+          }
+        },
+        required: ["episodes"]
+      }
+    }
+  });
+
+  const { episodes } = parseJson<{ episodes: EpisodePlanItem[] }>(response.text);
+  if (!episodes?.length) throw new PodcastError('parse', "The model didn't propose any episodes. Try again.");
+  return episodes.slice(0, count);
+};
+
+/**
+ * Write show notes for a finished script.
+ * Links are limited to the given source URLs and URLs spoken in the script, so none are invented.
+ */
+const writeShowNotes = async (
+  client: GeminiClient,
+  { script, sourceUrls }: ShowNotesRequest,
+  signal?: AbortSignal
+): Promise<ShowNotes> => {
+  const { models } = client;
+  const transcript = script.dialogue.map(line => `${line.speaker}: ${stripMarkup(line.text)}`).join("\n");
+
+  const prompt = `Write show notes for the podcast episode "${script.title}" (topic: ${script.topic}).
+Write them in the same language as the transcript.
+- description: two or three sentences a listener would read in their podcast app.
+- takeaways: three to five key points from the episode.
+- links: resources mentioned in the episode, with a short title each. Only use URLs that appear in the transcript${sourceUrls.length > 0 ? ` or in this list: ${sourceUrls.join(", ")}` : ""}. Leave it empty if there are none.
+
+TRANSCRIPT:
+${transcript}
+
+Return ONLY valid JSON.`;
+
+  const response = await generate(client, signal, {
+    model: models.utility,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          takeaways: { type: Type.ARRAY, items: { type: Type.STRING } },
+          links: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                url: { type: Type.STRING }
+              },
+              required: ["title", "url"]
+            }
+          }
+        },
+        required: ["description", "takeaways", "links"]
+      }
+    }
+  });
+
+  const notes = parseJson<ShowNotes>(response.text);
+  const allowed = (url: string) => sourceUrls.includes(url) || transcript.includes(url);
+  return {
+    description: notes.description ?? "",
+    takeaways: notes.takeaways ?? [],
+    links: (notes.links ?? []).filter(link => allowed(link.url))
+  };
+};
+
+/**
+ * Generate Cover Art with the image model.
+ * Episodes of a show pass its visual style so the covers read as one series.
+ */
+// Preset look, then the show's identity, then the user's own direction, which wins on conflicts
+const describeCoverStyle = ({ visualStyle, preset, customPrompt, variant }: CoverArtRequest): string => {
+  const parts = [COVER_STYLE_PRESETS[preset ?? DEFAULT_COVER_PRESET].instruction];
+  if (visualStyle?.trim()) {
+    parts.push(`Visual style shared by every episode of this show: ${visualStyle.trim()}. Keep its palette, composition and mood.`);
+  }
+  if (customPrompt?.trim()) parts.push(`Art direction (takes priority): ${customPrompt.trim()}`);
+  if (variant) parts.push(`This is alternative #${variant + 1}: choose a clearly different composition from the obvious one.`);
+  return parts.join("\n");
+};
+
+const generateCoverArt = async (
+  client: GeminiClient,
+  request: CoverArtRequest,
+  signal?: AbortSignal
+): Promise<string> => {
+  const { models } = client;
+  
+  // The title is drawn on afterwards by the cover compositor, so ask for clean art
+  const prompt = `Square cover art for a podcast episode titled "${request.title}" about ${request.topic}.
+  ${describeCoverStyle(request)}
+  Do not render any text, letters or logos.`;
+
+  const response = await generate(client, signal, {
+    model: models.image,
+    contents: {
+      parts: [{ text: prompt }]
+    },
+    config: {
+      imageConfig: {
+        aspectRatio: "1:1",
+        imageSize: "1K"
+      }
+    }
+  });
+
+  // Extract image
+  let base64Data = "";
+  if (response.candidates && response.candidates[0].content.parts) {
+    for (const part of response.candidates[0].content.parts) {
+        if (part.inlineData) {
+            base64Data = part.inlineData.data;
+            break;
+        }
+    }
+  }
+
+  if (!base64Data) throw new PodcastError('parse', "No image came back from the model. Try regenerating the cover.");
+  return `data:image/png;base64,${base64Data}`;
+};
+
+// How speech markup reaches the TTS model; pauses never get here, they're inserted as silence
+const DIRECTIONS_NOTE = "Text in square brackets, like [laughs] or [excited], tells you how to deliver the line: perform it, don't read it aloud. Words between asterisks are stressed.";
+
+const hasDirections = (lines: DialogueLine[]) => lines.some(line => line.style || /\[|\*/.test(line.text));
+
+const directedText = (line: DialogueLine) => line.style ? `[${line.style}] ${line.text}` : line.text;
+
+/**
+ * Synthesize speech with the TTS model.
+ * Multiple voices use the multi-speaker config, so the prompt has to name each line's
+ * speaker exactly as in the config. A lone line without directions is sent as bare text.
+ */
+const synthesize = async (
+  client: GeminiClient,
+  { lines, voices }: SpeechRequest,
+  audioContext: BaseAudioContext,
+  signal?: AbortSignal
+): Promise<AudioBuffer> => {
+  const voiceConfig = (voiceName: string) => ({ prebuiltVoiceConfig: { voiceName } });
+  const note = hasDirections(lines) ? ` ${DIRECTIONS_NOTE}` : "";
+
+  if (voices.length === 1) {
+    const prompt = lines.length === 1 && !note
+      ? lines[0].text
+      : `Read the following text exactly as written.${note}\n\n${lines.map(directedText).join("\n\n")}`;
+    return synthesizeSpeech(client, audioContext, signal, prompt, { voiceConfig: voiceConfig(voices[0].voiceName) });
+  }
+
+  // We need to format the prompt so the model knows who says what,
+  // matching the speaker names in the config.
+  const scriptText = lines.map(line => `${line.speaker}: ${directedText(line)}`).join("\n");
+
+  const prompt = `Read the following dialogue exactly as written, assigning the voices to the correct speakers.${note}\n\n${scriptText}`;
+
+  return synthesizeSpeech(client, audioContext, signal, prompt, {
+    multiSpeakerVoiceConfig: {
+      speakerVoiceConfigs: voices.map(voice => ({
+        speaker: voice.speaker,
+        voiceConfig: voiceConfig(voice.voiceName)
+      }))
+    }
+  });
+};
+
+const synthesizeSpeech = async (
+  client: GeminiClient,
+  audioContext: BaseAudioContext,
+  signal: AbortSignal | undefined,
+  prompt: string,
+  speechConfig: SpeechConfig
+): Promise<AudioBuffer> => {
+  const response = await generate(client, signal, {
+    model: client.models.speech,
+    contents: [{ parts: [{ text: prompt }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig
+    }
+  });
+
+  const audioPart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+  if (!audioPart?.data) throw new PodcastError('parse', "No audio came back from the model. Try again.");
+
+  // TTS returns raw PCM, which needs manual decoding
+  const buffer = await decodeAudioPart({ data: audioPart.data, mimeType: audioPart.mimeType }, audioContext);
+  recordUsage(client.models.speech, { audioSeconds: buffer.duration }, signal);
+  return buffer;
+};
+
+export const createGeminiProviders = (models: GeminiModelConfig, connection: GeminiConnection): PodcastProviders => {
+  const client: GeminiClient = { models, transport: createGeminiTransport(connection) };
+  return {
+    script: {
+      generateScript: (options, signal) => generateScript(client, options, signal),
+      rewriteLine: (request, signal) => rewriteLine(client, request, signal),
+      condenseText: (text, sourceName, targetChars, signal) => condenseText(client, text, sourceName, targetChars, signal),
+      extractDocumentText: (base64Data, mimeType, signal) => extractDocumentText(client, base64Data, mimeType, signal),
+      fetchUrlText: (url, signal) => fetchUrlText(client, url, signal),
+      proposeEpisodePlan: (show, count, signal) => proposeEpisodePlan(client, show, count, signal),
+      writeShowNotes: (request, signal) => writeShowNotes(client, request, signal),
+      answerListenerQuestion: (request, signal) => answerListenerQuestion(client, request, signal),
+      transcribeAudio: (base64Data, mimeType, signal) => transcribeAudio(client, base64Data, mimeType, signal),
+      reviewScript: (script, signal) => reviewScript(client, script, signal)
+    },
+    image: {
+      generateCoverArt: (request, signal) => generateCoverArt(client, request, signal)
+    },
+    speech: {
+      maxSpeakersPerRequest: MAX_SPEAKERS_PER_TTS_REQUEST,
+      synthesize: (request, audioContext, signal) => synthesize(client, request, audioContext, signal)
+    }
+  };
+};
\ No newline at end of file
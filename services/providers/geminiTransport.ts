@@ -0,0 +1,48 @@
+import { ApiError, GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { GeminiConnection, GeminiEndpoint } from "../../types";
+import { PodcastError } from "../errors";
+
+/**
+ * How Gemini requests leave the browser. By default they go to the app server, which holds
+ * the key; calling Gemini directly is only for a key the user entered in Settings.
+ */
+export interface GeminiTransport {
+  generateContent(endpoint: GeminiEndpoint, params: GenerateContentParameters, signal?: AbortSignal): Promise<GenerateContentResponse>;
+}
+
+const createDirectTransport = (apiKey: string): GeminiTransport => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  return {
+    generateContent: (_endpoint, params, signal) => {
+      if (!ai) throw new PodcastError('auth', "No API key entered. Add yours under Settings, or switch back to the app server.");
+      return ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } });
+    }
+  };
+};
+
+/**
+ * Posts the request parameters to `${baseUrl}/${endpoint}`. The server answers with the
+ * response JSON, which is rehydrated so `.text` works as with the SDK, or with `{ error }`.
+ */
+const createProxyTransport = (baseUrl: string): GeminiTransport => ({
+  generateContent: async (endpoint, params, signal) => {
+    const url = `${baseUrl.replace(/\/+$/, "")}/${endpoint}`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+      signal
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = response.status === 404
+        ? `No podcast server answered at ${url}. Start it with "npm run server", or check the server URL under Settings.`
+        : body?.error || response.statusText;
+      throw new ApiError({ status: response.status, message });
+    }
+    return Object.assign(new GenerateContentResponse(), body);
+  }
+});
+
+export const createGeminiTransport = (connection: GeminiConnection): GeminiTransport =>
+  connection.mode === "key" ? createDirectTransport(connection.apiKey) : createProxyTransport(connection.baseUrl);
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { GeminiConnection, PodcastProviders, ProviderBackend, ProviderConfig } from "../../types";
+import { DEFAULT_API_BASE_URL, DEFAULT_GEMINI_MODELS } from "../../constants";
+import { createGeminiProviders } from "./gemini";
+import { createMockProviders } from "./mock";
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  backend: "gemini",
+  gemini: {
+    models: DEFAULT_GEMINI_MODELS,
+    connection: { mode: "proxy", baseUrl: DEFAULT_API_BASE_URL }
+  }
+};
+
+// The connection picked in Settings, kept in this browser only
+const CONNECTION_STORAGE_KEY = "geminicast.connection";
+
+const loadStoredConnection = (): GeminiConnection | null => {
+  try {
+    const raw = localStorage.getItem(CONNECTION_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as GeminiConnection : null;
+  } catch {
+    return null;
+  }
+};
+
+// Build-time defaults for the server URL and models, injected by vite.config.ts from the environment
+const defaultConnection = (): GeminiConnection => ({
+  mode: "proxy",
+  baseUrl: process.env.PODCAST_API_URL || DEFAULT_API_BASE_URL
+});
+
+const configFromEnv = (): ProviderConfig => {
+  const models = DEFAULT_PROVIDER_CONFIG.gemini.models;
+  return {
+    backend: (process.env.PODCAST_PROVIDER as ProviderBackend) || DEFAULT_PROVIDER_CONFIG.backend,
+    gemini: {
+      models: {
+        script: process.env.GEMINI_SCRIPT_MODEL || models.script,
+        utility: process.env.GEMINI_UTILITY_MODEL || models.utility,
+        image: process.env.GEMINI_IMAGE_MODEL || models.image,
+        speech: process.env.GEMINI_SPEECH_MODEL || models.speech
+      },
+      connection: loadStoredConnection() ?? defaultConnection()
+    }
+  };
+};
+
+let config: ProviderConfig | null = null;
+let providers: PodcastProviders | null = null;
+
+export const getProviderConfig = (): ProviderConfig => {
+  if (!config) config = configFromEnv();
+  return config;
+};
+
+/**
+ * Replace the active configuration, e.g. to switch to the mock backend at runtime or in tests.
+ */
+export const setProviderConfig = (next: ProviderConfig) => {
+  config = next;
+  providers = null;
+};
+
+/**
+ * Switch how Gemini is reached and remember the choice in this browser.
+ * Passing null forgets it (including any stored key) and goes back to the default server.
+ */
+export const setGeminiConnection = (connection: GeminiConnection | null) => {
+  if (connection) localStorage.setItem(CONNECTION_STORAGE_KEY, JSON.stringify(connection));
+  else localStorage.removeItem(CONNECTION_STORAGE_KEY);
+  const current = getProviderConfig();
+  setProviderConfig({ ...current, gemini: { ...current.gemini, connection: connection ?? defaultConnection() } });
+};
+
+export const getProviders = (): PodcastProviders => {
+  if (!providers) {
+    const active = getProviderConfig();
+    switch (active.backend) {
+      case "mock":
+        providers = createMockProviders();
+        break;
+      case "gemini":
+        providers = createGeminiProviders(active.gemini.models, active.gemini.connection);
+        break;
+      default:
+        throw new Error(`Unknown provider backend "${active.backend}"`);
+    }
+  }
+  return providers;
+};
\ No newline at end of file
@@ -0,0 +1,208 @@
+import {
+  CallInRequest,
+  CoverArtRequest,
+  DialogueLine,
+  EpisodePlanItem,
+  LineFlag,
+  PodcastProviders,
+  PodcastScript,
+  ScriptOptions,
+  Show,
+  ShowNotes,
+  ShowNotesRequest,
+  SpeechRequest
+} from "../../types";
+import { SPOKEN_WORDS_PER_MINUTE } from "../../constants";
+import { targetLineCount } from "../scriptPrompts";
+import { stripMarkup } from "../speechMarkup";
+import { sleep } from "../concurrency";
+
+/**
+ * Offline, deterministic stand-in for the real providers.
+ * Same input always gives the same script, cover and audio, so the whole pipeline
+ * can run without a key or network.
+ */
+
+// Enough delay for the loading stages to be visible in the UI
+const MOCK_LATENCY_MS = 300;
+const MOCK_SAMPLE_RATE = 24000;
+
+const delay = (signal?: AbortSignal) => sleep(MOCK_LATENCY_MS, signal);
+
+// Small stable string hash (FNV-1a) used to derive colours and pitches
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const CANNED_LINES = [
+  (topic: string) => `Welcome back! Today we're digging into ${topic}.`,
+  (topic: string) => `I've been curious about ${topic} for a while. Where do we even start?`,
+  () => `Let's start with the basics and build up from there.`,
+  () => `That makes sense. What's the part most people get wrong?`,
+  () => `Usually it's the assumption that it's simpler than it really is.`,
+  () => `Can you give a concrete example?`,
+  () => `Sure. Picture a small team trying this for the first time.`,
+  () => `And what's the one thing listeners should remember?`,
+  () => `Stay curious, check your sources and keep experimenting.`
+];
+
+const buildScript = ({ topic, cast, format, sources = [], show }: ScriptOptions): PodcastScript => {
+  const lineCount = targetLineCount(format.targetMinutes);
+  const passages = sources.flatMap(source => source.passages.map(passage => ({ source, passage })));
+
+  const lastEpisode = show?.previousEpisodes[show.previousEpisodes.length - 1];
+
+  const dialogue: DialogueLine[] = Array.from({ length: lineCount }, (_, i) => {
+    const line: DialogueLine = {
+      speaker: cast[i % cast.length].name,
+      text: i === lineCount - 1 && lineCount > 1
+        ? `That's all for today's look at ${topic}. Thanks for listening!`
+        : i === 1 && lastEpisode
+          ? `Last time, in "${lastEpisode.title}", we covered a lot. Today is different.`
+          : CANNED_LINES[i % CANNED_LINES.length](topic)
+    };
+    if (passages.length > 0) {
+      const { source, passage } = passages[i % passages.length];
+      line.citations = [{ passageId: passage.id, sourceName: source.name, excerpt: passage.text }];
+    }
+    return line;
+  });
+
+  const title = show ? `${show.name} #${show.episodeNumber}: ${topic}` : `${topic}: The Mock Episode`;
+  return { title, topic, dialogue };
+};
+
+const buildPlan = (show: Show, count: number): EpisodePlanItem[] =>
+  Array.from({ length: count }, (_, i) => ({
+    topic: `${show.name}, part ${i + 1}`,
+    synopsis: `Episode ${i + 1} of ${count} in the mock season.`
+  }));
+
+const buildShowNotes = ({ script, sourceUrls }: ShowNotesRequest): ShowNotes => ({
+  description: `A mock episode about ${script.topic} in ${script.dialogue.length} lines.`,
+  takeaways: script.dialogue.slice(0, 3).map(line => stripMarkup(line.text)),
+  links: sourceUrls.map(url => ({ title: url, url }))
+});
+
+const buildCallInAnswer = ({ question, cast }: CallInRequest): DialogueLine[] => {
+  const host = cast[0].name;
+  const other = cast[1 % cast.length].name;
+  return [
+    { speaker: host, text: `We have a listener on the line asking: ${question}` },
+    { speaker: other, text: "Great question. The short answer is that it depends, and here is why." },
+    { speaker: host, text: "Thanks for calling in!" }
+  ];
+};
+
+// A show's style fixes the palette so its covers match; title, preset, prompt and variant only move the shapes
+const buildCover = ({ title, topic, visualStyle, preset, customPrompt, variant }: CoverArtRequest): string => {
+  const h = hash(`${title}|${topic}|${preset ?? ""}|${customPrompt ?? ""}|${variant ?? 0}`);
+  const palette = visualStyle ? hash(visualStyle) : h;
+  const hueA = palette % 360;
+  const hueB = (hueA + 60 + (palette >> 9) % 120) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0" stop-color="hsl(${hueA},70%,45%)"/><stop offset="1" stop-color="hsl(${hueB},70%,25%)"/>
+  </linearGradient></defs>
+  <rect width="1024" height="1024" fill="url(#g)"/>
+  <circle cx="${300 + (h % 400)}" cy="${300 + ((h >> 4) % 400)}" r="220" fill="rgba(255,255,255,0.12)"/>
+  <rect x="180" y="620" width="664" height="24" rx="12" fill="rgba(255,255,255,0.25)"/>
+</svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+// Flags the first figure or sweeping generalization, so the review UI has something to show offline
+const buildReview = (script: PodcastScript): LineFlag[] => {
+  const line = script.dialogue.findIndex(l => /\d|\busually\b/i.test(l.text));
+  return line === -1 ? [] : [{ line, kind: "fact", note: "Mock review: double-check this claim before recording." }];
+};
+
+/**
+ * A soft tone per line, pitched by voice, lasting as long as the text would take to speak.
+ */
+const synthesizeTone = ({ lines, voices }: SpeechRequest, audioContext: BaseAudioContext): AudioBuffer => {
+  const durations = lines.map(line => {
+    const words = line.text.split(/\s+/).filter(Boolean).length;
+    return Math.max(0.5, (words / SPOKEN_WORDS_PER_MINUTE) * 60);
+  });
+  const pause = lines.length > 1 ? 0.3 : 0;
+  const totalSeconds = durations.reduce((sum, d) => sum + d, 0) + pause * (lines.length - 1);
+
+  const buffer = audioContext.createBuffer(1, Math.max(1, Math.round(totalSeconds * MOCK_SAMPLE_RATE)), MOCK_SAMPLE_RATE);
+  const data = buffer.getChannelData(0);
+
+  let offset = 0;
+  lines.forEach((line, i) => {
+    const voice = voices.find(v => v.speaker === line.speaker) ?? voices[0];
+    const frequency = 140 + (hash(voice?.voiceName ?? "") % 160);
+    const length = Math.round(durations[i] * MOCK_SAMPLE_RATE);
+    for (let n = 0; n < length && offset + n < data.length; n++) {
+      const t = n / MOCK_SAMPLE_RATE;
+      // Syllable-rate amplitude wobble so it reads as "speech" on the visualizer
+      const envelope = 0.5 + 0.5 * Math.sin(2 * Math.PI * 4 * t);
+      data[offset + n] = 0.15 * envelope * Math.sin(2 * Math.PI * frequency * t);
+    }
+    offset += length + Math.round(pause * MOCK_SAMPLE_RATE);
+  });
+  return buffer;
+};
+
+export const createMockProviders = (): PodcastProviders => ({
+  script: {
+    generateScript: async (options, signal) => {
+      await delay(signal);
+      return buildScript(options);
+    },
+    rewriteLine: async ({ script, index, instruction }, signal) => {
+      await delay(signal);
+      return `${script.dialogue[index].text} (Rewritten${instruction ? `: ${instruction}` : ""})`;
+    },
+    condenseText: async (text, _sourceName, targetChars) => text.slice(0, targetChars),
+    extractDocumentText: async (_base64Data, _mimeType, signal) => {
+      await delay(signal);
+      return "Mock document text.\n\nThe offline provider does not read uploaded files.";
+    },
+    fetchUrlText: async (url, signal) => {
+      await delay(signal);
+      return `Mock page content for ${url}.\n\nThe offline provider does not fetch URLs.`;
+    },
+    proposeEpisodePlan: async (show, count, signal) => {
+      await delay(signal);
+      return buildPlan(show, count);
+    },
+    writeShowNotes: async (request, signal) => {
+      await delay(signal);
+      return buildShowNotes(request);
+    },
+    answerListenerQuestion: async (request, signal) => {
+      await delay(signal);
+      return buildCallInAnswer(request);
+    },
+    transcribeAudio: async (_base64Data, _mimeType, signal) => {
+      await delay(signal);
+      return "What should a newcomer read first?";
+    },
+    reviewScript: async (script, signal) => {
+      await delay(signal);
+      return buildReview(script);
+    }
+  },
+  image: {
+    generateCoverArt: async (request, signal) => {
+      await delay(signal);
+      return buildCover(request);
+    }
+  },
+  speech: {
+    maxSpeakersPerRequest: Number.POSITIVE_INFINITY,
+    synthesize: async (request, audioContext, signal) => {
+      await delay(signal);
+      return synthesizeTone(request, audioContext);
+    }
+  }
+});
\ No newline at end of file
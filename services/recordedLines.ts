@@ -0,0 +1,72 @@
+import { CastMember, DialogueLine, RecordedTake } from "../types";
+import { DEFAULT_MIX_SETTINGS, TAKE_TRIM_PADDING_SECONDS } from "../constants";
+import { detectSpeechRegions, normalizeLoudness } from "./audioMixer";
+import { measureLoudness } from "./loudness";
+import { stitchSegments } from "./audioSegments";
+
+/**
+ * Lines voiced by people instead of the speech model. Takes are recorded in the browser,
+ * trimmed, then resampled and level-matched to the synthesized voices before stitching.
+ */
+
+export const isHumanLine = (line: DialogueLine, cast: CastMember[]): boolean =>
+  cast.some(member => member.human && member.name === line.speaker);
+
+// Indices of the lines a person has to record
+export const humanLineIndices = (dialogue: DialogueLine[], cast: CastMember[]): number[] =>
+  dialogue.flatMap((line, i) => isHumanLine(line, cast) ? [i] : []);
+
+/**
+ * A fresh take trimmed to the detected speech, with a little room either side.
+ */
+export const createTake = (audio: AudioBuffer): RecordedTake => {
+  const regions = detectSpeechRegions(audio);
+  if (regions.length === 0) return { audio, trimStart: 0, trimEnd: audio.duration };
+  return {
+    audio,
+    trimStart: Math.max(0, regions[0].start - TAKE_TRIM_PADDING_SECONDS),
+    trimEnd: Math.min(audio.duration, regions[regions.length - 1].end + TAKE_TRIM_PADDING_SECONDS)
+  };
+};
+
+/**
+ * Render the trimmed part of a take as mono at the given sample rate, so it can be
+ * stitched with synthesized lines sample for sample.
+ */
+const renderTake = async ({ audio, trimStart, trimEnd }: RecordedTake, sampleRate: number): Promise<AudioBuffer> => {
+  const duration = Math.max(0.01, trimEnd - trimStart);
+  const ctx = new OfflineAudioContext(1, Math.ceil(duration * sampleRate), sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = audio;
+  source.connect(ctx.destination);
+  source.start(0, trimStart, duration);
+  return ctx.startRendering();
+};
+
+/**
+ * Swap recorded takes into the synthesized segments. Takes are brought to the loudness
+ * of the synthesized lines so hand-offs between voices don't jump in level; with no
+ * synthesized lines to compare against, they go to the podcast mix target.
+ */
+export const blendRecordedLines = async (
+  segments: (AudioBuffer | null)[],
+  takes: (RecordedTake | null)[],
+  audioContext: BaseAudioContext
+): Promise<AudioBuffer[]> => {
+  const voiced = segments.filter((segment, i): segment is AudioBuffer => segment !== null && !takes[i]);
+  const sampleRate = voiced[0]?.sampleRate ?? audioContext.sampleRate;
+  const reference = voiced.length > 0
+    ? measureLoudness(stitchSegments(voiced, voiced.map(() => ""), { speakerChangeGapMs: 0, sameSpeakerGapMs: 0 }, audioContext).audioBuffer)
+    : DEFAULT_MIX_SETTINGS.targetLufs;
+
+  return Promise.all(segments.map(async (segment, i) => {
+    const take = takes[i];
+    if (!take) {
+      if (!segment) throw new Error(`Line ${i + 1} has neither a recording nor synthesized audio`);
+      return segment;
+    }
+    const rendered = await renderTake(take, sampleRate);
+    if (Number.isFinite(reference)) normalizeLoudness(rendered, reference);
+    return rendered;
+  }));
+};
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { FeedItem, FeedSettings } from "../types";
+import { PODCAST_CATEGORIES } from "../constants";
+
+/**
+ * Podcast RSS 2.0 with the iTunes and Podcasting 2.0 namespaces.
+ * All enclosure, artwork and transcript URLs are built from `baseUrl` plus a bundle path.
+ */
+
+export const FEED_FILE_NAME = "feed.xml";
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// "]]>" can't appear inside CDATA, so it is split across two sections
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const feedUrl = (baseUrl: string, path: string) =>
+  `${baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`}${path.split("/").map(encodeURIComponent).join("/")}`;
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return [h, m, s].map(n => n.toString().padStart(2, "0")).join(":");
+};
+
+/**
+ * Problems with the channel settings alone, shown while the user fills them in.
+ */
+export const validateFeedSettings = (settings: FeedSettings): string[] => {
+  const problems: string[] = [];
+  if (!settings.title.trim()) problems.push("The feed needs a title.");
+  if (!settings.description.trim()) problems.push("The feed needs a description.");
+  if (!settings.author.trim()) problems.push("The feed needs an author.");
+  if (!isHttpUrl(settings.baseUrl.trim())) problems.push("The base URL must be an absolute http(s) address.");
+  if (settings.ownerEmail.trim() && !EMAIL_PATTERN.test(settings.ownerEmail.trim())) {
+    problems.push("The owner email doesn't look like an email address.");
+  }
+  if (!PODCAST_CATEGORIES.includes(settings.category)) problems.push("Pick a category from the list.");
+  if (!settings.language.trim()) problems.push("The feed needs a language.");
+  return problems;
+};
+
+/**
+ * Everything podcast apps require before they accept a feed. Empty means valid.
+ */
+export const validateFeed = (settings: FeedSettings, items: FeedItem[], artworkPath: string | null): string[] => {
+  const problems = validateFeedSettings(settings);
+  if (!artworkPath) problems.push("The feed needs cover artwork; give at least one episode a cover.");
+  if (items.length === 0) problems.push("The feed has no episodes.");
+  const guids = new Set<string>();
+  items.forEach((item, i) => {
+    const label = item.title.trim() ? `"${item.title}"` : `Episode ${i + 1}`;
+    if (!item.title.trim()) problems.push(`${label} has no title.`);
+    if (!item.audioPath || item.audioBytes <= 0) problems.push(`${label} has no audio.`);
+    if (!(item.durationSeconds > 0)) problems.push(`${label} has no duration.`);
+    if (guids.has(item.guid)) problems.push(`${label} repeats another episode's GUID.`);
+    guids.add(item.guid);
+  });
+  return problems;
+};
+
+const renderItem = (settings: FeedSettings, item: FeedItem): string => {
+  const url = (path: string) => escapeXml(feedUrl(settings.baseUrl, path));
+  const lines = [
+    "    <item>",
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <description>${escapeXml(item.description)}</description>`,
+    item.notesHtml ? `      <content:encoded>${cdata(item.notesHtml)}</content:encoded>` : null,
+    `      <guid isPermaLink="false">${escapeXml(item.guid)}</guid>`,
+    `      <pubDate>${new Date(item.pubDate).toUTCString()}</pubDate>`,
+    `      <enclosure url="${url(item.audioPath)}" length="${item.audioBytes}" type="${item.audioMimeType}"/>`,
+    `      <itunes:duration>${formatDuration(item.durationSeconds)}</itunes:duration>`,
+    `      <itunes:explicit>${settings.explicit}</itunes:explicit>`,
+    "      <itunes:episodeType>full</itunes:episodeType>",
+    item.episodeNumber ? `      <itunes:episode>${item.episodeNumber}</itunes:episode>` : null,
+    item.imagePath ? `      <itunes:image href="${url(item.imagePath)}"/>` : null,
+    item.transcriptPath
+      ? `      <podcast:transcript url="${url(item.transcriptPath)}" type="text/vtt" language="${escapeXml(settings.language)}"/>`
+      : null,
+    "    </item>"
+  ];
+  return lines.filter(line => line !== null).join("\n");
+};
+
+/**
+ * The feed document. Items are written newest first, as podcast apps expect.
+ */
+export const buildFeedXml = (settings: FeedSettings, items: FeedItem[], artworkPath: string): string => {
+  const link = settings.baseUrl.trim();
+  const artworkUrl = escapeXml(feedUrl(link, artworkPath));
+  const ownerEmail = settings.ownerEmail.trim();
+  const sorted = [...items].sort((a, b) => b.pubDate - a.pubDate);
+  const lastBuild = sorted.length > 0 ? sorted[0].pubDate : Date.now();
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+  xmlns:podcast="https://podcastindex.org/namespace/1.0"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(settings.title.trim())}</title>
+    <link>${escapeXml(link)}</link>
+    <atom:link href="${escapeXml(feedUrl(link, FEED_FILE_NAME))}" rel="self" type="application/rss+xml"/>
+    <description>${escapeXml(settings.description.trim())}</description>
+    <language>${escapeXml(settings.language)}</language>
+    <lastBuildDate>${new Date(lastBuild).toUTCString()}</lastBuildDate>
+    <image>
+      <url>${artworkUrl}</url>
+      <title>${escapeXml(settings.title.trim())}</title>
+      <link>${escapeXml(link)}</link>
+    </image>
+    <itunes:author>${escapeXml(settings.author.trim())}</itunes:author>
+    <itunes:owner>
+      <itunes:name>${escapeXml(settings.author.trim())}</itunes:name>${ownerEmail ? `
+      <itunes:email>${escapeXml(ownerEmail)}</itunes:email>` : ""}
+    </itunes:owner>
+    <itunes:image href="${artworkUrl}"/>
+    <itunes:category text="${escapeXml(settings.category)}"/>
+    <itunes:explicit>${settings.explicit}</itunes:explicit>
+    <itunes:type>episodic</itunes:type>
+${sorted.map(item => renderItem(settings, item)).join("\n")}
+  </channel>
+</rss>`;
+};
\ No newline at end of file
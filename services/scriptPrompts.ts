@@ -0,0 +1,73 @@
+import { CastMember, EpisodeFormat, PreparedSource, ShowContext } from "../types";
+import { AUDIENCE_LEVELS, EPISODE_LANGUAGES, MAX_RECAPPED_EPISODES, SPOKEN_WORDS_PER_MINUTE, TONE_PRESETS } from "../constants";
+import { formatSourcesForPrompt } from "./sourceMaterial";
+
+/**
+ * Prompt fragments shared by the single-pass and outline-then-expand script writers.
+ */
+
+// Average spoken line length in words, used to size the dialogue
+const WORDS_PER_LINE = 45;
+
+export const targetWordCount = (minutes: number) => Math.round(minutes * SPOKEN_WORDS_PER_MINUTE);
+
+export const targetLineCount = (minutes: number) => Math.max(3, Math.round(targetWordCount(minutes) / WORDS_PER_LINE));
+
+export const languageLabel = (code: string) => EPISODE_LANGUAGES.find(l => l.code === code)?.label ?? code;
+
+export const describeCast = (cast: CastMember[]): string => {
+  const speakers = cast.map(member => `"${member.name}" (${member.persona || 'no persona given'})`).join(", ");
+  return cast.length === 1
+    ? `It is a monologue by a single speaker: ${speakers}.`
+    : `There are ${cast.length} speakers: ${speakers}. Every speaker should take part.`;
+};
+
+export const describeStyle = (format: EpisodeFormat): string => [
+  `Tone: ${TONE_PRESETS[format.tone].instruction}`,
+  `Audience: ${AUDIENCE_LEVELS[format.audience].instruction}`,
+  `Write all titles and spoken text in ${languageLabel(format.language)}.`
+].join("\n  ");
+
+export const describeLength = (minutes: number): string =>
+  `It should run about ${minutes} minute${minutes === 1 ? "" : "s"} when spoken: roughly ${targetWordCount(minutes)} words over about ${targetLineCount(minutes)} lines.`;
+
+export const describeStructure = (format: EpisodeFormat): string => {
+  const { intro, sectionCount, outro, callToAction } = format.structure;
+  const parts = [
+    intro ? "Open with a short intro that hooks the listener and introduces the speakers." : "Jump straight into the content without an intro.",
+    sectionCount > 0 ? `Cover the topic in ${sectionCount} clearly separated sections.` : "",
+    outro ? "Close with a brief outro that recaps the key points." : "",
+    outro && callToAction.trim() ? `The outro must end with this call to action: "${callToAction.trim()}".` : ""
+  ];
+  return parts.filter(Boolean).join("\n  ");
+};
+
+export const describeGrounding = (sources: PreparedSource[]): string => sources.length > 0
+  ? `Base the episode on the source material below, not on outside knowledge. Do not invent facts that are not in it.
+  For every line that uses information from the sources, list the IDs of the supporting passages (e.g. "S1-P3") in "citations".
+
+  SOURCE MATERIAL:
+  ${formatSourcesForPrompt(sources)}
+  `
+  : "";
+
+// What was wrong with a rejected attempt, so the next one doesn't repeat it
+export const describeFeedback = (feedback: string[] = []): string => feedback.length > 0
+  ? `A previous attempt was rejected for these problems. Fix them this time:\n  ${feedback.map(problem => `- ${problem}`).join("\n  ")}`
+  : "";
+
+// Series continuity: the show's voice plus recaps of the most recent earlier episodes
+export const describeShow = (show: ShowContext | undefined): string => {
+  if (!show) return "";
+  const recaps = show.previousEpisodes
+    .slice(-MAX_RECAPPED_EPISODES)
+    .map(recap => `Episode ${recap.episodeNumber}, "${recap.title}": ${recap.summary}`)
+    .join("\n  ");
+  return [
+    `This is episode ${show.episodeNumber} of the show "${show.name}".`,
+    show.styleGuide.trim() ? `Follow the show's style guide: ${show.styleGuide.trim()}` : "",
+    recaps
+      ? `Earlier episodes, which the speakers may refer back to where it fits naturally (don't repeat their content):\n  ${recaps}`
+      : "This is the show's first episode."
+  ].filter(Boolean).join("\n  ");
+};
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { CastMember, DialogueLine, EpisodeFormat, LineFlag, PodcastScript } from "../types";
+import { MAX_LINE_CHARS, SCRIPT_LENGTH_BOUNDS } from "../constants";
+import { PodcastError } from "./errors";
+import { targetLineCount } from "./scriptPrompts";
+
+/**
+ * Check that a script (e.g. after manual editing) still has the PodcastScript shape
+ * and only uses speakers from the cast. Returns human-readable problems; empty when valid.
+ */
+export const validateScript = (script: unknown, cast: CastMember[]): string[] => {
+  const problems: string[] = [];
+  if (!script || typeof script !== "object") return ["Script is not an object"];
+
+  const { title, topic, dialogue } = script as Partial<PodcastScript>;
+  if (typeof title !== "string" || !title.trim()) problems.push("Title is missing");
+  if (typeof topic !== "string") problems.push("Topic is missing");
+  if (!Array.isArray(dialogue) || dialogue.length === 0) {
+    problems.push("Script has no dialogue lines");
+    return problems;
+  }
+
+  const speakers = new Set(cast.map(member => member.name));
+  dialogue.forEach((line, i) => {
+    if (!line || typeof line !== "object") {
+      problems.push(`Line ${i + 1} is not a dialogue line`);
+      return;
+    }
+    if (typeof line.speaker !== "string" || !speakers.has(line.speaker)) {
+      problems.push(`Line ${i + 1} has unknown speaker "${line.speaker}"`);
+    }
+    if (typeof line.text !== "string" || !line.text.trim()) {
+      problems.push(`Line ${i + 1} is empty`);
+    }
+  });
+  return problems;
+};
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Fix what can be fixed without asking the model again: stray whitespace, empty lines,
+ * speaker names that differ from the cast only in case or spacing, and a missing title.
+ */
+export const repairScript = (script: PodcastScript, cast: CastMember[]): PodcastScript => {
+  const byName = new Map(cast.map(member => [normalizeName(member.name), member.name]));
+  const resolveSpeaker = (speaker: unknown) => {
+    if (typeof speaker !== "string") return cast.length === 1 ? cast[0].name : speaker;
+    // A monologue has only one possible speaker, whatever the model called it
+    return byName.get(normalizeName(speaker)) ?? (cast.length === 1 ? cast[0].name : speaker);
+  };
+
+  const topic = typeof script.topic === "string" ? script.topic.trim() : "";
+  const title = typeof script.title === "string" && script.title.trim() ? script.title.trim() : topic;
+  const dialogue = (Array.isArray(script.dialogue) ? script.dialogue : [])
+    .filter(line => line && typeof line === "object" && typeof line.text === "string" && line.text.trim())
+    .map(line => ({ ...line, speaker: resolveSpeaker(line.speaker) as string, text: line.text.trim() }));
+  return { ...script, title, topic, dialogue };
+};
+
+/**
+ * Check the length of a script, or of one section of it, against its target duration.
+ * `label` names it in the problems, which read like validateScript's.
+ */
+export const checkDialogueLength = (dialogue: DialogueLine[], minutes: number, label: string): string[] => {
+  const problems: string[] = [];
+  const target = targetLineCount(minutes);
+  const { length } = dialogue;
+  if (length < Math.floor(target * SCRIPT_LENGTH_BOUNDS.min)) {
+    problems.push(`${label} has ${length} lines, far short of the ~${target} that ${minutes} minutes need`);
+  } else if (length > Math.ceil(target * SCRIPT_LENGTH_BOUNDS.max)) {
+    problems.push(`${label} has ${length} lines, far more than the ~${target} that ${minutes} minutes need`);
+  }
+  dialogue.forEach((line, i) => {
+    if (line.text.length > MAX_LINE_CHARS) problems.push(`Line ${i + 1} is too long to speak in one go`);
+  });
+  return problems;
+};
+
+/**
+ * Repair a freshly generated script, then list what is still wrong with its structure and length.
+ */
+export const inspectScript = (
+  script: PodcastScript,
+  cast: CastMember[],
+  format: EpisodeFormat
+): { script: PodcastScript; problems: string[] } => {
+  const repaired = repairScript(script, cast);
+  const problems = validateScript(repaired, cast);
+  if (problems.length === 0) problems.push(...checkDialogueLength(repaired.dialogue, format.targetMinutes, "Script"));
+  return { script: repaired, problems };
+};
+
+/**
+ * The error for generated dialogue that failed validation. It is a parse error,
+ * so the retry around the call asks the model again.
+ */
+export const rejectDialogue = (problems: string[], what = "script"): PodcastError =>
+  new PodcastError('parse', `The generated ${what} didn't pass validation: ${problems.slice(0, 3).join("; ")}.`);
+
+/**
+ * Attach review flags to their lines, replacing any from an earlier review.
+ */
+export const applyFlags = (script: PodcastScript, flags: LineFlag[]): PodcastScript => ({
+  ...script,
+  dialogue: script.dialogue.map((line, i) => {
+    const lineFlags = flags.filter(flag => flag.line === i).map(({ kind, note }) => ({ kind, note }));
+    return { ...line, flags: lineFlags.length > 0 ? lineFlags : undefined };
+  })
+});
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { EpisodeRecap, LibraryEntry, Show, ShowContext } from "../types";
+
+/**
+ * Series mode helpers: continuity context for a show's next episode and season topic lists.
+ */
+
+export const showEpisodes = (showId: string, entries: LibraryEntry[]): LibraryEntry[] =>
+  entries
+    .filter(entry => entry.showId === showId)
+    .sort((a, b) => (a.episodeNumber ?? 0) - (b.episodeNumber ?? 0) || a.createdAt - b.createdAt);
+
+/**
+ * Continuity context for the next episode of a show, from what the library already holds.
+ * `extra` recaps episodes produced in this session that may not be listed yet.
+ */
+export const buildShowContext = (show: Show, entries: LibraryEntry[], extra: EpisodeRecap[] = []): ShowContext => {
+  const stored: EpisodeRecap[] = showEpisodes(show.id, entries).map((entry, i) => ({
+    episodeNumber: entry.episodeNumber ?? i + 1,
+    title: entry.title,
+    summary: entry.summary ?? entry.topic
+  }));
+  const known = new Set(stored.map(recap => recap.episodeNumber));
+  const previousEpisodes = [...stored, ...extra.filter(recap => !known.has(recap.episodeNumber))]
+    .sort((a, b) => a.episodeNumber - b.episodeNumber);
+  const episodeNumber = previousEpisodes.reduce((max, recap) => Math.max(max, recap.episodeNumber), 0) + 1;
+
+  return { name: show.name, styleGuide: show.styleGuide, episodeNumber, previousEpisodes };
+};
+
+/**
+ * One topic per non-empty line; a leading "1." or "-" is dropped.
+ */
+export const parseTopicList = (text: string): string[] =>
+  text
+    .split("\n")
+    .map(line => line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, "").trim())
+    .filter(Boolean);
\ No newline at end of file
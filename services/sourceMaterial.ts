@@ -0,0 +1,65 @@
+import { Citation, PreparedSource, SourcePassage } from "../types";
+import { SOURCE_PASSAGE_CHARS } from "../constants";
+
+/**
+ * Split text into chunks of at most `maxChars`, preferring paragraph and then sentence boundaries.
+ */
+export const chunkText = (text: string, maxChars: number): string[] => {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, " ").trim()).filter(Boolean);
+  const pieces = paragraphs.flatMap(paragraph => {
+    if (paragraph.length <= maxChars) return [paragraph];
+    // Over-long paragraphs are broken into sentences, and sentences into hard slices
+    const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [paragraph];
+    return sentences.flatMap(sentence => {
+      const trimmed = sentence.trim();
+      const slices: string[] = [];
+      for (let i = 0; i < trimmed.length; i += maxChars) slices.push(trimmed.slice(i, i + maxChars));
+      return slices;
+    });
+  });
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Number a source's text into citable passages ("S2-P5" is passage 5 of source 2).
+ */
+export const toPassages = (text: string, sourceIndex: number): SourcePassage[] =>
+  chunkText(text, SOURCE_PASSAGE_CHARS).map((passage, i) => ({
+    id: `S${sourceIndex + 1}-P${i + 1}`,
+    text: passage
+  }));
+
+export const formatSourcesForPrompt = (sources: PreparedSource[]): string =>
+  sources.map((source, i) => [
+    `=== SOURCE S${i + 1}: ${source.name}${source.condensed ? " (condensed)" : ""} ===`,
+    ...source.passages.map(passage => `[${passage.id}] ${passage.text}`)
+  ].join("\n")).join("\n\n");
+
+/**
+ * Turn passage IDs returned by the model into citations; unknown IDs are dropped.
+ */
+export const resolveCitations = (passageIds: string[] | undefined, sources: PreparedSource[]): Citation[] => {
+  if (!passageIds) return [];
+  const citations: Citation[] = [];
+  for (const rawId of passageIds) {
+    const id = rawId.replace(/[[\]\s]/g, "").toUpperCase();
+    for (const source of sources) {
+      const passage = source.passages.find(p => p.id === id);
+      if (passage && !citations.some(c => c.passageId === id)) {
+        citations.push({ passageId: id, sourceName: source.name, excerpt: passage.text });
+      }
+    }
+  }
+  return citations;
+};
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { DialogueLine, PronunciationEntry } from "../types";
+import { DEFAULT_PAUSE_SECONDS, MAX_PAUSE_SECONDS } from "../constants";
+
+/**
+ * Inline speech markup in dialogue text:
+ *   [pause], [pause 1s], [pause 500ms]   silence of that length
+ *   [laughs], [sighs], [whispering]      a cue the speaker performs rather than reads
+ *   *word*                               emphasis
+ * Listeners see the text without markup. The speech model gets cues and emphasis as
+ * directions, while pauses are cut out and inserted as real silence.
+ */
+
+// Short bracketed directions; longer bracketed text is left alone as part of the line
+const DIRECTION = /\s*\[([\p{L}\p{N} .,'-]{1,40})\]/gu;
+const PAUSE = /^\s*pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\s*$/i;
+const EMPHASIS = /\*([^*\n]+)\*/g;
+
+const pauseSeconds = (direction: string): number | null => {
+  const match = PAUSE.exec(direction);
+  if (!match) return null;
+  if (!match[1]) return DEFAULT_PAUSE_SECONDS;
+  const value = Number(match[1]) / (match[2]?.toLowerCase() === "ms" ? 1000 : 1);
+  return Math.min(MAX_PAUSE_SECONDS, value);
+};
+
+/**
+ * Line text as listeners should see it, without directions or emphasis marks.
+ */
+export const stripMarkup = (text: string): string =>
+  text.replace(DIRECTION, "").replace(EMPHASIS, "$1").trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Replace lexicon terms with their spoken forms. Longer terms win, so "Gemini Pro" can be
+ * spoken differently from "Gemini", and a replacement is never matched again.
+ */
+export const applyLexicon = (text: string, lexicon: PronunciationEntry[]): string => {
+  const entries = lexicon.filter(entry => entry.term.trim() && entry.spoken.trim());
+  if (entries.length === 0) return text;
+  const spoken = new Map(entries.map(entry => [entry.term.trim(), entry.spoken.trim()]));
+  const terms = [...spoken.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join("|")})(?![\\p{L}\\p{N}])`, "gu");
+  return text.replace(pattern, term => spoken.get(term) ?? term);
+};
+
+// A run of lines synthesized in one request, followed by silence
+export interface SpeechTake {
+  lines: DialogueLine[]; // Speech-ready: lexicon applied, pauses removed; empty for a pause on its own
+  pauseAfter: number; // Seconds
+}
+
+/**
+ * Split lines into takes at every [pause], ready for synthesis. Lines without pauses
+ * come back as a single take, so unmarked scripts are synthesized exactly as before.
+ */
+export const toSpeechTakes = (lines: DialogueLine[], lexicon: PronunciationEntry[]): SpeechTake[] => {
+  const takes: SpeechTake[] = [{ lines: [], pauseAfter: 0 }];
+  const current = () => takes[takes.length - 1];
+
+  for (const line of lines) {
+    const speak = (text: string) => {
+      if (!text.trim()) return;
+      current().lines.push({ speaker: line.speaker, text: applyLexicon(text.trim(), lexicon), style: line.style?.trim() || undefined });
+    };
+
+    let rest = 0;
+    for (const match of line.text.matchAll(DIRECTION)) {
+      const seconds = pauseSeconds(match[1]);
+      if (seconds === null) continue;
+      speak(line.text.slice(rest, match.index));
+      current().pauseAfter += seconds;
+      takes.push({ lines: [], pauseAfter: 0 });
+      rest = match.index! + match[0].length;
+    }
+    speak(line.text.slice(rest));
+  }
+
+  // Merge pauses that ended up next to each other, and drop the empty take left at the end
+  return takes.reduce<SpeechTake[]>((merged, take) => {
+    const previous = merged[merged.length - 1];
+    if (previous && take.lines.length === 0) previous.pauseAfter += take.pauseAfter;
+    else if (take.lines.length > 0 || take.pauseAfter > 0) merged.push(take);
+    return merged;
+  }, []);
+};
\ No newline at end of file
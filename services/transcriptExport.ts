@@ -0,0 +1,82 @@
+import { LineTiming, PodcastEpisode, TranscriptExportFormat } from "../types";
+import { estimateLineTimings } from "./audioSegments";
+import { stripMarkup } from "./speechMarkup";
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+
+const formatTimestamp = (seconds: number, fractionSeparator: string): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${fractionSeparator}${pad(totalMs % 1000, 3)}`;
+};
+
+const shift = (timings: LineTiming[], offset: number): LineTiming[] =>
+  offset === 0 ? timings : timings.map(({ start, end }) => ({ start: start + offset, end: end + offset }));
+
+/**
+ * Recorded line timings on the playback timeline, i.e. after any mixed-in intro; null if none were recorded.
+ */
+export const recordedLineTimings = (episode: PodcastEpisode): LineTiming[] | null =>
+  episode.lineTimings && shift(episode.lineTimings, episode.mix?.speechOffset ?? 0);
+
+/**
+ * Recorded line timings, or estimates from the speech duration when synthesis didn't record them.
+ */
+export const resolveLineTimings = (episode: PodcastEpisode): LineTiming[] => {
+  const recorded = recordedLineTimings(episode);
+  if (recorded) return recorded;
+  const speech = episode.dryAudioBuffer ?? episode.audioBuffer;
+  return shift(estimateLineTimings(episode.script.dialogue, speech?.duration ?? 0), episode.mix?.speechOffset ?? 0);
+};
+
+const toJson = (episode: PodcastEpisode): string => {
+  const timings = recordedLineTimings(episode);
+  return JSON.stringify({
+    title: episode.script.title,
+    topic: episode.script.topic,
+    cast: episode.cast.map(({ name, persona, voiceName }) => ({ name, persona, voiceName })),
+    dialogue: episode.script.dialogue.map((line, i) => ({
+      ...line,
+      ...(timings ? timings[i] : {})
+    }))
+  }, null, 2);
+};
+
+const toPlainText = (episode: PodcastEpisode): string => [
+  episode.script.title,
+  episode.script.topic,
+  "",
+  ...episode.script.dialogue.map(line => `${line.speaker}: ${stripMarkup(line.text)}`)
+].join("\n");
+
+const toSrt = (episode: PodcastEpisode): string => {
+  const timings = resolveLineTimings(episode);
+  return episode.script.dialogue.map((line, i) => [
+    `${i + 1}`,
+    `${formatTimestamp(timings[i].start, ",")} --> ${formatTimestamp(timings[i].end, ",")}`,
+    `${line.speaker}: ${stripMarkup(line.text)}`
+  ].join("\n")).join("\n\n") + "\n";
+};
+
+const toWebVtt = (episode: PodcastEpisode): string => {
+  const timings = resolveLineTimings(episode);
+  const cues = episode.script.dialogue.map((line, i) => [
+    `${formatTimestamp(timings[i].start, ".")} --> ${formatTimestamp(timings[i].end, ".")}`,
+    `<v ${line.speaker}>${stripMarkup(line.text)}`
+  ].join("\n"));
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+};
+
+const TRANSCRIPT_FORMATS: Record<TranscriptExportFormat, { render: (episode: PodcastEpisode) => string; mimeType: string }> = {
+  json: { render: toJson, mimeType: "application/json" },
+  txt: { render: toPlainText, mimeType: "text/plain" },
+  srt: { render: toSrt, mimeType: "application/x-subrip" },
+  vtt: { render: toWebVtt, mimeType: "text/vtt" }
+};
+
+export const renderTranscript = (episode: PodcastEpisode, format: TranscriptExportFormat): { text: string; mimeType: string } => {
+  const { render, mimeType } = TRANSCRIPT_FORMATS[format];
+  return { text: render(episode), mimeType };
+};
\ No newline at end of file
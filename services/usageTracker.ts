@@ -0,0 +1,161 @@
+import { BudgetSettings, ModelPrice, PriceTable, UsageByModel, UsageLedger, UsageTotals } from "../types";
+import { DEFAULT_MODEL_PRICES } from "../constants";
+import { PodcastError } from "./errors";
+
+/**
+ * Usage and estimated cost of model calls. Providers report what each call consumed; the
+ * totals are kept per day and per episode in local storage, and priced with an editable table.
+ * Calls made with the signal `withUsage` hands out are attributed to its episode; the rest
+ * only count towards the daily totals.
+ */
+
+const LEDGER_KEY = "geminicast.usage";
+const PRICES_KEY = "geminicast.prices";
+const BUDGET_KEY = "geminicast.budget";
+
+const EMPTY_LEDGER: UsageLedger = { days: {}, episodes: {} };
+const NO_BUDGET: BudgetSettings = { dailyUsd: null, monthlyUsd: null };
+
+export const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, outputTokens: 0, images: 0, audioSeconds: 0 });
+
+const readStored = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+let ledger: UsageLedger | null = null;
+// Attribution travels with the call's signal, so concurrent runs don't mix their usage
+const attributions = new WeakMap<AbortSignal, string>();
+const listeners = new Set<() => void>();
+
+export const getUsageLedger = (): UsageLedger => {
+  if (!ledger) ledger = readStored(LEDGER_KEY, EMPTY_LEDGER);
+  return ledger;
+};
+
+/**
+ * Calls `listener` whenever the ledger, prices or budget change. Returns an unsubscribe function.
+ */
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const dayKey = (time = Date.now()): string => {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const addTo = (byModel: UsageByModel, model: string, usage: Partial<UsageTotals>): UsageByModel => {
+  const totals = { ...(byModel[model] ?? emptyTotals()) };
+  (Object.keys(usage) as (keyof UsageTotals)[]).forEach(field => {
+    totals[field] += usage[field] ?? 0;
+  });
+  return { ...byModel, [model]: totals };
+};
+
+/**
+ * Add what a call consumed. Fields may be reported separately, e.g. audio length once decoded.
+ */
+export const recordUsage = (model: string, usage: Partial<UsageTotals>, signal?: AbortSignal) => {
+  const current = getUsageLedger();
+  const today = dayKey();
+  const episodeId = signal && attributions.get(signal);
+  ledger = {
+    days: { ...current.days, [today]: addTo(current.days[today] ?? {}, model, usage) },
+    episodes: episodeId
+      ? { ...current.episodes, [episodeId]: addTo(current.episodes[episodeId] ?? {}, model, usage) }
+      : current.episodes
+  };
+  try {
+    localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+  } catch (err) {
+    // A full storage quota shouldn't fail the generation; the totals stay in memory
+    console.error(err);
+  }
+  notify();
+};
+
+/**
+ * Run `task` with a signal that attributes the calls it's passed to to an episode. The signal
+ * aborts along with `parent`, so it can stand in for a run's signal; it stops following
+ * `parent` once the task settles, so long runs don't pile up listeners.
+ */
+export const withUsage = async <T>(
+  episodeId: string,
+  task: (signal: AbortSignal) => Promise<T>,
+  parent?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) controller.abort(parent.reason);
+  else parent?.addEventListener("abort", onAbort, { once: true });
+  attributions.set(controller.signal, episodeId);
+  try {
+    return await task(controller.signal);
+  } finally {
+    parent?.removeEventListener("abort", onAbort);
+  }
+};
+
+export const getPriceTable = (): PriceTable => ({ ...DEFAULT_MODEL_PRICES, ...readStored<PriceTable>(PRICES_KEY, {}) });
+
+export const setPriceTable = (prices: PriceTable) => {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+  notify();
+};
+
+export const getBudget = (): BudgetSettings => readStored(BUDGET_KEY, NO_BUDGET);
+
+export const setBudget = (budget: BudgetSettings) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  notify();
+};
+
+export const costOf = (totals: UsageTotals, price: ModelPrice | undefined): number =>
+  price
+    ? (totals.promptTokens * price.inputPerMillion + totals.outputTokens * price.outputPerMillion) / 1e6
+      + totals.images * price.perImage
+      + totals.audioSeconds / 60 * price.perAudioMinute
+    : 0;
+
+export const totalCost = (byModel: UsageByModel, prices: PriceTable): number =>
+  Object.entries(byModel).reduce((sum, [model, totals]) => sum + costOf(totals, prices[model]), 0);
+
+// Every day of the month containing `time`, merged per model
+export const monthUsage = (time = Date.now()): UsageByModel => {
+  const month = dayKey(time).slice(0, 7);
+  return Object.entries(getUsageLedger().days)
+    .filter(([day]) => day.startsWith(month))
+    .reduce((merged, [, byModel]) => Object.entries(byModel).reduce((acc, [model, totals]) => addTo(acc, model, totals), merged), {} as UsageByModel);
+};
+
+export const todayUsage = (): UsageByModel => getUsageLedger().days[dayKey()] ?? {};
+
+export const formatUsd = (amount: number): string =>
+  `$${amount < 0.1 && amount > 0 ? amount.toFixed(3) : amount.toFixed(2)}`;
+
+/**
+ * Throws a 'budget' error once today's or this month's estimated spend reaches its cap.
+ * Checked before every model call, so a run stops at the first call over the line.
+ */
+export const assertWithinBudget = () => {
+  const { dailyUsd, monthlyUsd } = getBudget();
+  if (dailyUsd === null && monthlyUsd === null) return;
+  const prices = getPriceTable();
+  const today = totalCost(todayUsage(), prices);
+  if (dailyUsd !== null && today >= dailyUsd) {
+    throw new PodcastError('budget', `Today's spending cap of ${formatUsd(dailyUsd)} has been reached (${formatUsd(today)} estimated). Raise it under Usage to keep generating.`);
+  }
+  const month = totalCost(monthUsage(), prices);
+  if (monthlyUsd !== null && month >= monthlyUsd) {
+    throw new PodcastError('budget', `This month's spending cap of ${formatUsd(monthlyUsd)} has been reached (${formatUsd(month)} estimated). Raise it under Usage to keep generating.`);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { EpisodeMetadata } from "../types";
+import { encodeWav } from "./wavEncoder";
+import { decodePcm, parseWav } from "./audioDecoding";
+import { createTestBuffer } from "../test/fakeAudio";
+
+const metadata: EpisodeMetadata = {
+  title: "Deep Sea",
+  topic: "Life at the bottom of the ocean",
+  coverImageBase64: null,
+  chapters: [
+    { title: "Intro", start: 0, end: 0.5 },
+    { title: "Anglerfish", start: 0.5, end: 1 }
+  ]
+};
+
+const decoder = new TextDecoder();
+
+// Chunk ids and bodies at the top level of a RIFF file
+const readChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks = new Map<string, Uint8Array>();
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.set(decoder.decode(bytes.subarray(offset, offset + 4)), bytes.subarray(offset + 8, offset + 8 + size));
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+describe("encodeWav", () => {
+  it("writes 16-bit PCM that decodes back to the same samples", () => {
+    const left = Float32Array.from([0, 0.5, -0.5, 1]);
+    const right = Float32Array.from([-1, 0.25, 0, -0.25]);
+    const wav = parseWav(encodeWav(createTestBuffer([left, right], 24000), metadata));
+
+    expect(wav?.format).toEqual({ kind: "pcm", sampleRate: 24000, channels: 2, bitDepth: 16 });
+    const [decodedLeft, decodedRight] = decodePcm(wav!.data, wav!.format);
+    decodedLeft.forEach((sample, i) => expect(sample).toBeCloseTo(left[i], 4));
+    decodedRight.forEach((sample, i) => expect(sample).toBeCloseTo(right[i], 4));
+  });
+
+  it("clips samples outside [-1, 1]", () => {
+    const wav = parseWav(encodeWav(createTestBuffer([Float32Array.from([2, -2])], 8000), metadata));
+    const [channel] = decodePcm(wav!.data, wav!.format);
+    expect(channel[0]).toBeCloseTo(1, 4);
+    expect(channel[1]).toBe(-1);
+  });
+
+  it("declares a RIFF size that matches the file", () => {
+    const bytes = encodeWav(createTestBuffer([new Float32Array(3)], 8000), metadata);
+    expect(decoder.decode(bytes.subarray(0, 4))).toBe("RIFF");
+    expect(new DataView(bytes.buffer).getUint32(4, true)).toBe(bytes.length - 8);
+  });
+
+  it("tags the file with INFO text, cue points per chapter and an id3 chunk", () => {
+    const chunks = readChunks(encodeWav(createTestBuffer([new Float32Array(24000)], 24000), metadata));
+
+    const info = decoder.decode(chunks.get("LIST"));
+    expect(info).toContain("INFO");
+    expect(info).toContain("Deep Sea");
+    expect(info).toContain("Life at the bottom of the ocean");
+
+    const cue = new DataView(chunks.get("cue ")!.buffer, chunks.get("cue ")!.byteOffset);
+    expect(cue.getUint32(0, true)).toBe(2);
+    expect(cue.getUint32(4 + 24 + 20, true)).toBe(12000); // Second chapter's sample offset
+
+    expect(decoder.decode(chunks.get("id3 ")!.subarray(0, 3))).toBe("ID3");
+  });
+
+  it("leaves out cue points when there are no chapters", () => {
+    const chunks = readChunks(encodeWav(createTestBuffer([new Float32Array(8)], 8000), { ...metadata, chapters: [] }));
+    expect(chunks.has("cue ")).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { EpisodeMetadata } from "../types";
+import { buildId3Tag } from "./id3";
+import { concatBytes } from "./bytes";
+
+/**
+ * 16-bit PCM WAV writer.
+ * Metadata goes into a LIST/INFO chunk (title, topic), an `id3 ` chunk (cover art, chapters)
+ * and, when chapters exist, `cue ` points with `adtl` labels for WAV-native editors.
+ */
+
+const encoder = new TextEncoder();
+
+interface Chunk {
+  id: string;
+  body: Uint8Array;
+}
+
+const chunkBytes = ({ id, body }: Chunk): Uint8Array => {
+  // Chunks are word aligned: odd sizes get a pad byte that isn't counted in the size
+  const out = new Uint8Array(8 + body.length + (body.length % 2));
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < 4; i++) out[i] = id.charCodeAt(i);
+  view.setUint32(4, body.length, true);
+  out.set(body, 8);
+  return out;
+};
+
+const zstr = (text: string) => concatBytes([encoder.encode(text), new Uint8Array([0])]);
+
+const listChunk = (type: string, chunks: Chunk[]): Chunk => ({
+  id: "LIST",
+  body: concatBytes([encoder.encode(type), ...chunks.map(chunkBytes)])
+});
+
+const formatChunk = (channels: number, sampleRate: number): Chunk => {
+  const body = new Uint8Array(16);
+  const view = new DataView(body.buffer);
+  view.setUint16(0, 1, true); // PCM
+  view.setUint16(2, channels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * channels * 2, true); // Byte rate
+  view.setUint16(12, channels * 2, true); // Block align
+  view.setUint16(14, 16, true); // Bits per sample
+  return { id: "fmt ", body };
+};
+
+const dataChunk = (audioBuffer: AudioBuffer): Chunk => {
+  const channels = audioBuffer.numberOfChannels;
+  const body = new Uint8Array(audioBuffer.length * channels * 2);
+  const view = new DataView(body.buffer);
+  const channelData = Array.from({ length: channels }, (_, ch) => audioBuffer.getChannelData(ch));
+
+  let offset = 0;
+  for (let i = 0; i < audioBuffer.length; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      const sample = Math.max(-1, Math.min(1, channelData[ch][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return { id: "data", body };
+};
+
+const cueChunks = (metadata: EpisodeMetadata, sampleRate: number): Chunk[] => {
+  if (metadata.chapters.length === 0) return [];
+
+  const cue = new Uint8Array(4 + metadata.chapters.length * 24);
+  const view = new DataView(cue.buffer);
+  view.setUint32(0, metadata.chapters.length, true);
+  metadata.chapters.forEach((chapter, i) => {
+    const base = 4 + i * 24;
+    const position = Math.round(chapter.start * sampleRate);
+    view.setUint32(base, i + 1, true); // Cue point ID
+    view.setUint32(base + 4, position, true);
+    cue.set(encoder.encode("data"), base + 8);
+    view.setUint32(base + 12, 0, true); // Chunk start
+    view.setUint32(base + 16, 0, true); // Block start
+    view.setUint32(base + 20, position, true); // Sample offset
+  });
+
+  const labels = metadata.chapters.map((chapter, i) => {
+    const id = new Uint8Array(4);
+    new DataView(id.buffer).setUint32(0, i + 1, true);
+    return { id: "labl", body: concatBytes([id, zstr(chapter.title)]) };
+  });
+
+  return [{ id: "cue ", body: cue }, listChunk("adtl", labels)];
+};
+
+export const encodeWav = (audioBuffer: AudioBuffer, metadata: EpisodeMetadata): Uint8Array => {
+  const info = listChunk("INFO", [
+    { id: "INAM", body: zstr(metadata.title) },
+    { id: "ICMT", body: zstr(metadata.topic) },
+    { id: "IGNR", body: zstr("Podcast") },
+    { id: "ISFT", body: zstr("GeminiCast") }
+  ]);
+
+  const chunks: Chunk[] = [
+    formatChunk(audioBuffer.numberOfChannels, audioBuffer.sampleRate),
+    dataChunk(audioBuffer),
+    ...cueChunks(metadata, audioBuffer.sampleRate),
+    info,
+    { id: "id3 ", body: buildId3Tag(metadata) }
+  ];
+
+  return chunkBytes({ id: "RIFF", body: concatBytes([encoder.encode("WAVE"), ...chunks.map(chunkBytes)]) });
+};
\ No newline at end of file
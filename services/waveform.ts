@@ -0,0 +1,25 @@
+/**
+ * Min/max sample per bin across all channels, for drawing a whole-buffer waveform.
+ * Returned as interleaved pairs: [min0, max0, min1, max1, ...].
+ */
+export const computePeaks = (audioBuffer: AudioBuffer, bins: number): Float32Array => {
+  const peaks = new Float32Array(bins * 2);
+  const samplesPerBin = audioBuffer.length / bins;
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, ch) => audioBuffer.getChannelData(ch));
+
+  for (let bin = 0; bin < bins; bin++) {
+    const from = Math.floor(bin * samplesPerBin);
+    const to = Math.max(from + 1, Math.floor((bin + 1) * samplesPerBin));
+    let min = 0;
+    let max = 0;
+    for (const data of channels) {
+      for (let i = from; i < to && i < data.length; i++) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+      }
+    }
+    peaks[bin * 2] = min;
+    peaks[bin * 2 + 1] = max;
+  }
+  return peaks;
+};
\ No newline at end of file
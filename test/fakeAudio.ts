@@ -0,0 +1,30 @@
+/**
+ * Just enough of AudioBuffer and BaseAudioContext for services that only read and write
+ * samples, so they can be tested in Node without a browser audio stack.
+ */
+
+export const createTestBuffer = (channels: Float32Array[], sampleRate: number): AudioBuffer => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  sampleRate,
+  duration: channels[0].length / sampleRate,
+  getChannelData: (channel: number) => channels[channel],
+  copyToChannel: (source: Float32Array, channel: number, offset = 0) => channels[channel].set(source, offset),
+  copyFromChannel: (destination: Float32Array, channel: number, offset = 0) =>
+    destination.set(channels[channel].subarray(offset, offset + destination.length))
+}) as unknown as AudioBuffer;
+
+// decodeAudioData is the browser's job; tests that reach it expect the rejection
+export const createTestContext = (sampleRate = 48000) => ({
+  sampleRate,
+  createBuffer: (channels: number, length: number, rate: number) =>
+    createTestBuffer(Array.from({ length: channels }, () => new Float32Array(length)), rate),
+  decodeAudioData: async (_data: ArrayBuffer): Promise<AudioBuffer> => {
+    throw new Error("decodeAudioData is not available in tests");
+  }
+}) as unknown as AudioContext;
+
+export const sine = (frequency: number, seconds: number, sampleRate: number, amplitude = 1): Float32Array =>
+  Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) =>
+    amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate)
+  );
\ No newline at end of file
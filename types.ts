@@ -1,15 +1,87 @@
 export enum LoadingStage {
   IDLE = 'IDLE',
   WRITING_SCRIPT = 'WRITING_SCRIPT',
+  CHECKING_SCRIPT = 'CHECKING_SCRIPT',
+  REVIEWING_SCRIPT = 'REVIEWING_SCRIPT',
+  RECORDING_LINES = 'RECORDING_LINES',
   GENERATING_ART = 'GENERATING_ART',
   SYNTHESIZING_AUDIO = 'SYNTHESIZING_AUDIO',
   COMPLETE = 'COMPLETE',
   ERROR = 'ERROR'
 }
 
+export interface VoiceOption {
+  name: string; // Prebuilt voice name understood by the TTS model
+  style: string;
+}
+
+export interface CastMember {
+  id: string;
+  name: string; // Speaker label used in the script and the TTS prompt
+  persona: string;
+  voiceName: string;
+  human?: boolean; // Voiced by a person recording in the browser; voiceName stands in where no take exists
+}
+
+// A human speaker's recording of one line, trimmed without touching the raw audio
+export interface RecordedTake {
+  audio: AudioBuffer;
+  trimStart: number; // Seconds into the recording
+  trimEnd: number;
+}
+
+export interface Citation {
+  passageId: string; // e.g. "S1-P3"
+  sourceName: string;
+  excerpt: string;
+}
+
 export interface DialogueLine {
-  speaker: 'Host' | 'Guest';
+  speaker: string; // Matches CastMember.name
   text: string;
+  citations?: Citation[]; // Only for episodes grounded in source material
+  flags?: ScriptFlag[]; // Set by the optional script review; cleared when the line is edited
+  style?: string; // Delivery direction for the whole line, e.g. "excited" or "whispering"
+}
+
+// Pronunciation lexicon entry: how a term is spoken, applied when the TTS prompt is built
+export interface PronunciationEntry {
+  term: string; // Matched as a whole word, case-sensitive
+  spoken: string; // e.g. "GIF" -> "jif", "Nginx" -> "engine x"
+}
+
+// A claim worth checking, or content that may break a content policy
+export type ScriptFlagKind = 'fact' | 'policy';
+
+export interface ScriptFlag {
+  kind: ScriptFlagKind;
+  note: string; // Why the line was flagged, shown next to it
+}
+
+export interface LineFlag extends ScriptFlag {
+  line: number; // 0-based index into the dialogue
+}
+
+export type SourceKind = 'text' | 'file' | 'url';
+
+export interface SourceDocument {
+  id: string;
+  name: string;
+  kind: SourceKind;
+  text: string; // Extracted plain text, empty until ready
+  status: 'loading' | 'ready' | 'error';
+  error?: string;
+}
+
+export interface SourcePassage {
+  id: string; // "S<source>-P<passage>", referenced by citations
+  text: string;
+}
+
+export interface PreparedSource {
+  name: string;
+  passages: SourcePassage[];
+  condensed: boolean; // True when the source was summarized to fit the context budget
 }
 
 export interface PodcastScript {
@@ -18,15 +90,443 @@ export interface PodcastScript {
   dialogue: DialogueLine[];
 }
 
+export type TonePreset = 'casual' | 'academic' | 'news' | 'debate' | 'storytelling';
+
+export type AudienceLevel = 'kids' | 'general' | 'informed' | 'expert';
+
+export interface EpisodeStructure {
+  intro: boolean;
+  sectionCount: number; // Main sections; 0 lets the model decide
+  outro: boolean;
+  callToAction: string; // Spoken in the outro; empty for none
+}
+
+export interface EpisodeFormat {
+  targetMinutes: number;
+  tone: TonePreset;
+  audience: AudienceLevel;
+  language: string; // Code from EPISODE_LANGUAGES
+  structure: EpisodeStructure;
+}
+
+// A recurring show: its episodes share a cast, a style guide and a visual identity.
+export interface Show {
+  id: string;
+  name: string;
+  cast: CastMember[];
+  format: EpisodeFormat;
+  styleGuide: string;
+  coverStyle: string;
+  createdAt: number;
+  feed?: FeedSettings; // Remembered after the show's feed is first exported
+}
+
+export interface EpisodeRecap {
+  episodeNumber: number;
+  title: string;
+  summary: string;
+}
+
+// What the script writer is told about the show an episode belongs to
+export interface ShowContext {
+  name: string;
+  styleGuide: string;
+  episodeNumber: number;
+  previousEpisodes: EpisodeRecap[];
+}
+
+export interface EpisodePlanItem {
+  topic: string;
+  synopsis: string;
+}
+
+export interface ShowLink {
+  title: string;
+  url: string;
+}
+
+export interface ShowNotes {
+  description: string;
+  takeaways: string[];
+  links: ShowLink[];
+}
+
+export interface ShowNotesRequest {
+  script: PodcastScript;
+  sourceUrls: string[]; // The only links show notes may cite besides ones spoken in the script
+}
+
+export type CoverStylePreset = 'minimal' | 'photographic' | 'illustration' | 'retro' | 'bold' | 'watercolor';
+
+export interface CoverArtRequest {
+  title: string;
+  topic: string;
+  visualStyle?: string; // A show's shared cover style
+  preset?: CoverStylePreset;
+  customPrompt?: string; // Extra art direction from the user
+  variant?: number; // Index within a batch of alternatives
+}
+
+export type CoverFont = 'grotesk' | 'serif' | 'condensed' | 'mono';
+
+export type CoverLayout = 'bottom' | 'top' | 'center' | 'band';
+
+// Title text drawn onto the art client-side; image models can't be trusted with lettering
+export interface CoverOverlay {
+  font: CoverFont;
+  layout: CoverLayout;
+  includeShowName: boolean;
+}
+
+export interface CoverText {
+  title: string;
+  showName: string | null;
+}
+
+export interface CoverDesign {
+  sourceImage: string; // Data URL of the art before any overlay
+  overlay: CoverOverlay | null;
+}
+
+export interface ScriptOptions {
+  topic: string;
+  cast: CastMember[];
+  format: EpisodeFormat;
+  sources?: PreparedSource[];
+  show?: ShowContext;
+  feedback?: string[]; // Problems found in a rejected earlier attempt, for the model to fix
+}
+
+export interface LineRewriteRequest {
+  script: PodcastScript;
+  index: number; // Line to rewrite
+  instruction: string;
+  cast: CastMember[];
+}
+
+export interface CallInRequest {
+  script: PodcastScript; // Including earlier answers, so follow-ups build on them
+  question: string;
+  cast: CastMember[];
+  format: EpisodeFormat;
+  atLine: number | null; // Line the listener paused on; null when asked at the end
+}
+
+export interface SpeechRequest {
+  lines: DialogueLine[];
+  voices: { speaker: string; voiceName: string }[]; // One entry means single-voice synthesis
+}
+
+// Every provider call accepts an optional AbortSignal for cancellation.
+export interface ScriptProvider {
+  generateScript(options: ScriptOptions, signal?: AbortSignal): Promise<PodcastScript>;
+  rewriteLine(request: LineRewriteRequest, signal?: AbortSignal): Promise<string>;
+  condenseText(text: string, sourceName: string, targetChars: number, signal?: AbortSignal): Promise<string>;
+  extractDocumentText(base64Data: string, mimeType: string, signal?: AbortSignal): Promise<string>;
+  fetchUrlText(url: string, signal?: AbortSignal): Promise<string>;
+  proposeEpisodePlan(show: Show, count: number, signal?: AbortSignal): Promise<EpisodePlanItem[]>;
+  writeShowNotes(request: ShowNotesRequest, signal?: AbortSignal): Promise<ShowNotes>;
+  answerListenerQuestion(request: CallInRequest, signal?: AbortSignal): Promise<DialogueLine[]>;
+  transcribeAudio(base64Data: string, mimeType: string, signal?: AbortSignal): Promise<string>;
+  reviewScript(script: PodcastScript, signal?: AbortSignal): Promise<LineFlag[]>;
+}
+
+export interface ImageProvider {
+  generateCoverArt(request: CoverArtRequest, signal?: AbortSignal): Promise<string>; // Data URL
+}
+
+export interface SpeechProvider {
+  maxSpeakersPerRequest: number;
+  synthesize(request: SpeechRequest, audioContext: BaseAudioContext, signal?: AbortSignal): Promise<AudioBuffer>;
+}
+
+export interface PodcastProviders {
+  script: ScriptProvider;
+  image: ImageProvider;
+  speech: SpeechProvider;
+}
+
+export type ProviderBackend = 'gemini' | 'mock';
+
+export interface GeminiModelConfig {
+  script: string; // Script writing and line rewrites
+  utility: string; // Document extraction, URL reading and condensing
+  image: string;
+  speech: string;
+}
+
+// The app server's endpoints; each one only accepts the models of its kind
+export type GeminiEndpoint = 'script' | 'cover' | 'audio';
+
+// How the browser reaches Gemini
+export type GeminiConnection =
+  | { mode: 'proxy'; baseUrl: string } // Through the app server, which holds the key
+  | { mode: 'key'; apiKey: string }; // Bring your own key, kept in this browser
+
+export interface ProviderConfig {
+  backend: ProviderBackend;
+  gemini: { models: GeminiModelConfig; connection: GeminiConnection };
+}
+
+// What one model has consumed; cost is derived from these with the price table
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number; // Including thinking tokens, which are billed as output
+  images: number;
+  audioSeconds: number;
+}
+
+export type UsageByModel = Record<string, UsageTotals>;
+
+// Running totals kept across sessions
+export interface UsageLedger {
+  days: Record<string, UsageByModel>; // Keyed by local date, YYYY-MM-DD
+  episodes: Record<string, UsageByModel>; // Keyed by episode id
+}
+
+// US dollars
+export interface ModelPrice {
+  inputPerMillion: number; // Per million prompt tokens
+  outputPerMillion: number; // Per million output tokens
+  perImage: number;
+  perAudioMinute: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Generation stops once a cap is reached; null means no cap
+export interface BudgetSettings {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+}
+
+export type SynthesisMode = 'combined' | 'segmented';
+
+export interface StitchOptions {
+  speakerChangeGapMs: number; // Silence inserted when the speaker changes
+  sameSpeakerGapMs: number; // Silence between consecutive lines of one speaker
+}
+
+export interface LineTiming {
+  start: number; // Seconds from the start of the episode audio
+  end: number;
+}
+
+export interface GenerationSettings {
+  topic: string; // As entered by the user
+  synthesisMode: SynthesisMode;
+  format: EpisodeFormat;
+  factCheck?: boolean; // Review the script for doubtful claims and policy issues before synthesis
+}
+
+// Batch mode: one row of a topic list or CSV, with its own format
+export interface BatchTopic {
+  topic: string;
+  format: EpisodeFormat;
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed';
+
+// A queued episode. Each job tracks its own stage, so batch work never locks the main form.
+export interface BatchJob {
+  id: string; // Becomes the episode's id
+  settings: GenerationSettings;
+  cast: CastMember[]; // Frozen when the job is queued
+  stitchOptions: StitchOptions;
+  status: BatchJobStatus;
+  stage: LoadingStage;
+  progress: { done: number; total: number } | null; // Segmented synthesis
+  script: PodcastScript | null; // Kept once written, so a resumed or retried job skips that step
+  error: string | null;
+  title: string | null; // Of the finished episode
+}
+
+export interface BatchQueueState {
+  jobs: BatchJob[];
+  paused: boolean; // No new jobs start; running ones finish
+  concurrency: number;
+  cooldownUntil: number | null; // Epoch ms; set after a rate limit, nothing starts before it
+}
+
+export interface BatchQueue {
+  getState(): BatchQueueState;
+  subscribe(listener: (state: BatchQueueState) => void): () => void;
+  add(jobs: Omit<BatchJob, 'status' | 'stage' | 'progress' | 'script' | 'error' | 'title'>[]): void;
+  pause(id?: string): void; // One job, or the whole queue without an id
+  resume(id?: string): void;
+  retry(id: string): void;
+  remove(id: string): void;
+  clearFinished(): void;
+  setConcurrency(concurrency: number): void;
+}
+
+export interface MixSettings {
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+  bedVolumeDb: number; // Music bed level between lines
+  duckingDb: number; // Extra attenuation of the bed while someone speaks
+  targetLufs: number; // Integrated loudness the final mix is normalized to
+}
+
+// User-supplied music, decoded. Kept in memory only; re-upload to remix a stored episode.
+export interface MixAsset {
+  name: string;
+  buffer: AudioBuffer;
+}
+
+export interface MixAssets {
+  intro: MixAsset | null;
+  outro: MixAsset | null;
+  bed: MixAsset | null;
+}
+
+export interface AppliedMix {
+  settings: MixSettings;
+  speechOffset: number; // Seconds of intro before the dry track starts
+  assetNames: { intro: string | null; outro: string | null; bed: string | null };
+}
+
+// A listener question answered by the hosts, appended to the end of the episode
+export interface CallIn {
+  question: string;
+  askedAt: number; // Epoch milliseconds
+  firstLine: number; // Index of the answer's first line in script.dialogue
+  lineCount: number;
+  startTime: number; // Seconds into the dry track where the answer starts
+}
+
 export interface PodcastEpisode {
   id: string;
+  createdAt: number; // Epoch milliseconds
+  settings: GenerationSettings;
   script: PodcastScript;
+  cast: CastMember[];
   coverImageBase64: string | null; // Data URL
   audioBuffer: AudioBuffer | null;
+  segments: AudioBuffer[] | null; // Per-line audio, only in segmented mode
+  lineTimings: LineTiming[] | null; // Parallel to script.dialogue, relative to the dry track
+  stitchOptions: StitchOptions;
+  dryAudioBuffer: AudioBuffer | null; // Unmixed speech while a mix is applied, otherwise null
+  mix: AppliedMix | null;
+  showId: string | null;
+  episodeNumber: number | null; // Position within the show
+  showNotes: ShowNotes | null;
+  cover: CoverDesign | null; // Set once edited in the cover studio; coverImageBase64 is then its rendering
+  callIns: CallIn[];
+}
+
+// A finished episode packed into one shareable file, played back by the listener view
+export interface EpisodeBundle {
+  kind: 'geminicast-episode';
+  version: number;
+  id: string;
+  createdAt: number;
+  title: string;
+  topic: string;
+  cast: CastMember[];
+  dialogue: DialogueLine[]; // Display text only: no speech markup or review flags
+  lineTimings: LineTiming[]; // Parallel to dialogue, relative to the bundled audio
+  callIns: CallIn[];
+  showNotes: ShowNotes | null;
+  coverImageBase64: string | null; // Data URL
+  audio: { mimeType: string; data: string }; // Base64
+}
+
+// Which view the page shows: the studio, or a bundle in the full or embedded listener
+export type AppRoute =
+  | { view: 'studio' }
+  | { view: 'listen' | 'embed'; src: string | null }; // src: bundle URL
+
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  topic: string;
+  createdAt: number;
+  coverImageBase64: string | null;
+  audioBytes: number; // Size of the stored audio
+  showId: string | null;
+  episodeNumber: number | null;
+  summary: string | null; // Show notes description, used to recap the episode for later ones
+}
+
+// Channel-level settings for a published podcast feed
+export interface FeedSettings {
+  title: string;
+  description: string;
+  baseUrl: string; // Where the exported bundle will be hosted; every URL in the feed starts here
+  author: string;
+  ownerEmail: string;
+  category: string; // Apple Podcasts top-level category
+  explicit: boolean;
+  language: string;
 }
 
+// One episode as it appears in the feed; paths are relative to baseUrl
+export interface FeedItem {
+  guid: string;
+  title: string;
+  description: string;
+  notesHtml: string | null;
+  pubDate: number; // Epoch milliseconds
+  durationSeconds: number;
+  audioPath: string;
+  audioBytes: number;
+  audioMimeType: string;
+  transcriptPath: string | null;
+  imagePath: string | null;
+  episodeNumber: number | null;
+}
+
+export interface StorageUsage {
+  usage: number; // Bytes
+  quota: number;
+}
+
+export interface Chapter {
+  title: string;
+  start: number; // Seconds
+  end: number;
+}
+
+export interface EpisodeMetadata {
+  title: string;
+  topic: string;
+  coverImageBase64: string | null; // Data URL
+  chapters: Chapter[];
+}
+
+export type AudioExportFormat = 'wav' | 'mp3';
+
+export type TranscriptExportFormat = 'json' | 'txt' | 'srt' | 'vtt';
+
+export type VisualizerMode = 'bars' | 'oscilloscope' | 'speakers' | 'overview';
+
 export interface AudioVisualizerProps {
-  audioContext: AudioContext | null;
-  sourceNode: AudioBufferSourceNode | null;
+  player: AudioPlayer | null;
+  episode: PodcastEpisode | null; // For speaker colours and the waveform overview
+}
+
+export interface PlaybackState {
   isPlaying: boolean;
+  position: number; // Seconds into the buffer
+  duration: number;
+  rate: number;
+  volume: number; // 0–1
+}
+
+export interface AudioPlayer {
+  readonly analyser: AnalyserNode; // Last node before the destination; visualizers read from it
+  load(buffer: AudioBuffer | null): void;
+  play(): void;
+  pause(): void;
+  toggle(): void;
+  seek(seconds: number): void;
+  skip(deltaSeconds: number): void;
+  setRate(rate: number): void;
+  setVolume(volume: number): void;
+  getPosition(): number;
+  getState(): PlaybackState;
+  subscribe(listener: (state: PlaybackState) => void): () => void;
+  dispose(): void;
 }
\ No newline at end of file
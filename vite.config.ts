@@ -2,17 +2,28 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The podcast server (npm run server) answers the API; it holds the Gemini key
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The server build reads its environment at runtime instead. The API key is never
+      // injected into the browser bundle.
+      define: isSsrBuild ? {} : {
+        // Provider selection ('gemini' or 'mock'), server URL and per-model overrides
+        'process.env.PODCAST_PROVIDER': JSON.stringify(env.PODCAST_PROVIDER),
+        'process.env.PODCAST_API_URL': JSON.stringify(env.PODCAST_API_URL),
+        'process.env.GEMINI_SCRIPT_MODEL': JSON.stringify(env.GEMINI_SCRIPT_MODEL),
+        'process.env.GEMINI_UTILITY_MODEL': JSON.stringify(env.GEMINI_UTILITY_MODEL),
+        'process.env.GEMINI_IMAGE_MODEL': JSON.stringify(env.GEMINI_IMAGE_MODEL),
+        'process.env.GEMINI_SPEECH_MODEL': JSON.stringify(env.GEMINI_SPEECH_MODEL)
       },
       resolve: {
         alias: {
@@ -20,4 +31,4 @@ export default defineConfig(({ mode }) => {
         }
       }
     };
-});
+});
\ No newline at end of file